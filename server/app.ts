@@ -0,0 +1,206 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import cors from 'cors';
+import { getReleaseWeek } from './tmdb.ts';
+import { getUpcomingFriday } from './musicbrainz.ts';
+import type { Config, Feature } from './config.ts';
+import type { WatchedItemStore } from './watchedStore.ts';
+import type { WatchEventStore } from './watchEventStore.ts';
+import type { UserStore } from './userStore.ts';
+import type { SessionStore } from './sessionStore.ts';
+import type { AuthEventStore } from './authEventStore.ts';
+import type { DismissedCardStore } from './dismissedStore.ts';
+import type { SnapshotStore } from './snapshotStore.ts';
+import { createFeedReader, createFeedSources } from './feeds.ts';
+import type { FeedContext, FeedName, FeedSource } from './feeds.ts';
+import type { ReleaseArchiveStore } from './releaseArchiveStore.ts';
+import { createScheduler } from './scheduler.ts';
+import type { Scheduler, ScheduledJob } from './scheduler.ts';
+import type { ArchivedReleases, CalendarCategory } from './types.ts';
+import { addDays, todayUTC } from './dates.ts';
+import { authenticate, createAuthRouter } from './routes/auth.ts';
+import { createAdminRouter } from './routes/admin.ts';
+import { createStatusRouter } from './routes/status.ts';
+import { createSpotifyRouter } from './routes/spotify.ts';
+import { createDismissedRouter } from './routes/dismissed.ts';
+import { createGamingRouter } from './routes/gaming.ts';
+import { createMoviesRouter } from './routes/movies.ts';
+import { createMusicRouter } from './routes/music.ts';
+import { createArchiveRouter, createCalendarRouter } from './routes/archive.ts';
+import { createWeatherRouter } from './routes/weather.ts';
+import { createWatchedRouter } from './routes/watched.ts';
+import { createDiaryRouter } from './routes/diary.ts';
+import { createStatsRouter } from './routes/stats.ts';
+import { createImportRouter } from './routes/import.ts';
+import { createNewsRouter } from './routes/news.ts';
+import { createSearchRouter } from './routes/search.ts';
+
+export interface AppStores {
+  userStore: UserStore;
+  sessionStore: SessionStore;
+  authEventStore: AuthEventStore;
+  watchedStore: WatchedItemStore;
+  watchEventStore: WatchEventStore;
+  dismissedStore: DismissedCardStore;
+  snapshotStore: SnapshotStore;
+  releaseArchive: ReleaseArchiveStore;
+}
+
+// Answers every route under a prefix whose feature is switched off
+function featureOff(feature: Feature, reason: string) {
+  return (_req: Request, res: Response) => {
+    res.status(404).json({ error: `The ${feature} feature is not available: ${reason}` });
+  };
+}
+
+// Without trust proxy, every client behind a proxy shares its address, and so
+// one login throttle. Says so the first time a proxied request arrives.
+function warnUntrustedProxy(): express.RequestHandler {
+  let warned = false;
+  return (req, _res, next) => {
+    if (!warned && req.headers['x-forwarded-for']) {
+      warned = true;
+      console.warn('Requests are arriving through a proxy (X-Forwarded-For is set) but TRUST_PROXY is 0, so every client '
+        + 'gets the proxy\'s address: login throttling and the auth log can\'t tell them apart. Set TRUST_PROXY to the number '
+        + 'of proxies in front of the server (2 for Vercel -> Railway).');
+    }
+    next();
+  };
+}
+
+// The API as an Express app, not yet listening. The scheduler that keeps the
+// release feeds warm is returned unstarted.
+export function createApp(config: Config, stores: AppStores): { app: express.Express; scheduler: Scheduler } {
+  const { features, twitch, tmdbApiKey, lastfmApiKey, spotify, openweatherApiKey } = config;
+  const { userStore, sessionStore, authEventStore, watchedStore, watchEventStore, dismissedStore, snapshotStore, releaseArchive } = stores;
+
+  // --- Release feeds ---
+
+  const feedSources = createFeedSources({
+    twitchClientId: twitch?.clientId,
+    twitchClientSecret: twitch?.clientSecret,
+    tmdbApiKey,
+    lastfmApiKey,
+  });
+  const refreshIntervals = config.refreshIntervals;
+  const feeds: FeedContext = {
+    reader: createFeedReader(snapshotStore),
+    sources: feedSources,
+    // Routes accept snapshots up to two refresh intervals old, so a scheduled
+    // refresh that runs late never leaves a request waiting on a live load
+    maxAge: Object.fromEntries(
+      Object.entries(refreshIntervals).map(([name, interval]) => [name, interval * 2]),
+    ) as Record<FeedName, number>,
+  };
+
+  // Refreshes a release feed and files the result in the archive, so the last
+  // list shown for a day outlives the feed snapshot
+  const refreshAndArchive = async (category: CalendarCategory, date: string, source: FeedSource<{ items: ArchivedReleases['items'] }>, interval: number) => {
+    const snapshot = await feeds.reader.read(source, interval);
+    await releaseArchive.put({ category, date, archivedAt: snapshot.lastUpdated, items: snapshot.data.items });
+  };
+
+  // The scheduler keeps the default views warm: today's games, this week's
+  // releases, charts and news. Reading with maxAge = interval means a restart
+  // doesn't refetch anything whose stored snapshot is still current.
+  const feedJobs: ScheduledJob[] = [];
+  if (features.gaming.enabled) {
+    feedJobs.push({
+      name: 'games',
+      interval: refreshIntervals.games,
+      // The SPA asks for the user's local date, which is a day either side
+      // of UTC somewhere, so all three days are kept warm
+      run: async () => {
+        const today = todayUTC();
+        for (const day of [today, addDays(today, -1), addDays(today, 1)]) {
+          await refreshAndArchive('game', day, feedSources.games(day, day), refreshIntervals.games);
+        }
+      },
+    });
+  }
+  if (features.news.enabled) {
+    feedJobs.push({ name: 'news', interval: refreshIntervals.news, run: () => feeds.reader.read(feedSources.news(), refreshIntervals.news) });
+  }
+  if (features.music.enabled) {
+    feedJobs.push({
+      name: 'albums',
+      interval: refreshIntervals.albums,
+      run: () => {
+        const friday = getUpcomingFriday();
+        return refreshAndArchive('album', friday, feedSources.albums(friday), refreshIntervals.albums);
+      },
+    });
+  }
+  if (features.movies.enabled) {
+    feedJobs.push(
+      {
+        name: 'movies',
+        interval: refreshIntervals.movies,
+        run: () => {
+          const { friday } = getReleaseWeek();
+          return refreshAndArchive('movie', friday, feedSources.movies(friday), refreshIntervals.movies);
+        },
+      },
+      { name: 'nowPlaying', interval: refreshIntervals.nowPlaying, run: () => feeds.reader.read(feedSources.nowPlaying(), refreshIntervals.nowPlaying) },
+    );
+  }
+  if (features.charts.enabled) {
+    feedJobs.push({ name: 'charts', interval: refreshIntervals.charts, run: () => feeds.reader.read(feedSources.charts(), refreshIntervals.charts) });
+  }
+  const scheduler = createScheduler(feedJobs);
+
+  // --- Routes ---
+
+  const app = express();
+
+  if (config.trustProxy > 0) app.set('trust proxy', config.trustProxy);
+  else app.use(warnUntrustedProxy());
+
+  app.use(cors({ origin: config.frontendUrl || 'http://localhost:5173' }));
+  app.use(express.json());
+
+  // Serve uploaded covers without auth
+  app.use('/api/covers', express.static(config.coversDir));
+
+  app.get('/api/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok' });
+  });
+
+  app.use(authenticate(config.jwtSecret, sessionStore));
+
+  // A feature that's off answers 404 under each of its prefixes, searches
+  // included, instead of falling through to a provider without credentials
+  const prefixes: Record<Feature, string[]> = {
+    gaming: ['/api/gaming', '/api/games'],
+    movies: ['/api/movies', '/api/tv'],
+    music: ['/api/music/upcoming'],
+    charts: ['/api/music/charts', '/api/albums'],
+    spotify: ['/api/spotify/login', '/api/spotify/callback'],
+    weather: ['/api/weather'],
+    news: ['/api/news'],
+  };
+  for (const [feature, state] of Object.entries(features) as [Feature, typeof features[Feature]][]) {
+    if (!state.enabled) app.use(prefixes[feature], featureOff(feature, state.reason ?? 'switched off'));
+  }
+
+  app.use('/api/auth', createAuthRouter({ jwtSecret: config.jwtSecret, userStore, sessionStore, authEventStore }));
+  app.use('/api/admin', createAdminRouter(userStore, authEventStore));
+  app.use('/api', createStatusRouter(config));
+  app.use('/api/spotify', createSpotifyRouter({ spotify, frontendUrl: config.frontendUrl, production: config.production }));
+  app.use('/api/dismissed', createDismissedRouter(dismissedStore));
+  app.use('/api/watched', createWatchedRouter({ watchedStore, watchEventStore, coversDir: config.coversDir, tmdbApiKey }));
+  app.use('/api/diary', createDiaryRouter(watchEventStore, watchedStore));
+  app.use('/api/stats', createStatsRouter(watchEventStore, watchedStore));
+  app.use('/api/import', createImportRouter({ watchedStore, watchEventStore, tmdbApiKey, lastfmApiKey }));
+  app.use('/api/archive', createArchiveRouter(releaseArchive, dismissedStore));
+  app.use('/api/calendar', createCalendarRouter({ dismissedStore, twitch, tmdbApiKey, albums: features.music.enabled }));
+
+  if (twitch) app.use('/api/gaming', createGamingRouter(feeds, dismissedStore));
+  if (tmdbApiKey) app.use('/api/movies', createMoviesRouter(tmdbApiKey, feeds, dismissedStore));
+  app.use('/api/music', createMusicRouter({ feeds, dismissedStore, lastfmApiKey, spotify }));
+  if (openweatherApiKey) app.use('/api/weather', createWeatherRouter(openweatherApiKey));
+  app.use('/api/news', createNewsRouter(feeds));
+  app.use('/api', createSearchRouter({ twitch, tmdbApiKey, lastfmApiKey }));
+
+  return { app, scheduler };
+}
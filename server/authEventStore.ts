@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { hasDatabase, dbInsertAuthEvent, dbGetAuthEvents } from './db.ts';
+import type { AuthEvent } from './db.ts';
+
+export interface AuthEventStore {
+  record(event: Omit<AuthEvent, 'id'>): Promise<void>;
+  // Most recent first
+  list(limit: number): Promise<AuthEvent[]>;
+}
+
+// The file and memory stores only keep the most recent events
+const MAX_KEPT_EVENTS = 1000;
+
+function appendEvent(all: AuthEvent[], event: Omit<AuthEvent, 'id'>): AuthEvent[] {
+  const id = all.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+  return [...all, { ...event, id }].slice(-MAX_KEPT_EVENTS);
+}
+
+function latest(all: AuthEvent[], limit: number): AuthEvent[] {
+  return all.slice(-limit).reverse();
+}
+
+// --- In-memory (tests) ---
+
+export function createMemoryAuthEventStore(initial: AuthEvent[] = []): AuthEventStore {
+  let all: AuthEvent[] = initial.map((e) => ({ ...e }));
+
+  return {
+    async record(event) {
+      all = appendEvent(all, event);
+    },
+    async list(limit) {
+      return latest(all, limit).map((e) => ({ ...e }));
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresAuthEventStore(): AuthEventStore {
+  return {
+    record: dbInsertAuthEvent,
+    async list(limit) {
+      return (await dbGetAuthEvents(limit)) ?? [];
+    },
+  };
+}
+
+// --- JSON file ---
+
+const AUTH_EVENTS_FILE = path.join(process.cwd(), 'data', 'auth-events.json');
+
+function readAll(): AuthEvent[] {
+  try {
+    return JSON.parse(fs.readFileSync(AUTH_EVENTS_FILE, 'utf-8')) as AuthEvent[];
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(all: AuthEvent[]): void {
+  const dir = path.dirname(AUTH_EVENTS_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(AUTH_EVENTS_FILE, JSON.stringify(all, null, 2));
+}
+
+export function createFileAuthEventStore(): AuthEventStore {
+  return {
+    async record(event) {
+      writeAll(appendEvent(readAll(), event));
+    },
+    async list(limit) {
+      return latest(readAll(), limit);
+    },
+  };
+}
+
+export function createAuthEventStore(): AuthEventStore {
+  return hasDatabase() ? createPostgresAuthEventStore() : createFileAuthEventStore();
+}
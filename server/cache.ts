@@ -0,0 +1,118 @@
+import { hasDatabase, dbGetCacheEntry, dbSetCacheEntry, dbDeleteExpiredCacheEntries } from './db.ts';
+
+// Shared cache for upstream API responses. Each entry is fresh for `ttl`, then
+// served stale for up to `staleWhileRevalidate` more while one background
+// reload replaces it. Concurrent loads of the same key share a single request.
+// Values must be JSON-serialisable so they can live in the optional Postgres
+// tier, which lets a restart pick up where the last process left off.
+
+export interface CacheOptions {
+  ttl: number;
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+// Second-level storage consulted on a memory miss
+export interface CacheTier {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry, expiresAt: number): Promise<void>;
+}
+
+export interface TtlCache {
+  // Values are cloned on the way out, so callers may mutate what they get back
+  getOrLoad<T>(key: string, options: CacheOptions, load: () => Promise<T>): Promise<T>;
+}
+
+export function createTtlCache(tier?: CacheTier, maxEntries = 2000): TtlCache {
+  const memory = new Map<string, CacheEntry>();
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  const remember = (key: string, entry: CacheEntry) => {
+    // Map iteration order is insertion order, so re-inserting keeps hot keys at the end
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > maxEntries) {
+      memory.delete(memory.keys().next().value!);
+    }
+  };
+
+  const lookup = async (key: string): Promise<CacheEntry | null> => {
+    const cached = memory.get(key);
+    if (cached) return cached;
+    if (!tier) return null;
+    try {
+      const stored = await tier.get(key);
+      if (stored) remember(key, stored);
+      return stored;
+    } catch (err) {
+      console.error(`Cache tier read failed for ${key}:`, err instanceof Error ? err.message : err);
+      return null;
+    }
+  };
+
+  const reload = (key: string, options: CacheOptions, load: () => Promise<unknown>): Promise<unknown> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = load()
+      .then((value) => {
+        const storedAt = Date.now();
+        const expiresAt = storedAt + options.ttl + (options.staleWhileRevalidate ?? 0);
+        remember(key, { value, storedAt });
+        tier?.set(key, { value, storedAt }, expiresAt).catch((err) => {
+          console.error(`Cache tier write failed for ${key}:`, err instanceof Error ? err.message : err);
+        });
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async getOrLoad<T>(key: string, options: CacheOptions, load: () => Promise<T>): Promise<T> {
+      const entry = await lookup(key);
+      const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+      if (entry && age < options.ttl) {
+        return structuredClone(entry.value) as T;
+      }
+
+      if (entry && age < options.ttl + (options.staleWhileRevalidate ?? 0)) {
+        reload(key, options, load).catch((err) => {
+          console.error(`Background refresh failed for ${key}:`, err instanceof Error ? err.message : err);
+        });
+        return structuredClone(entry.value) as T;
+      }
+
+      return structuredClone(await reload(key, options, load)) as T;
+    },
+  };
+}
+
+// --- Postgres tier ---
+
+const PRUNE_INTERVAL = 60 * 60 * 1000;
+
+export function createPostgresCacheTier(): CacheTier {
+  let lastPrunedAt = 0;
+
+  return {
+    async get(key) {
+      return dbGetCacheEntry(key, Date.now());
+    },
+    async set(key, entry, expiresAt) {
+      await dbSetCacheEntry(key, entry, expiresAt);
+      if (Date.now() - lastPrunedAt > PRUNE_INTERVAL) {
+        lastPrunedAt = Date.now();
+        await dbDeleteExpiredCacheEntries(lastPrunedAt);
+      }
+    },
+  };
+}
+
+export const apiCache = createTtlCache(hasDatabase() ? createPostgresCacheTier() : undefined);
@@ -0,0 +1,139 @@
+import path from 'path';
+import { feedIntervals, INTERVAL_ENV } from './feeds.ts';
+import type { FeedName } from './feeds.ts';
+import { parseMockMode } from './fixtures.ts';
+import type { MockMode } from './fixtures.ts';
+import type { Feature, FeatureState } from './types.ts';
+
+export type { Feature, FeatureState } from './types.ts';
+
+// Everything the server takes from the environment, checked once at startup.
+// Provider credentials are optional: a feature whose provider isn't configured
+// is switched off rather than stopping the server.
+
+export const FEATURES: readonly Feature[] = ['gaming', 'movies', 'music', 'charts', 'spotify', 'weather', 'news'];
+
+export interface Config {
+  port: number;
+  production: boolean;
+  // Number of reverse proxies in front of the server (e.g. 2 for Vercel -> Railway),
+  // so req.ip is the client's address rather than the last proxy's
+  trustProxy: number;
+  frontendUrl?: string;
+  jwtSecret: string;
+  // Only used to create the initial admin account on a fresh deployment
+  bootstrapAdmin: { username: string; passwordHash?: string };
+  mockMode: MockMode | null;
+  coversDir: string;
+  refreshIntervals: Record<FeedName, number>;
+  // Credentials are only set for features that are on
+  twitch?: { clientId: string; clientSecret: string };
+  tmdbApiKey?: string;
+  lastfmApiKey?: string;
+  spotify?: { clientId: string; clientSecret: string };
+  openweatherApiKey?: string;
+  features: Record<Feature, FeatureState>;
+}
+
+// The environment variables each feature needs; all of them must be set.
+// Charts also brings album search and artist popularity, which use Last.fm too.
+const FEATURE_ENV: Record<Feature, string[]> = {
+  gaming: ['TWITCH_CLIENT_ID', 'TWITCH_CLIENT_SECRET'],
+  movies: ['TMDB_API_KEY'],
+  music: [],
+  charts: ['LASTFM_CLIENT_ID'],
+  spotify: ['SPOTIFY_CLIENT_ID', 'SPOTIFY_CLIENT_SECRET'],
+  weather: ['OPENWEATHER_API_KEY'],
+  news: [],
+};
+
+// Replayed fixtures don't check credentials, so placeholders stand in for
+// these. Spotify is left out: connecting it needs the real OAuth page.
+const MOCKABLE_ENV = ['TWITCH_CLIENT_ID', 'TWITCH_CLIENT_SECRET', 'TMDB_API_KEY', 'LASTFM_CLIENT_ID', 'OPENWEATHER_API_KEY'];
+
+function isFeature(name: string): name is Feature {
+  return (FEATURES as readonly string[]).includes(name);
+}
+
+// Reads and validates the environment, reporting every problem at once
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): { config: Config } | { errors: string[] } {
+  const errors: string[] = [];
+
+  const mockMode = parseMockMode(env['MOCK_PROVIDERS']);
+  if (env['MOCK_PROVIDERS'] && !mockMode) {
+    errors.push('MOCK_PROVIDERS must be "replay" or "record"');
+  }
+  const value = (name: string): string | undefined =>
+    env[name] || (mockMode === 'replay' && MOCKABLE_ENV.includes(name) ? 'mock' : undefined);
+
+  const jwtSecret = env['JWT_SECRET'];
+  if (!jwtSecret) errors.push('JWT_SECRET is required');
+
+  const port = env['PORT'] ? Number(env['PORT']) : 3001;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    errors.push('PORT must be a port number');
+  }
+
+  const trustProxy = env['TRUST_PROXY'] ? Number(env['TRUST_PROXY']) : 0;
+  if (!Number.isInteger(trustProxy) || trustProxy < 0) {
+    errors.push('TRUST_PROXY must be a whole number of proxies');
+  }
+
+  for (const name of Object.values(INTERVAL_ENV)) {
+    const minutes = env[name];
+    if (minutes && !(Number(minutes) > 0)) errors.push(`${name} must be a positive number of minutes`);
+  }
+
+  const disabled = (env['DISABLED_FEATURES'] ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+  for (const name of disabled.filter((name) => !isFeature(name))) {
+    errors.push(`DISABLED_FEATURES: unknown feature "${name}" (expected ${FEATURES.join(', ')})`);
+  }
+
+  const features = {} as Record<Feature, FeatureState>;
+  for (const feature of FEATURES) {
+    const required = FEATURE_ENV[feature];
+    const missing = required.filter((name) => !value(name));
+    // Half a pair of credentials is almost certainly a typo
+    if (missing.length > 0 && missing.length < required.length) {
+      errors.push(`Set ${missing.join(' and ')} as well as ${required.filter((name) => !missing.includes(name)).join(' and ')}, or neither`);
+    }
+    if (disabled.includes(feature)) {
+      features[feature] = { enabled: false, reason: 'Disabled with DISABLED_FEATURES' };
+    } else if (missing.length > 0) {
+      features[feature] = { enabled: false, reason: `${missing.join(' and ')} not set` };
+    } else {
+      features[feature] = { enabled: true };
+    }
+  }
+
+  if (errors.length > 0 || !jwtSecret) return { errors };
+
+  const enabled = (feature: Feature, name: string) => (features[feature].enabled ? value(name) : undefined);
+  const twitchClientId = enabled('gaming', 'TWITCH_CLIENT_ID');
+  const twitchClientSecret = enabled('gaming', 'TWITCH_CLIENT_SECRET');
+  const spotifyClientId = enabled('spotify', 'SPOTIFY_CLIENT_ID');
+  const spotifyClientSecret = enabled('spotify', 'SPOTIFY_CLIENT_SECRET');
+
+  return {
+    config: {
+      port,
+      production: env['NODE_ENV'] === 'production',
+      trustProxy,
+      frontendUrl: env['FRONTEND_URL'] || undefined,
+      jwtSecret,
+      bootstrapAdmin: {
+        username: env['DASHBOARD_USERNAME'] || 'admin',
+        passwordHash: env['DASHBOARD_PASSWORD_HASH'] || undefined,
+      },
+      mockMode,
+      coversDir: path.join(process.cwd(), 'data', 'covers'),
+      refreshIntervals: feedIntervals(env),
+      twitch: twitchClientId && twitchClientSecret ? { clientId: twitchClientId, clientSecret: twitchClientSecret } : undefined,
+      tmdbApiKey: enabled('movies', 'TMDB_API_KEY'),
+      lastfmApiKey: enabled('charts', 'LASTFM_CLIENT_ID'),
+      spotify: spotifyClientId && spotifyClientSecret ? { clientId: spotifyClientId, clientSecret: spotifyClientSecret } : undefined,
+      openweatherApiKey: enabled('weather', 'OPENWEATHER_API_KEY'),
+      features,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// Helpers for calendar dates passed around as YYYY-MM-DD strings. These are
+// plain dates with no time zone; arithmetic is done in UTC so DST never shifts a day.
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Rejects impossible dates like 2025-02-30 that Date.parse would roll over
+export function isISODate(value: unknown): value is string {
+  if (typeof value !== 'string' || !ISO_DATE.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Number of days from `from` to `to`; negative if `to` is earlier
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+export function isFriday(date: string): boolean {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() === 5;
+}
+
+export function todayUTC(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export type DateRangeQuery = { from: string; to: string } | { error: string };
+
+// Reads either ?date=YYYY-MM-DD (a single day) or ?from=&to= (inclusive) from
+// a query string. With neither present, falls back to `fallback` when given.
+export function parseDateRange(query: Record<string, unknown>, maxDays: number, fallback?: string): DateRangeQuery {
+  const { date, from, to } = query;
+  if (date !== undefined && (from !== undefined || to !== undefined)) {
+    return { error: 'Pass either date or from/to, not both' };
+  }
+  if (date !== undefined) {
+    return isISODate(date) ? { from: date, to: date } : { error: 'date must be in YYYY-MM-DD format' };
+  }
+  if (from === undefined && to === undefined && fallback) {
+    return { from: fallback, to: fallback };
+  }
+  if (!isISODate(from) || !isISODate(to)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+  const days = daysBetween(from, to) + 1;
+  if (days < 1 || days > maxDays) {
+    return { error: `Date range must span 1 to ${maxDays} days` };
+  }
+  return { from, to };
+}
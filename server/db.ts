@@ -1,4 +1,8 @@
 import pg from 'pg';
+import { runMigrations } from './migrations.ts';
+import type { ArchivedReleases, ArchiveDate, AuthEvent, AuthEventType, CalendarCategory, WatchEvent, WatchedItem, WatchedStatus } from './types.ts';
+
+export type { AuthEvent, AuthEventType, WatchedItem } from './types.ts';
 
 const { Pool } = pg;
 
@@ -10,131 +14,301 @@ export function hasDatabase(): boolean {
   return pool !== null;
 }
 
+export function getPool(): pg.Pool | null {
+  return pool;
+}
+
 export async function initDb(): Promise<void> {
   if (!pool) {
     console.log('DATABASE_URL not set — using file-based storage');
     return;
   }
 
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS watched_movies (
-      id INTEGER PRIMARY KEY,
-      title TEXT NOT NULL,
-      poster_url TEXT,
-      release_date TEXT NOT NULL DEFAULT '',
-      added_at TEXT NOT NULL
-    )
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS watched_items (
-      id TEXT NOT NULL,
-      category TEXT NOT NULL,
-      title TEXT NOT NULL,
-      subtitle TEXT NOT NULL DEFAULT '',
-      image_url TEXT,
-      added_at TEXT NOT NULL,
-      PRIMARY KEY (category, id)
-    )
-  `);
-
-  // Migrate existing watched_movies into watched_items (idempotent)
-  await pool.query(`
-    INSERT INTO watched_items (id, category, title, subtitle, image_url, added_at)
-    SELECT id::TEXT, 'movie', title, COALESCE(release_date, ''), poster_url, added_at
-    FROM watched_movies
-    ON CONFLICT (category, id) DO NOTHING
-  `);
-
-  await pool.query(`
-    ALTER TABLE watched_items ADD COLUMN IF NOT EXISTS rating INTEGER DEFAULT NULL
-  `);
-
-  await pool.query(`
-    ALTER TABLE watched_items ADD COLUMN IF NOT EXISTS director TEXT DEFAULT NULL
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS spotify_tokens (
-      id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
-      access_token TEXT NOT NULL,
-      refresh_token TEXT NOT NULL,
-      expires_at BIGINT NOT NULL
-    )
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS dismissed_cards (
-      category TEXT NOT NULL,
-      item_id TEXT NOT NULL,
-      dismissed_at TEXT NOT NULL,
-      PRIMARY KEY (category, item_id)
-    )
-  `);
-
-  console.log('Database tables initialized');
-}
-
-// --- Watched Movies ---
-
-interface WatchedMovie {
+  const applied = await runMigrations(pool);
+  if (applied.length > 0) {
+    console.log(`Applied migrations: ${applied.map((m) => `${m.version}_${m.name}`).join(', ')}`);
+  }
+  console.log('Database schema up to date');
+}
+
+// --- Users ---
+
+export interface User {
   id: number;
-  title: string;
-  posterUrl: string | null;
-  releaseDate: string;
-  addedAt: string;
+  username: string;
+  passwordHash: string;
+  isAdmin: boolean;
+  createdAt: string;
+}
+
+interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string;
+  is_admin: boolean;
+  created_at: string;
 }
 
-export async function dbGetWatchedMovies(): Promise<WatchedMovie[] | null> {
+function toUser(r: UserRow): User {
+  return {
+    id: r.id,
+    username: r.username,
+    passwordHash: r.password_hash,
+    isAdmin: r.is_admin,
+    createdAt: r.created_at,
+  };
+}
+
+export async function dbGetUsers(): Promise<User[]> {
+  if (!pool) return [];
+  const { rows } = await pool.query('SELECT id, username, password_hash, is_admin, created_at FROM users ORDER BY id');
+  return rows.map(toUser);
+}
+
+export async function dbGetUserById(id: number): Promise<User | null> {
   if (!pool) return null;
-  const { rows } = await pool.query('SELECT id, title, poster_url, release_date, added_at FROM watched_movies');
-  return rows.map((r: { id: number; title: string; poster_url: string | null; release_date: string; added_at: string }) => ({
+  const { rows } = await pool.query('SELECT id, username, password_hash, is_admin, created_at FROM users WHERE id = $1', [id]);
+  return rows.length > 0 ? toUser(rows[0] as UserRow) : null;
+}
+
+export async function dbGetUserByUsername(username: string): Promise<User | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query('SELECT id, username, password_hash, is_admin, created_at FROM users WHERE username = $1', [username]);
+  return rows.length > 0 ? toUser(rows[0] as UserRow) : null;
+}
+
+export async function dbInsertUser(user: Omit<User, 'id'>): Promise<User | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `INSERT INTO users (username, password_hash, is_admin, created_at)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id, username, password_hash, is_admin, created_at`,
+    [user.username, user.passwordHash, user.isAdmin, user.createdAt],
+  );
+  return toUser(rows[0] as UserRow);
+}
+
+// --- Sessions ---
+
+export interface Session {
+  id: string;
+  userId: number;
+  refreshTokenHash: string;
+  previousRefreshTokenHash: string | null;
+  userAgent: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+interface SessionRow {
+  id: string;
+  user_id: number;
+  refresh_token_hash: string;
+  previous_refresh_token_hash: string | null;
+  user_agent: string;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+const SESSION_COLUMNS = 'id, user_id, refresh_token_hash, previous_refresh_token_hash, user_agent, created_at, last_used_at, expires_at, revoked_at';
+
+function toSession(r: SessionRow): Session {
+  return {
     id: r.id,
-    title: r.title,
-    posterUrl: r.poster_url,
-    releaseDate: r.release_date,
-    addedAt: r.added_at,
+    userId: r.user_id,
+    refreshTokenHash: r.refresh_token_hash,
+    previousRefreshTokenHash: r.previous_refresh_token_hash,
+    userAgent: r.user_agent,
+    createdAt: r.created_at,
+    lastUsedAt: r.last_used_at,
+    expiresAt: r.expires_at,
+    revokedAt: r.revoked_at,
+  };
+}
+
+export async function dbInsertSession(session: Session): Promise<void> {
+  if (!pool) return;
+  await pool.query('DELETE FROM sessions WHERE expires_at < $1', [new Date().toISOString()]);
+  await pool.query(
+    `INSERT INTO sessions (${SESSION_COLUMNS})
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [session.id, session.userId, session.refreshTokenHash, session.previousRefreshTokenHash, session.userAgent, session.createdAt, session.lastUsedAt, session.expiresAt, session.revokedAt],
+  );
+}
+
+export async function dbGetSessionById(id: string): Promise<Session | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(`SELECT ${SESSION_COLUMNS} FROM sessions WHERE id = $1`, [id]);
+  return rows.length > 0 ? toSession(rows[0] as SessionRow) : null;
+}
+
+export async function dbGetSessionByRefreshTokenHash(hash: string): Promise<Session | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT ${SESSION_COLUMNS} FROM sessions WHERE refresh_token_hash = $1 OR previous_refresh_token_hash = $1`,
+    [hash],
+  );
+  return rows.length > 0 ? toSession(rows[0] as SessionRow) : null;
+}
+
+export async function dbRotateSession(id: string, refreshTokenHash: string, lastUsedAt: string, expiresAt: string): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    `UPDATE sessions
+     SET previous_refresh_token_hash = refresh_token_hash, refresh_token_hash = $2, last_used_at = $3, expires_at = $4
+     WHERE id = $1`,
+    [id, refreshTokenHash, lastUsedAt, expiresAt],
+  );
+}
+
+export async function dbRevokeSession(id: string): Promise<void> {
+  if (!pool) return;
+  await pool.query('UPDATE sessions SET revoked_at = $2 WHERE id = $1 AND revoked_at IS NULL', [id, new Date().toISOString()]);
+}
+
+export async function dbRevokeUserSessions(userId: number): Promise<void> {
+  if (!pool) return;
+  await pool.query('UPDATE sessions SET revoked_at = $2 WHERE user_id = $1 AND revoked_at IS NULL', [userId, new Date().toISOString()]);
+}
+
+// --- Auth Events ---
+
+export async function dbInsertAuthEvent(event: Omit<AuthEvent, 'id'>): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    `INSERT INTO auth_events (type, username, user_id, ip, user_agent, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [event.type, event.username, event.userId, event.ip, event.userAgent, event.createdAt],
+  );
+}
+
+export async function dbGetAuthEvents(limit: number): Promise<AuthEvent[] | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT id, type, username, user_id, ip, user_agent, created_at
+     FROM auth_events ORDER BY id DESC LIMIT $1`,
+    [limit],
+  );
+  return rows.map((r: { id: number; type: AuthEventType; username: string; user_id: number | null; ip: string; user_agent: string; created_at: string }) => ({
+    id: r.id,
+    type: r.type,
+    username: r.username,
+    userId: r.user_id,
+    ip: r.ip,
+    userAgent: r.user_agent,
+    createdAt: r.created_at,
   }));
 }
 
-export async function dbInsertWatchedMovie(movie: WatchedMovie): Promise<void> {
+// --- API Cache ---
+
+export async function dbGetCacheEntry(key: string, now: number): Promise<{ value: unknown; storedAt: number } | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    'SELECT value, stored_at FROM api_cache WHERE key = $1 AND expires_at > $2',
+    [key, now],
+  );
+  if (rows.length === 0) return null;
+  const row = rows[0] as { value: unknown; stored_at: string };
+  return { value: row.value, storedAt: Number(row.stored_at) };
+}
+
+export async function dbSetCacheEntry(key: string, entry: { value: unknown; storedAt: number }, expiresAt: number): Promise<void> {
   if (!pool) return;
   await pool.query(
-    `INSERT INTO watched_movies (id, title, poster_url, release_date, added_at)
-     VALUES ($1, $2, $3, $4, $5)
-     ON CONFLICT (id) DO NOTHING`,
-    [movie.id, movie.title, movie.posterUrl, movie.releaseDate, movie.addedAt],
+    `INSERT INTO api_cache (key, value, stored_at, expires_at)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (key) DO UPDATE SET value = $2, stored_at = $3, expires_at = $4`,
+    [key, JSON.stringify(entry.value), entry.storedAt, expiresAt],
   );
 }
 
-export async function dbDeleteWatchedMovie(id: number): Promise<void> {
+export async function dbDeleteExpiredCacheEntries(now: number): Promise<void> {
   if (!pool) return;
-  await pool.query('DELETE FROM watched_movies WHERE id = $1', [id]);
+  await pool.query('DELETE FROM api_cache WHERE expires_at <= $1', [now]);
+}
+
+// --- Feed Snapshots ---
+
+export interface FeedSnapshot {
+  data: unknown;
+  lastUpdated: string;  // ISO 8601
+}
+
+export async function dbGetFeedSnapshot(key: string): Promise<FeedSnapshot | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query('SELECT data, last_updated FROM feed_snapshots WHERE key = $1', [key]);
+  if (rows.length === 0) return null;
+  const row = rows[0] as { data: unknown; last_updated: string };
+  return { data: row.data, lastUpdated: row.last_updated };
+}
+
+export async function dbPutFeedSnapshot(key: string, snapshot: FeedSnapshot, pruneBefore: string): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    `INSERT INTO feed_snapshots (key, data, last_updated)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (key) DO UPDATE SET data = $2, last_updated = $3`,
+    [key, JSON.stringify(snapshot.data), snapshot.lastUpdated],
+  );
+  await pool.query('DELETE FROM feed_snapshots WHERE last_updated < $1', [pruneBefore]);
+}
+
+// --- Release Archive ---
+
+export async function dbPutArchivedReleases(entry: ArchivedReleases): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    `INSERT INTO release_archive (category, date, archived_at, items)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (category, date) DO UPDATE SET archived_at = $3, items = $4`,
+    [entry.category, entry.date, entry.archivedAt, JSON.stringify(entry.items)],
+  );
+}
+
+export async function dbGetArchivedReleases(category: CalendarCategory, date: string): Promise<ArchivedReleases | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    'SELECT category, date, archived_at, items FROM release_archive WHERE category = $1 AND date = $2',
+    [category, date],
+  );
+  if (rows.length === 0) return null;
+  const row = rows[0] as { category: CalendarCategory; date: string; archived_at: string; items: ArchivedReleases['items'] };
+  return { category: row.category, date: row.date, archivedAt: row.archived_at, items: row.items };
+}
+
+export async function dbListArchiveDates(from: string, to: string): Promise<ArchiveDate[]> {
+  if (!pool) return [];
+  const { rows } = await pool.query(
+    'SELECT category, date FROM release_archive WHERE date >= $1 AND date <= $2 ORDER BY date, category',
+    [from, to],
+  );
+  return rows as ArchiveDate[];
 }
 
 // --- Watched Items (unified: movie | tv | album | book) ---
 
-export interface WatchedItem {
+interface WatchedItemRow {
   id: string;
   category: string;
   title: string;
   subtitle: string;
-  imageUrl: string | null;
-  addedAt: string;
+  image_url: string | null;
+  added_at: string;
   rating: number | null;
+  review: string | null;
   director: string | null;
+  status: WatchedStatus;
 }
 
-export async function dbGetWatchedItems(category: string): Promise<WatchedItem[] | null> {
-  if (!pool) return null;
-  const { rows } = await pool.query(
-    `SELECT id, category, title, subtitle, image_url, added_at, rating, director FROM watched_items WHERE category = $1
-     ORDER BY
-       CASE WHEN $1 IN ('movie', 'tv') THEN subtitle END DESC NULLS LAST,
-       added_at DESC`,
-    [category],
-  );
-  return rows.map((r: { id: string; category: string; title: string; subtitle: string; image_url: string | null; added_at: string; rating: number | null; director: string | null }) => ({
+const WATCHED_ITEM_COLUMNS = 'id, category, title, subtitle, image_url, added_at, rating, review, director, status';
+
+function watchedItemFromRow(r: WatchedItemRow): WatchedItem {
+  return {
     id: r.id,
     category: r.category,
     title: r.title,
@@ -142,39 +316,146 @@ export async function dbGetWatchedItems(category: string): Promise<WatchedItem[]
     imageUrl: r.image_url,
     addedAt: r.added_at,
     rating: r.rating ?? null,
+    review: r.review ?? null,
     director: r.director ?? null,
-  }));
+    status: r.status,
+  };
+}
+
+export async function dbGetWatchedItems(userId: number, category: string, status: WatchedStatus): Promise<WatchedItem[] | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT ${WATCHED_ITEM_COLUMNS} FROM watched_items WHERE user_id = $1 AND category = $2 AND status = $3`,
+    [userId, category, status],
+  );
+  return (rows as WatchedItemRow[]).map(watchedItemFromRow);
+}
+
+export async function dbGetBacklogItems(userId: number): Promise<WatchedItem[] | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT ${WATCHED_ITEM_COLUMNS} FROM watched_items WHERE user_id = $1 AND status = 'want_to' ORDER BY added_at DESC`,
+    [userId],
+  );
+  return (rows as WatchedItemRow[]).map(watchedItemFromRow);
+}
+
+export async function dbInsertWatchedItem(userId: number, item: WatchedItem): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    `INSERT INTO watched_items (user_id, id, category, title, subtitle, image_url, added_at, rating, director, status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, NULL, $8, $9)
+     ON CONFLICT (user_id, category, id) DO NOTHING`,
+    [userId, item.id, item.category, item.title, item.subtitle, item.imageUrl, item.addedAt, item.director ?? null, item.status],
+  );
 }
 
-export async function dbInsertWatchedItem(item: WatchedItem): Promise<void> {
+// Moves a backlog item into the log; items already there keep their date
+export async function dbMarkWatchedItemDone(userId: number, category: string, id: string, doneAt: string): Promise<void> {
   if (!pool) return;
   await pool.query(
-    `INSERT INTO watched_items (id, category, title, subtitle, image_url, added_at, rating, director)
-     VALUES ($1, $2, $3, $4, $5, $6, NULL, $7)
-     ON CONFLICT (category, id) DO NOTHING`,
-    [item.id, item.category, item.title, item.subtitle, item.imageUrl, item.addedAt, item.director ?? null],
+    `UPDATE watched_items SET status = 'done', added_at = $1 WHERE user_id = $2 AND category = $3 AND id = $4 AND status = 'want_to'`,
+    [doneAt, userId, category, id],
+  );
+}
+
+export async function dbUpdateWatchedItemImageUrl(userId: number, category: string, id: string, imageUrl: string): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    'UPDATE watched_items SET image_url = $1 WHERE user_id = $2 AND category = $3 AND id = $4',
+    [imageUrl, userId, category, id],
+  );
+}
+
+export async function dbUpdateWatchedItemRating(userId: number, category: string, id: string, rating: number | null): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    'UPDATE watched_items SET rating = $1 WHERE user_id = $2 AND category = $3 AND id = $4',
+    [rating, userId, category, id],
+  );
+}
+
+export async function dbUpdateWatchedItemReview(userId: number, category: string, id: string, review: string | null): Promise<void> {
+  if (!pool) return;
+  await pool.query(
+    'UPDATE watched_items SET review = $1 WHERE user_id = $2 AND category = $3 AND id = $4',
+    [review, userId, category, id],
+  );
+}
+
+export async function dbDeleteWatchedItem(userId: number, category: string, id: string): Promise<void> {
+  if (!pool) return;
+  await pool.query('DELETE FROM watched_items WHERE user_id = $1 AND category = $2 AND id = $3', [userId, category, id]);
+}
+
+// --- Watch Events ---
+
+interface WatchEventRow {
+  id: number;
+  category: string;
+  item_id: string;
+  date: string;
+  notes: string;
+  rewatch: boolean;
+  created_at: string;
+}
+
+const WATCH_EVENT_COLUMNS = 'id, category, item_id, date, notes, rewatch, created_at';
+
+function watchEventFromRow(r: WatchEventRow): WatchEvent {
+  return {
+    id: r.id,
+    category: r.category,
+    itemId: r.item_id,
+    date: r.date,
+    notes: r.notes,
+    rewatch: r.rewatch,
+    createdAt: r.created_at,
+  };
+}
+
+export async function dbGetWatchEvents(userId: number, from: string, to: string): Promise<WatchEvent[] | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT ${WATCH_EVENT_COLUMNS} FROM watch_events
+     WHERE user_id = $1 AND date >= $2 AND date <= $3
+     ORDER BY date DESC, created_at DESC`,
+    [userId, from, to],
+  );
+  return (rows as WatchEventRow[]).map(watchEventFromRow);
+}
+
+export async function dbGetItemWatchEvents(userId: number, category: string, itemId: string): Promise<WatchEvent[] | null> {
+  if (!pool) return null;
+  const { rows } = await pool.query(
+    `SELECT ${WATCH_EVENT_COLUMNS} FROM watch_events
+     WHERE user_id = $1 AND category = $2 AND item_id = $3
+     ORDER BY date DESC, created_at DESC`,
+    [userId, category, itemId],
   );
+  return (rows as WatchEventRow[]).map(watchEventFromRow);
 }
 
-export async function dbUpdateWatchedItemImageUrl(category: string, id: string, imageUrl: string): Promise<void> {
+export async function dbInsertWatchEvent(userId: number, event: Omit<WatchEvent, 'id'>): Promise<void> {
   if (!pool) return;
   await pool.query(
-    'UPDATE watched_items SET image_url = $1 WHERE category = $2 AND id = $3',
-    [imageUrl, category, id],
+    `INSERT INTO watch_events (user_id, category, item_id, date, notes, rewatch, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [userId, event.category, event.itemId, event.date, event.notes, event.rewatch, event.createdAt],
   );
 }
 
-export async function dbUpdateWatchedItemRating(category: string, id: string, rating: number | null): Promise<void> {
+export async function dbDeleteWatchEvent(userId: number, category: string, itemId: string, id: number): Promise<void> {
   if (!pool) return;
   await pool.query(
-    'UPDATE watched_items SET rating = $1 WHERE category = $2 AND id = $3',
-    [rating, category, id],
+    'DELETE FROM watch_events WHERE user_id = $1 AND category = $2 AND item_id = $3 AND id = $4',
+    [userId, category, itemId, id],
   );
 }
 
-export async function dbDeleteWatchedItem(category: string, id: string): Promise<void> {
+export async function dbDeleteItemWatchEvents(userId: number, category: string, itemId: string): Promise<void> {
   if (!pool) return;
-  await pool.query('DELETE FROM watched_items WHERE category = $1 AND id = $2', [category, id]);
+  await pool.query('DELETE FROM watch_events WHERE user_id = $1 AND category = $2 AND item_id = $3', [userId, category, itemId]);
 }
 
 // --- Spotify Tokens ---
@@ -185,49 +466,49 @@ interface SpotifyTokens {
   expires_at: number;
 }
 
-export async function dbLoadTokens(): Promise<SpotifyTokens | null> {
+export async function dbLoadTokens(userId: number): Promise<SpotifyTokens | null> {
   if (!pool) return null;
-  const { rows } = await pool.query('SELECT access_token, refresh_token, expires_at FROM spotify_tokens WHERE id = 1');
+  const { rows } = await pool.query('SELECT access_token, refresh_token, expires_at FROM spotify_tokens WHERE user_id = $1', [userId]);
   if (rows.length === 0) return null;
   const r = rows[0] as { access_token: string; refresh_token: string; expires_at: string };
   return { access_token: r.access_token, refresh_token: r.refresh_token, expires_at: Number(r.expires_at) };
 }
 
-export async function dbSaveTokens(tokens: SpotifyTokens): Promise<void> {
+export async function dbSaveTokens(userId: number, tokens: SpotifyTokens): Promise<void> {
   if (!pool) return;
   await pool.query(
-    `INSERT INTO spotify_tokens (id, access_token, refresh_token, expires_at)
-     VALUES (1, $1, $2, $3)
-     ON CONFLICT (id) DO UPDATE SET access_token = $1, refresh_token = $2, expires_at = $3`,
-    [tokens.access_token, tokens.refresh_token, tokens.expires_at],
+    `INSERT INTO spotify_tokens (user_id, access_token, refresh_token, expires_at)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id) DO UPDATE SET access_token = $2, refresh_token = $3, expires_at = $4`,
+    [userId, tokens.access_token, tokens.refresh_token, tokens.expires_at],
   );
 }
 
-export async function dbClearTokens(): Promise<void> {
+export async function dbClearTokens(userId: number): Promise<void> {
   if (!pool) return;
-  await pool.query('DELETE FROM spotify_tokens WHERE id = 1');
+  await pool.query('DELETE FROM spotify_tokens WHERE user_id = $1', [userId]);
 }
 
 // --- Dismissed Cards ---
 
-export async function dbGetDismissedCards(category: string): Promise<string[]> {
+export async function dbGetDismissedCards(userId: number, category: string): Promise<string[]> {
   if (!pool) return [];
-  const { rows } = await pool.query('SELECT item_id FROM dismissed_cards WHERE category = $1', [category]);
+  const { rows } = await pool.query('SELECT item_id FROM dismissed_cards WHERE user_id = $1 AND category = $2', [userId, category]);
   return rows.map((r: { item_id: string }) => r.item_id);
 }
 
-export async function dbDismissCard(category: string, itemId: string): Promise<void> {
+export async function dbDismissCard(userId: number, category: string, itemId: string): Promise<void> {
   if (!pool) return;
   await pool.query(
-    `INSERT INTO dismissed_cards (category, item_id, dismissed_at)
-     VALUES ($1, $2, $3)
-     ON CONFLICT (category, item_id) DO NOTHING`,
-    [category, itemId, new Date().toISOString()],
+    `INSERT INTO dismissed_cards (user_id, category, item_id, dismissed_at)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, category, item_id) DO NOTHING`,
+    [userId, category, itemId, new Date().toISOString()],
   );
 }
 
-export async function dbIsAuthenticated(): Promise<boolean | null> {
+export async function dbIsAuthenticated(userId: number): Promise<boolean | null> {
   if (!pool) return null;
-  const tokens = await dbLoadTokens();
+  const tokens = await dbLoadTokens(userId);
   return tokens !== null;
 }
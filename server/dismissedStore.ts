@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { hasDatabase, dbGetDismissedCards, dbDismissCard } from './db.ts';
+
+// Release cards a user has hidden, by category ('game', 'movie', 'album')
+export interface DismissedCardStore {
+  list(userId: number, category: string): Promise<string[]>;
+  // Dismissing a card twice is a no-op
+  dismiss(userId: number, category: string, itemId: string): Promise<void>;
+}
+
+interface DismissedCard {
+  userId: number;
+  category: string;
+  itemId: string;
+  dismissedAt: string;
+}
+
+function idsFor(all: DismissedCard[], userId: number, category: string): string[] {
+  return all.filter((c) => c.userId === userId && c.category === category).map((c) => c.itemId);
+}
+
+function withCard(all: DismissedCard[], userId: number, category: string, itemId: string): DismissedCard[] {
+  if (all.some((c) => c.userId === userId && c.category === category && c.itemId === itemId)) return all;
+  return [...all, { userId, category, itemId, dismissedAt: new Date().toISOString() }];
+}
+
+// --- In-memory (tests) ---
+
+export function createMemoryDismissedCardStore(): DismissedCardStore {
+  let all: DismissedCard[] = [];
+
+  return {
+    async list(userId, category) {
+      return idsFor(all, userId, category);
+    },
+    async dismiss(userId, category, itemId) {
+      all = withCard(all, userId, category, itemId);
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresDismissedCardStore(): DismissedCardStore {
+  return {
+    list: dbGetDismissedCards,
+    dismiss: dbDismissCard,
+  };
+}
+
+// --- JSON file ---
+
+const DISMISSED_FILE = path.join(process.cwd(), 'data', 'dismissed-cards.json');
+
+function readAll(): DismissedCard[] {
+  try {
+    return JSON.parse(fs.readFileSync(DISMISSED_FILE, 'utf-8')) as DismissedCard[];
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(all: DismissedCard[]): void {
+  const dir = path.dirname(DISMISSED_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(DISMISSED_FILE, JSON.stringify(all, null, 2));
+}
+
+export function createFileDismissedCardStore(): DismissedCardStore {
+  return {
+    async list(userId, category) {
+      return idsFor(readAll(), userId, category);
+    },
+    async dismiss(userId, category, itemId) {
+      const all = readAll();
+      const next = withCard(all, userId, category, itemId);
+      if (next !== all) writeAll(next);
+    },
+  };
+}
+
+export function createDismissedCardStore(): DismissedCardStore {
+  return hasDatabase() ? createPostgresDismissedCardStore() : createFileDismissedCardStore();
+}
@@ -0,0 +1,243 @@
+import { fetchGameReleases } from './igdb.ts';
+import { fetchAllSteamReviews, fetchAllSteamDescriptions, backfillSteamAppIds } from './steam.ts';
+import { fetchUpcomingFridayMovies, fetchNowPlayingMovies } from './tmdb.ts';
+import { fetchUpcomingFridayAlbums } from './musicbrainz.ts';
+import { fetchAllArtistPopularity, fetchTopCharts } from './lastfm.ts';
+import { fetchNews } from './news.ts';
+import type { SnapshotStore } from './snapshotStore.ts';
+import type { AlbumRelease, FeedIssue, FeedResult, GameReleaseWithReviews, MovieRelease, NewsItem, TopChartsResponse } from './types.ts';
+
+// A feed is one upstream result set (today's games, a week's albums, ...) that
+// the API serves from a stored snapshot. The scheduler refreshes the default
+// ones in the background; anything else is loaded on first request. Sources
+// load live rather than through apiCache: a refresh handed a stale cached
+// value would store it under a new lastUpdated.
+
+export interface FeedSource<T> {
+  key: string;
+  load: () => Promise<T>;
+}
+
+export interface Snapshot<T> {
+  data: T;
+  lastUpdated: string;  // ISO 8601
+}
+
+export type FeedName = 'games' | 'movies' | 'nowPlaying' | 'albums' | 'charts' | 'news';
+
+const MINUTE = 60 * 1000;
+
+const DEFAULT_INTERVALS: Record<FeedName, number> = {
+  games: 60 * MINUTE,
+  movies: 180 * MINUTE,
+  nowPlaying: 180 * MINUTE,
+  albums: 180 * MINUTE,
+  charts: 30 * MINUTE,
+  news: 15 * MINUTE,
+};
+
+export const INTERVAL_ENV: Record<FeedName, string> = {
+  games: 'REFRESH_GAMES_MINUTES',
+  movies: 'REFRESH_MOVIES_MINUTES',
+  nowPlaying: 'REFRESH_NOW_PLAYING_MINUTES',
+  albums: 'REFRESH_ALBUMS_MINUTES',
+  charts: 'REFRESH_CHARTS_MINUTES',
+  news: 'REFRESH_NEWS_MINUTES',
+};
+
+// Refresh intervals in ms, overridable per feed with REFRESH_<FEED>_MINUTES
+export function feedIntervals(env: NodeJS.ProcessEnv = process.env): Record<FeedName, number> {
+  const intervals = { ...DEFAULT_INTERVALS };
+  for (const name of Object.keys(intervals) as FeedName[]) {
+    const minutes = Number(env[INTERVAL_ENV[name]]);
+    if (Number.isFinite(minutes) && minutes > 0) intervals[name] = minutes * MINUTE;
+  }
+  return intervals;
+}
+
+export interface FeedCredentials {
+  twitchClientId?: string;
+  twitchClientSecret?: string;
+  tmdbApiKey?: string;
+  lastfmApiKey?: string;
+}
+
+function requireKey(key: string | undefined, name: string): string {
+  if (!key) throw new Error(`${name} not configured`);
+  return key;
+}
+
+export function createFeedSources(credentials: FeedCredentials) {
+  const { twitchClientId, twitchClientSecret, tmdbApiKey, lastfmApiKey } = credentials;
+
+  return {
+    games: (from: string, to: string): FeedSource<FeedResult<GameReleaseWithReviews>> => ({
+      key: `games:${from}:${to}`,
+      load: () => loadGameReleases(
+        requireKey(twitchClientId, 'TWITCH_CLIENT_ID'),
+        requireKey(twitchClientSecret, 'TWITCH_CLIENT_SECRET'),
+        from,
+        to,
+      ),
+    }),
+    movies: (friday: string): FeedSource<FeedResult<MovieRelease>> => ({
+      key: `movies:${friday}`,
+      load: () => fetchUpcomingFridayMovies(requireKey(tmdbApiKey, 'TMDB_API_KEY'), friday),
+    }),
+    nowPlaying: (): FeedSource<FeedResult<MovieRelease>> => ({
+      key: 'nowPlaying',
+      load: () => fetchNowPlayingMovies(requireKey(tmdbApiKey, 'TMDB_API_KEY')),
+    }),
+    albums: (friday: string): FeedSource<FeedResult<AlbumRelease>> => ({
+      key: `albums:${friday}`,
+      load: () => loadAlbumReleases(lastfmApiKey, friday),
+    }),
+    charts: (): FeedSource<TopChartsResponse> => ({
+      key: 'charts',
+      load: () => fetchTopCharts(requireKey(lastfmApiKey, 'LASTFM_CLIENT_ID')),
+    }),
+    news: (): FeedSource<FeedResult<NewsItem>> => ({
+      key: 'news',
+      load: fetchNews,
+    }),
+  };
+}
+
+export type FeedSources = ReturnType<typeof createFeedSources>;
+
+// What the release and news routes need to serve a feed: each one is read
+// with maxAge so a late scheduled refresh never leaves a request waiting
+export interface FeedContext {
+  reader: FeedReader;
+  sources: FeedSources;
+  maxAge: Record<FeedName, number>;
+}
+
+// An issue for an enrichment step where some of the lookups failed
+function partialFailure(step: string, failed: number, what: string): FeedIssue[] {
+  if (failed === 0) return [];
+  return [{ step, status: 'failed', message: `${failed} ${what} failed` }];
+}
+
+async function loadGameReleases(clientId: string, clientSecret: string, from: string, to: string): Promise<FeedResult<GameReleaseWithReviews>> {
+  console.log(`Fetching IGDB releases for ${from}..${to}...`);
+  const releases = await fetchGameReleases(clientId, clientSecret, from, to);
+  console.log(`Got ${releases.length} releases from IGDB`);
+
+  console.log('Backfilling Steam App IDs...');
+  const failedSearches = await backfillSteamAppIds(releases);
+
+  console.log('Fetching Steam reviews and descriptions...');
+  const [{ reviews, failed: failedReviews }, { descriptions, failed: failedDescriptions }] = await Promise.all([
+    fetchAllSteamReviews(releases),
+    fetchAllSteamDescriptions(releases),
+  ]);
+  console.log(`Got reviews for ${reviews.size} games, descriptions for ${descriptions.size} games`);
+
+  const enriched: GameReleaseWithReviews[] = releases.map((game) => ({
+    ...game,
+    steamReviews: game.steamAppId ? (reviews.get(game.steamAppId) ?? null) : null,
+    steamDescription: game.steamAppId ? (descriptions.get(game.steamAppId) ?? null) : null,
+  }));
+
+  enriched.sort((a, b) => {
+    const aPopularity = (a.hypes ?? 0) + (a.follows ?? 0);
+    const bPopularity = (b.hypes ?? 0) + (b.follows ?? 0);
+
+    if (aPopularity !== bPopularity) return bPopularity - aPopularity;
+
+    return a.name.localeCompare(b.name);
+  });
+
+  return {
+    items: enriched,
+    issues: [
+      ...partialFailure('steam-app-ids', failedSearches, 'Steam store searches'),
+      ...partialFailure('steam-reviews', failedReviews, 'Steam review lookups'),
+      ...partialFailure('steam-descriptions', failedDescriptions, 'Steam description lookups'),
+    ],
+  };
+}
+
+async function loadAlbumReleases(lastfmApiKey: string | undefined, friday: string): Promise<FeedResult<AlbumRelease>> {
+  console.log(`Fetching albums for Friday ${friday} from MusicBrainz...`);
+  const albums = await fetchUpcomingFridayAlbums(friday);
+  console.log(`Got ${albums.length} albums from MusicBrainz`);
+
+  if (!lastfmApiKey) {
+    return {
+      items: albums,
+      issues: [{ step: 'artist-popularity', status: 'skipped', message: 'Last.fm not configured; albums are not ranked by popularity' }],
+    };
+  }
+
+  console.log('Fetching artist popularity from Last.fm...');
+  const { popularity, failed } = await fetchAllArtistPopularity(lastfmApiKey, albums);
+  console.log(`Got popularity data for ${popularity.size} artists`);
+
+  for (const album of albums) {
+    const info = popularity.get(album.artist);
+    album.artistListeners = info?.listeners ?? null;
+    album.genre = info?.genre ?? undefined;
+  }
+
+  albums.sort((a, b) => {
+    const aHas = a.artistListeners != null;
+    const bHas = b.artistListeners != null;
+
+    if (aHas && !bHas) return -1;
+    if (!aHas && bHas) return 1;
+
+    if (aHas && bHas) {
+      return b.artistListeners! - a.artistListeners!;
+    }
+
+    return a.artist.localeCompare(b.artist);
+  });
+
+  return { items: albums, issues: partialFailure('artist-popularity', failed, 'Last.fm artist lookups') };
+}
+
+// --- Snapshot reads ---
+
+export interface FeedReader {
+  // Serves the stored snapshot while it is younger than maxAge, otherwise
+  // loads live. If that load fails, an older snapshot is better than nothing.
+  read<T>(source: FeedSource<T>, maxAge: number): Promise<Snapshot<T>>;
+  // Loads live and replaces the stored snapshot
+  refresh<T>(source: FeedSource<T>): Promise<Snapshot<T>>;
+}
+
+export function createFeedReader(store: SnapshotStore): FeedReader {
+  const inFlight = new Map<string, Promise<Snapshot<unknown>>>();
+
+  const refresh = <T>(source: FeedSource<T>): Promise<Snapshot<T>> => {
+    const pending = inFlight.get(source.key);
+    if (pending) return pending as Promise<Snapshot<T>>;
+
+    const promise = source.load()
+      .then(async (data) => {
+        const snapshot = { data, lastUpdated: new Date().toISOString() };
+        await store.put(source.key, snapshot);
+        return snapshot;
+      })
+      .finally(() => inFlight.delete(source.key));
+    inFlight.set(source.key, promise);
+    return promise;
+  };
+
+  return {
+    async read<T>(source: FeedSource<T>, maxAge: number): Promise<Snapshot<T>> {
+      const stored = await store.get(source.key) as Snapshot<T> | null;
+      if (stored && Date.now() - Date.parse(stored.lastUpdated) < maxAge) return stored;
+      try {
+        return await refresh(source);
+      } catch (err) {
+        if (!stored) throw err;
+        console.error(`Serving stale ${source.key} snapshot:`, err instanceof Error ? err.message : err);
+        return stored;
+      }
+    },
+    refresh,
+  };
+}
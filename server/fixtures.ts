@@ -0,0 +1,120 @@
+// Offline fixtures for upstream providers, switched on with MOCK_PROVIDERS:
+//
+//   MOCK_PROVIDERS=replay  answer every httpFetch from fixtures/, never the network
+//   MOCK_PROVIDERS=record  call the real providers and save each response
+//
+// A request is looked up by method, URL and body with API keys stripped, then
+// by its route alone (method, host and path with ids replaced), so a fixture
+// recorded for one day's releases or one movie's credits serves any other.
+// Recorded responses are stored as-is: check them for tokens before committing.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type MockMode = 'replay' | 'record';
+
+export function parseMockMode(value: string | undefined): MockMode | null {
+  if (value === 'record') return 'record';
+  if (value === 'replay' || value === 'true' || value === '1') return 'replay';
+  return null;
+}
+
+export const mockMode = parseMockMode(process.env['MOCK_PROVIDERS']);
+
+const FIXTURES_DIR = process.env['MOCK_FIXTURES_DIR'] || path.join(process.cwd(), 'fixtures');
+
+// Credentials that differ between developers and must not end up in fixtures
+const SECRET_PARAMS = ['api_key', 'appid', 'key', 'client_id', 'client_secret', 'code', 'refresh_token'];
+// Query parameters that pick the endpoint rather than filter it (Last.fm's
+// whole API is one path)
+const ROUTE_PARAMS = ['method'];
+
+interface Fixture {
+  request: { method: string; url: string; body?: string };
+  response: { status: number; contentType: string | null; body: string };
+  recordedAt: string;
+}
+
+function stripSecrets(params: URLSearchParams): URLSearchParams {
+  const kept = new URLSearchParams(params);
+  for (const name of SECRET_PARAMS) kept.delete(name);
+  return kept;
+}
+
+function bodyText(body: RequestInit['body']): string | undefined {
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return stripSecrets(body).toString();
+  return undefined;
+}
+
+// "GET-appreviews-_": the route with numeric path segments blanked, safe as a file name
+function routeSlug(method: string, url: URL): string {
+  const segments = url.pathname.split('/').filter(Boolean)
+    .map((segment) => (/^\d+$/.test(segment) ? '_' : segment));
+  const routeParams = ROUTE_PARAMS.map((name) => url.searchParams.get(name)).filter((v): v is string => v !== null);
+  return [method, ...segments, ...routeParams].join('-').replace(/[^a-zA-Z0-9_.-]+/g, '-');
+}
+
+function fixtureFiles(method: string, url: URL, body: string | undefined): { dir: string; route: string; exact: string } {
+  const query = stripSecrets(url.searchParams);
+  query.sort();
+  const hash = crypto.createHash('sha256')
+    .update(`${method} ${url.pathname}?${query}\n${body ?? ''}`)
+    .digest('hex')
+    .slice(0, 12);
+  const route = routeSlug(method, url);
+  return { dir: path.join(FIXTURES_DIR, url.hostname), route, exact: `${route}.${hash}.json` };
+}
+
+function readFixture(file: string): Fixture | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as Fixture;
+  } catch {
+    return null;
+  }
+}
+
+// The recorded response for a request, falling back to any fixture for the same route
+export function replayFixture(url: URL, method: string, body: RequestInit['body']): Response {
+  const { dir, route, exact } = fixtureFiles(method, url, bodyText(body));
+  let fixture = readFixture(path.join(dir, exact));
+  if (!fixture) {
+    let candidates: string[] = [];
+    try {
+      candidates = fs.readdirSync(dir).filter((file) => file.startsWith(`${route}.`)).sort();
+    } catch { /* no fixtures for this host */ }
+    fixture = candidates.length > 0 ? readFixture(path.join(dir, candidates[0]!)) : null;
+  }
+  if (!fixture) {
+    throw new Error(`No fixture for ${method} ${url.hostname}${url.pathname} (expected ${path.join(dir, exact)}); record one with MOCK_PROVIDERS=record`);
+  }
+  const { status, contentType, body: responseBody } = fixture.response;
+  // Responses with these statuses can't carry a body
+  const nullBody = status === 204 || status === 304;
+  return new Response(nullBody ? null : responseBody, {
+    status,
+    headers: contentType ? { 'Content-Type': contentType } : {},
+  });
+}
+
+export async function recordFixture(url: URL, method: string, body: RequestInit['body'], res: Response): Promise<void> {
+  const requestBody = bodyText(body);
+  const { dir, exact } = fixtureFiles(method, url, requestBody);
+  const query = stripSecrets(url.searchParams).toString();
+  const fixture: Fixture = {
+    request: {
+      method,
+      url: `${url.origin}${url.pathname}${query ? `?${query}` : ''}`,
+      ...(requestBody !== undefined ? { body: requestBody } : {}),
+    },
+    response: {
+      status: res.status,
+      contentType: res.headers.get('content-type'),
+      body: await res.clone().text(),
+    },
+    recordedAt: new Date().toISOString(),
+  };
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, exact), JSON.stringify(fixture, null, 2) + '\n');
+}
@@ -0,0 +1,164 @@
+// Shared fetch wrapper for every upstream API. Each host gets a timeout, a cap
+// on concurrent requests and an optional minimum spacing between request
+// starts; failed requests are retried with jittered exponential backoff,
+// waiting out Retry-After when the server sends one. Every attempt is
+// recorded against its provider for /api/status. With MOCK_PROVIDERS set,
+// responses come from (or are recorded to) fixtures; see fixtures.ts.
+
+import { providerForHost, recordResponse, recordError } from './providerHealth.ts';
+import { mockMode, replayFixture, recordFixture } from './fixtures.ts';
+
+export interface HostPolicy {
+  timeout: number;       // ms per attempt
+  retries: number;       // extra attempts after the first
+  concurrency: number;   // requests in flight at once
+  minInterval: number;   // ms between request starts
+}
+
+const DEFAULT_POLICY: HostPolicy = { timeout: 10_000, retries: 2, concurrency: 8, minInterval: 0 };
+
+const HOST_POLICIES: Record<string, Partial<HostPolicy>> = {
+  // MusicBrainz blocks clients that exceed one request per second
+  'musicbrainz.org': { concurrency: 1, minInterval: 1000, timeout: 15_000 },
+  // Last.fm asks for no more than five requests per second
+  'ws.audioscrobbler.com': { minInterval: 200, timeout: 8000 },
+  // IGDB allows four requests per second
+  'api.igdb.com': { concurrency: 4, minInterval: 250 },
+  'store.steampowered.com': { concurrency: 6, timeout: 5000, retries: 1 },
+  'api.themoviedb.org': { concurrency: 20 },
+  'itunes.apple.com': { concurrency: 4, timeout: 8000 },
+};
+
+// Longer Retry-After waits than this are treated as a failure
+const MAX_RETRY_AFTER = 30_000;
+const BACKOFF_BASE = 500;
+
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface HttpRequestInit extends RequestInit {
+  timeout?: number;
+  retries?: number;
+  // Whether a request that may have reached the server can be sent again.
+  // Defaults to true for GET and HEAD; 429s are always retried.
+  idempotent?: boolean;
+  // Name to report health under when one host serves several providers
+  provider?: string;
+}
+
+function hostPolicy(host: string): HostPolicy {
+  return { ...DEFAULT_POLICY, ...HOST_POLICIES[host] };
+}
+
+// Overrides a host's limits, e.g. for a local server in tests
+export function setHostPolicy(host: string, policy: Partial<HostPolicy>): void {
+  HOST_POLICIES[host] = { ...HOST_POLICIES[host], ...policy };
+}
+
+// --- Per-host slots ---
+
+interface HostState {
+  active: number;
+  waiting: (() => void)[];
+  nextStart: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function acquire(host: string, policy: HostPolicy): Promise<HostState> {
+  let state = hosts.get(host);
+  if (!state) {
+    state = { active: 0, waiting: [], nextStart: 0 };
+    hosts.set(host, state);
+  }
+  if (state.active >= policy.concurrency) {
+    // release() hands its slot straight to the next waiter
+    await new Promise<void>((resolve) => state.waiting.push(resolve));
+  } else {
+    state.active++;
+  }
+  const now = Date.now();
+  const startAt = Math.max(now, state.nextStart);
+  state.nextStart = startAt + policy.minInterval;
+  if (startAt > now) await sleep(startAt - now);
+  return state;
+}
+
+function release(state: HostState): void {
+  const next = state.waiting.shift();
+  if (next) next();
+  else state.active--;
+}
+
+// --- Retries ---
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(res: Response): number | null {
+  const header = res.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// "Full jitter": a random wait up to the exponential cap
+function backoffMs(attempt: number): number {
+  return Math.random() * BACKOFF_BASE * 2 ** attempt;
+}
+
+export async function httpFetch(input: string | URL, init: HttpRequestInit = {}): Promise<Response> {
+  const { timeout, retries, idempotent, provider, ...requestInit } = init;
+  const url = new URL(input);
+  const policy = hostPolicy(url.hostname);
+  const providerName = provider ?? providerForHost(url.hostname);
+  const maxRetries = retries ?? policy.retries;
+  const method = (requestInit.method ?? 'GET').toUpperCase();
+  const canResend = idempotent ?? (method === 'GET' || method === 'HEAD');
+
+  if (mockMode === 'replay') {
+    try {
+      const res = replayFixture(url, method, requestInit.body);
+      recordResponse(providerName, res, 0);
+      return res;
+    } catch (err) {
+      recordError(providerName, err, 0);
+      throw err;
+    }
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const state = await acquire(url.hostname, policy);
+    // The timeout covers the request itself, not the wait for a slot
+    const signal = requestInit.signal
+      ? AbortSignal.any([requestInit.signal, AbortSignal.timeout(timeout ?? policy.timeout)])
+      : AbortSignal.timeout(timeout ?? policy.timeout);
+    const startedAt = Date.now();
+    let res: Response;
+    try {
+      res = await fetch(url, { ...requestInit, signal });
+    } catch (err) {
+      release(state);
+      recordError(providerName, err, Date.now() - startedAt);
+      // A caller's own abort is final; timeouts and network errors are not
+      if (requestInit.signal?.aborted || !canResend || attempt >= maxRetries) throw err;
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+    release(state);
+    recordResponse(providerName, res, Date.now() - startedAt);
+
+    const retryable = res.status === 429 || (canResend && RETRY_STATUSES.has(res.status));
+    const wait = retryable && attempt < maxRetries ? retryAfterMs(res) ?? backoffMs(attempt) : null;
+    if (wait === null || wait > MAX_RETRY_AFTER) {
+      // Outages and rate limits aren't worth replaying
+      if (mockMode === 'record' && res.status < 500 && res.status !== 429) {
+        await recordFixture(url, method, requestInit.body, res);
+      }
+      return res;
+    }
+    await res.body?.cancel();
+    await sleep(wait);
+  }
+}
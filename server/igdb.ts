@@ -1,4 +1,8 @@
-import type { IGDBGame, GameRelease } from './types.ts';
+import type { IGDBGame, GameRelease, CalendarEntry } from './types.ts';
+import { apiCache } from './cache.ts';
+import { httpFetch } from './http.ts';
+
+const CALENDAR_CACHE = { ttl: 6 * 60 * 60 * 1000, staleWhileRevalidate: 24 * 60 * 60 * 1000 };
 
 export interface GameSearchResult {
   id: number;
@@ -17,8 +21,9 @@ async function getTwitchToken(clientId: string, clientSecret: string): Promise<s
     return cachedToken;
   }
 
-  const res = await fetch('https://id.twitch.tv/oauth2/token', {
+  const res = await httpFetch('https://id.twitch.tv/oauth2/token', {
     method: 'POST',
+    idempotent: true,
     headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
     body: new URLSearchParams({
       client_id: clientId,
@@ -37,17 +42,13 @@ async function getTwitchToken(clientId: string, clientSecret: string): Promise<s
   return cachedToken;
 }
 
-export async function searchGames(clientId: string, clientSecret: string, query: string): Promise<GameSearchResult[]> {
+async function queryGames(clientId: string, clientSecret: string, body: string, label: string): Promise<IGDBGame[]> {
   const token = await getTwitchToken(clientId, clientSecret);
 
-  const body = [
-    'fields name,cover.url,first_release_date,platforms.name;',
-    `search "${query}";`,
-    'limit 10;',
-  ].join('\n');
-
-  const res = await fetch('https://api.igdb.com/v4/games', {
+  // IGDB queries are POSTs but only read data, so they are safe to resend
+  const res = await httpFetch('https://api.igdb.com/v4/games', {
     method: 'POST',
+    idempotent: true,
     headers: {
       'Client-ID': clientId,
       'Authorization': `Bearer ${token}`,
@@ -58,68 +59,67 @@ export async function searchGames(clientId: string, clientSecret: string, query:
   });
 
   if (!res.ok) {
-    throw new Error(`IGDB search failed: ${res.status} ${await res.text()}`);
+    throw new Error(`${label} failed: ${res.status} ${await res.text()}`);
   }
 
-  const games = (await res.json()) as IGDBGame[];
+  return (await res.json()) as IGDBGame[];
+}
 
-  return games.map((game) => {
-    let coverUrl: string | null = null;
-    if (game.cover?.url) {
-      coverUrl = `https:${game.cover.url.replace('t_thumb', 't_cover_big')}`;
-    }
-    const platforms = game.platforms?.map((p) => p.name).join(', ') ?? '';
-    const releaseDate = game.first_release_date
-      ? new Date(game.first_release_date * 1000).toISOString().slice(0, 10)
-      : '';
+function coverUrlFor(game: IGDBGame): string | null {
+  return game.cover?.url ? `https:${game.cover.url.replace('t_thumb', 't_cover_big')}` : null;
+}
 
-    return {
-      id: game.id,
-      title: game.name,
-      subtitle: platforms,
-      imageUrl: coverUrl,
-      releaseDate,
-    };
-  });
+// IGDB stores release dates as unix seconds at midnight UTC of the release day
+function releaseDateFor(game: IGDBGame): string {
+  return game.first_release_date
+    ? new Date(game.first_release_date * 1000).toISOString().slice(0, 10)
+    : '';
 }
 
-export async function fetchTodayReleases(clientId: string, clientSecret: string): Promise<GameRelease[]> {
-  const token = await getTwitchToken(clientId, clientSecret);
+export async function searchGames(clientId: string, clientSecret: string, query: string): Promise<GameSearchResult[]> {
+  const body = [
+    'fields name,cover.url,first_release_date,platforms.name;',
+    `search "${query}";`,
+    'limit 10;',
+  ].join('\n');
 
-  const now = new Date();
-  const startOfDay = Math.floor(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).getTime() / 1000);
-  const endOfDay = startOfDay + 86400;
+  const games = await queryGames(clientId, clientSecret, body, 'IGDB search');
+
+  return games.map((game) => ({
+    id: game.id,
+    title: game.name,
+    subtitle: game.platforms?.map((p) => p.name).join(', ') ?? '',
+    imageUrl: coverUrlFor(game),
+    releaseDate: releaseDateFor(game),
+  }));
+}
+
+// Unix-second bounds covering calendar dates `from` through `to` inclusive.
+// Release dates are calendar dates, so a user's local "today" maps straight
+// onto the same UTC day rather than being shifted by their offset.
+function dateBounds(from: string, to: string): { start: number; end: number } {
+  return {
+    start: Date.parse(`${from}T00:00:00Z`) / 1000,
+    end: Date.parse(`${to}T00:00:00Z`) / 1000 + 86400,
+  };
+}
+
+// The 50 most-hyped releases per day in the range, up to IGDB's 500 per query
+export async function fetchGameReleases(clientId: string, clientSecret: string, from: string, to: string): Promise<GameRelease[]> {
+  const { start, end } = dateBounds(from, to);
+  const limit = Math.min(50 * Math.round((end - start) / 86400), 500);
 
   const body = [
-    'fields name,cover.url,platforms.name,external_games.category,external_games.uid,websites.url,websites.category,hypes,follows;',
-    `where first_release_date >= ${startOfDay} & first_release_date < ${endOfDay};`,
+    'fields name,cover.url,platforms.name,first_release_date,external_games.category,external_games.uid,websites.url,websites.category,hypes,follows;',
+    `where first_release_date >= ${start} & first_release_date < ${end};`,
     'sort hypes desc;',
-    'limit 50;',
+    `limit ${limit};`,
   ].join('\n');
 
-  const res = await fetch('https://api.igdb.com/v4/games', {
-    method: 'POST',
-    headers: {
-      'Client-ID': clientId,
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'text/plain',
-      'Accept': 'application/json',
-    },
-    body,
-  });
-
-  if (!res.ok) {
-    throw new Error(`IGDB API failed: ${res.status} ${await res.text()}`);
-  }
-
-  const games = (await res.json()) as IGDBGame[];
+  const games = await queryGames(clientId, clientSecret, body, 'IGDB API');
 
   return games.map((game) => {
     const steamExternal = game.external_games?.find((eg) => eg.category === 1);
-    let coverUrl: string | null = null;
-    if (game.cover?.url) {
-      coverUrl = `https:${game.cover.url.replace('t_thumb', 't_cover_big')}`;
-    }
 
     // Prefer official website (category 1), then any available website
     const officialSite = game.websites?.find((w) => w.category === 1);
@@ -128,12 +128,43 @@ export async function fetchTodayReleases(clientId: string, clientSecret: string)
     return {
       id: game.id,
       name: game.name,
-      coverUrl,
+      coverUrl: coverUrlFor(game),
       platforms: game.platforms?.map((p) => p.name) ?? [],
       steamAppId: steamExternal?.uid ?? null,
       websiteUrl,
       hypes: game.hypes ?? 0,
       follows: game.follows ?? 0,
+      releaseDate: releaseDateFor(game),
     };
   });
 }
+
+// Most-hyped games releasing between two calendar dates (inclusive), for the
+// release calendar. IGDB caps a single query at 500 results.
+export function fetchGameCalendar(clientId: string, clientSecret: string, from: string, to: string): Promise<CalendarEntry[]> {
+  return apiCache.getOrLoad(`igdb:calendar:${from}:${to}`, CALENDAR_CACHE, () => loadGameCalendar(clientId, clientSecret, from, to));
+}
+
+async function loadGameCalendar(clientId: string, clientSecret: string, from: string, to: string): Promise<CalendarEntry[]> {
+  const { start, end } = dateBounds(from, to);
+
+  const body = [
+    'fields name,url,cover.url,platforms.name,first_release_date,hypes,follows;',
+    `where first_release_date >= ${start} & first_release_date < ${end};`,
+    'sort hypes desc;',
+    'limit 500;',
+  ].join('\n');
+
+  const games = await queryGames(clientId, clientSecret, body, 'IGDB calendar');
+
+  return games.map((game) => ({
+    id: String(game.id),
+    category: 'game',
+    title: game.name,
+    subtitle: game.platforms?.map((p) => p.name).join(', ') ?? '',
+    imageUrl: coverUrlFor(game),
+    date: releaseDateFor(game),
+    url: game.url ?? null,
+    popularity: (game.hypes ?? 0) + (game.follows ?? 0),
+  }));
+}
@@ -0,0 +1,92 @@
+import type { ImportCandidate, ImportEntry, ImportMatch, WatchedCategory } from './types.ts';
+
+// Finds the watched item each imported title is, by searching the same
+// providers the tracker adds items from
+
+export type ImportSearchers = Partial<Record<WatchedCategory, (query: string) => Promise<ImportCandidate[]>>>;
+
+// Each title is one search, so one import is capped
+export const MAX_IMPORT_ENTRIES = 300;
+
+// Candidates offered for the user to pick from
+const MAX_CANDIDATES = 5;
+
+// Searches in flight at once. httpFetch also spaces out each provider's
+// calls, but hundreds queued there at once would wait past their callers.
+const SEARCH_WORKERS = 4;
+
+// Folds case, accents, punctuation and a leading article so "The Thing" and
+// "thing" compare equal
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+function searchQuery(entry: ImportEntry): string {
+  return entry.category === 'book' && entry.creator ? `${entry.title} ${entry.creator}` : entry.title;
+}
+
+// One candidate that is clearly the entry: the provider id the export gave,
+// or else the only one whose title, year and creator all agree
+function pick(entry: ImportEntry, candidates: ImportCandidate[]): { confident: boolean; index: number | null } {
+  if (entry.externalId) {
+    const index = candidates.findIndex((c) => c.id === entry.externalId);
+    if (index >= 0) return { confident: true, index };
+  }
+
+  const title = normalizeTitle(entry.title);
+  const creator = entry.creator ? normalizeTitle(entry.creator) : null;
+  const sameTitle = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .filter(({ candidate }) => normalizeTitle(candidate.title) === title);
+  const agreeing = sameTitle.filter(({ candidate }) =>
+    (!entry.year || !candidate.year || candidate.year === entry.year) &&
+    (!creator || normalizeTitle(candidate.subtitle) === creator));
+
+  if (agreeing.length === 1) return { confident: true, index: agreeing[0]!.index };
+  return { confident: false, index: (agreeing[0] ?? sameTitle[0])?.index ?? null };
+}
+
+export async function matchEntry(entry: ImportEntry, search: (query: string) => Promise<ImportCandidate[]>): Promise<ImportMatch> {
+  let found: ImportCandidate[];
+  try {
+    found = await search(searchQuery(entry));
+  } catch (err) {
+    console.error(`Import search failed for "${entry.title}":`, err instanceof Error ? err.message : String(err));
+    return { entry, match: 'error', candidates: [], suggested: null };
+  }
+
+  const { confident, index } = pick(entry, found);
+  // Keep the pick in the list when it ranked below the cut
+  const candidates = found.slice(0, MAX_CANDIDATES);
+  let suggested = index;
+  if (index !== null && index >= MAX_CANDIDATES) {
+    candidates[MAX_CANDIDATES - 1] = found[index]!;
+    suggested = MAX_CANDIDATES - 1;
+  }
+
+  if (candidates.length === 0) return { entry, match: 'unmatched', candidates, suggested: null };
+  return { entry, match: confident ? 'matched' : 'ambiguous', candidates, suggested };
+}
+
+// A few searches run side by side; results keep the order of the entries
+export async function matchEntries(entries: ImportEntry[], searchers: ImportSearchers): Promise<ImportMatch[]> {
+  const matches: ImportMatch[] = new Array(entries.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      const entry = entries[index]!;
+      const search = searchers[entry.category];
+      matches[index] = search ? await matchEntry(entry, search) : { entry, match: 'unmatched', candidates: [], suggested: null };
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(SEARCH_WORKERS, entries.length) }, worker));
+  return matches;
+}
@@ -0,0 +1,276 @@
+import { isISODate } from './dates.ts';
+import type { ImportEntry, ImportSource, WatchedCategory } from './types.ts';
+
+// Reads the history exports of other trackers into ImportEntry lists, one
+// entry per title with every viewing the export recorded. Rows without a
+// title, or in a shape we don't know, are skipped rather than failing the
+// whole file.
+
+export type ParseResult = { entries: ImportEntry[] } | { error: string };
+
+// RFC 4180: quoted fields may hold commas, newlines and "" for a quote
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// Rows as objects keyed by the header row
+function csvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const names = header.map((name) => name.trim());
+  return rows.map((row) => Object.fromEntries(names.map((name, i) => [name, (row[i] ?? '').trim()])));
+}
+
+function isoDateOrNull(value: string | undefined): string | null {
+  const date = value?.trim().slice(0, 10).replace(/\//g, '-');
+  return date && isISODate(date) ? date : null;
+}
+
+function halfStars(value: number): number | null {
+  if (!Number.isFinite(value) || value <= 0) return null;
+  return Math.min(5, Math.max(0.5, Math.round(value * 2) / 2));
+}
+
+// Merges rows that are the same title: viewings add up, and the last row's
+// rating and review win
+function collect(rows: ImportEntry[]): ImportEntry[] {
+  const byKey = new Map<string, ImportEntry>();
+  for (const row of rows) {
+    const key = [row.category, row.externalId ?? '', row.title.toLowerCase(), row.year ?? '', (row.creator ?? '').toLowerCase()].join('\u0000');
+    const entry = byKey.get(key);
+    if (!entry) {
+      byKey.set(key, { ...row, viewings: [...row.viewings] });
+      continue;
+    }
+    for (const viewing of row.viewings) {
+      if (!entry.viewings.some((v) => v.date === viewing.date)) entry.viewings.push(viewing);
+    }
+    entry.rating = row.rating ?? entry.rating;
+    entry.review = row.review ?? entry.review;
+    if (row.status === 'done') entry.status = 'done';
+  }
+  for (const entry of byKey.values()) entry.viewings.sort((a, b) => a.date.localeCompare(b.date));
+  return [...byKey.values()];
+}
+
+function newEntry(category: WatchedCategory, title: string, fields: Partial<ImportEntry> = {}): ImportEntry {
+  return {
+    category,
+    title,
+    year: null,
+    creator: null,
+    externalId: null,
+    status: 'done',
+    rating: null,
+    review: null,
+    viewings: [],
+    ...fields,
+  };
+}
+
+// --- Letterboxd: diary.csv, watched.csv, ratings.csv or reviews.csv ---
+
+function parseLetterboxd(text: string): ParseResult {
+  const records = csvRecords(text);
+  if (records.length > 0 && !('Name' in records[0]!)) return { error: 'Expected a Letterboxd CSV with a Name column' };
+
+  return {
+    entries: collect(records.filter((r) => r['Name']).map((r) => {
+      const date = isoDateOrNull(r['Watched Date']) ?? isoDateOrNull(r['Date']);
+      return newEntry('movie', r['Name']!, {
+        year: r['Year'] || null,
+        rating: halfStars(Number(r['Rating'])),
+        review: r['Review'] || null,
+        viewings: date ? [{ date, rewatch: r['Rewatch'] === 'Yes' }] : [],
+      });
+    })),
+  };
+}
+
+// --- Goodreads: goodreads_library_export.csv ---
+
+function parseGoodreads(text: string): ParseResult {
+  const records = csvRecords(text);
+  if (records.length > 0 && !('Exclusive Shelf' in records[0]!)) return { error: 'Expected a Goodreads library export' };
+
+  const rows = records
+    .filter((r) => r['Title'] && (r['Exclusive Shelf'] === 'read' || r['Exclusive Shelf'] === 'to-read'))
+    .map((r) => {
+      const read = r['Exclusive Shelf'] === 'read';
+      const date = isoDateOrNull(r['Date Read']) ?? isoDateOrNull(r['Date Added']);
+      const viewings = read && date ? [{ date, rewatch: false }] : [];
+      return newEntry('book', r['Title']!.replace(/\s*\([^()]*#[^()]*\)\s*$/, ''), {
+        year: r['Original Publication Year'] || r['Year Published'] || null,
+        creator: r['Author'] || null,
+        status: read ? 'done' : 'want_to',
+        rating: read ? halfStars(Number(r['My Rating'])) : null,
+        review: r['My Review']?.replace(/<br\s*\/?>/gi, '\n') || null,
+        viewings,
+      });
+    });
+  return { entries: collect(rows) };
+}
+
+// --- Trakt: watched-history.json, watched-movies.json, watched-shows.json, ratings-*.json ---
+
+interface TraktMedia {
+  title?: string;
+  year?: number | null;
+  ids?: { tmdb?: number | null };
+}
+
+interface TraktRecord {
+  type?: string;
+  watched_at?: string;
+  last_watched_at?: string;
+  rated_at?: string;
+  rating?: number;
+  movie?: TraktMedia;
+  show?: TraktMedia;
+}
+
+function parseTrakt(text: string): ParseResult {
+  let records: unknown;
+  try {
+    records = JSON.parse(text);
+  } catch {
+    return { error: 'Expected a Trakt JSON export' };
+  }
+  if (!Array.isArray(records)) return { error: 'Expected a Trakt JSON export (an array of history or ratings)' };
+
+  const rows: ImportEntry[] = [];
+  for (const record of records as TraktRecord[]) {
+    // Episodes count as viewings of their show
+    const media = record.movie ?? record.show;
+    if (!media?.title) continue;
+    const category: WatchedCategory = record.movie ? 'movie' : 'tv';
+    const date = isoDateOrNull(record.watched_at ?? record.last_watched_at);
+    rows.push(newEntry(category, media.title, {
+      year: media.year ? String(media.year) : null,
+      externalId: media.ids?.tmdb ? String(media.ids.tmdb) : null,
+      // Trakt rates out of ten
+      rating: record.rating !== undefined ? halfStars(record.rating / 2) : null,
+      viewings: date ? [{ date, rewatch: false }] : [],
+    }));
+  }
+  return { entries: markRewatches(collect(rows)) };
+}
+
+// --- Last.fm: scrobbles as CSV (artist, album, track, date) or the API's JSON ---
+
+interface LastfmScrobble {
+  artist?: { '#text'?: string; name?: string } | string;
+  album?: { '#text'?: string } | string;
+  date?: { uts?: string; '#text'?: string } | string;
+}
+
+function scrobbleDate(value: string | undefined): string | null {
+  if (!value) return null;
+  // Unix seconds, or "31 Jan 2021 12:34" as the export tools write it
+  const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(`${value} UTC`);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+function scrobbleRows(text: string): { artist: string; album: string; date: string | null }[] | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+    // Either a bare list or pages of { recenttracks: { track: [...] } }
+    const pages = Array.isArray(parsed) ? parsed : [parsed];
+    const tracks = pages.flatMap((page: unknown) => {
+      const inPage = (page as { recenttracks?: { track?: LastfmScrobble[] } })?.recenttracks?.track;
+      return inPage ?? [page as LastfmScrobble];
+    });
+    const name = (value: { '#text'?: string; name?: string } | string | undefined) =>
+      typeof value === 'string' ? value : value?.['#text'] ?? value?.name ?? '';
+    return tracks.map((track) => ({
+      artist: name(track.artist),
+      album: name(track.album),
+      date: scrobbleDate(typeof track.date === 'string' ? track.date : track.date?.uts ?? track.date?.['#text']),
+    }));
+  }
+
+  const rows = parseCsv(text);
+  const header = rows[0]?.map((name) => name.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes('artist') && header.includes('album');
+  const column = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback);
+  const [artist, album] = [column('artist', 0), column('album', 1)];
+  const date = hasHeader ? Math.max(header.indexOf('date'), header.indexOf('uts'), header.indexOf('utc_time')) : 3;
+  return (hasHeader ? rows.slice(1) : rows).map((row) => ({
+    artist: row[artist]?.trim() ?? '',
+    album: row[album]?.trim() ?? '',
+    date: scrobbleDate(row[date]?.trim()),
+  }));
+}
+
+// Albums with one viewing per day they were played
+function parseLastfm(text: string): ParseResult {
+  const scrobbles = scrobbleRows(text);
+  if (!scrobbles) return { error: 'Expected Last.fm scrobbles as CSV or JSON' };
+
+  const rows = scrobbles
+    .filter((s) => s.artist && s.album)
+    .map((s) => newEntry('album', s.album, {
+      creator: s.artist,
+      viewings: s.date ? [{ date: s.date, rewatch: false }] : [],
+    }));
+  return { entries: markRewatches(collect(rows)) };
+}
+
+// For exports that don't say, every viewing after the first is a rewatch
+function markRewatches(entries: ImportEntry[]): ImportEntry[] {
+  for (const e of entries) e.viewings = e.viewings.map((v, i) => ({ ...v, rewatch: i > 0 }));
+  return entries;
+}
+
+const PARSERS: Record<ImportSource, (text: string) => ParseResult> = {
+  letterboxd: parseLetterboxd,
+  goodreads: parseGoodreads,
+  trakt: parseTrakt,
+  lastfm: parseLastfm,
+};
+
+export function parseExport(source: ImportSource, text: string): ParseResult {
+  return PARSERS[source](text);
+}
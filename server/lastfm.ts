@@ -1,71 +1,42 @@
-import type { AlbumRelease, ChartTrack, ChartAlbum, ChartArtist, TopChartsResponse } from './types.ts';
+import type { AlbumRelease, ChartTrack, ChartAlbum, ChartArtist, FeedIssue, TopChartsResponse } from './types.ts';
+import { apiCache } from './cache.ts';
+import { httpFetch } from './http.ts';
 
 interface ArtistInfo {
   listeners: number | null;
   genre: string | null;
 }
 
-const cache = new Map<string, ArtistInfo>();
-const requestTimestamps: number[] = [];
+// Listener counts drift slowly, so artist info can be kept for days
+const ARTIST_INFO_CACHE = { ttl: 3 * 24 * 60 * 60 * 1000, staleWhileRevalidate: 7 * 24 * 60 * 60 * 1000 };
 
-async function rateLimit(): Promise<void> {
-  const now = Date.now();
-  while (requestTimestamps.length > 0 && requestTimestamps[0]! < now - 1000) {
-    requestTimestamps.shift();
-  }
-  if (requestTimestamps.length >= 5) {
-    const oldest = requestTimestamps[0]!;
-    const waitMs = oldest + 1000 - now;
-    await new Promise((resolve) => setTimeout(resolve, waitMs));
-  }
-  requestTimestamps.push(Date.now());
+// Failed requests reject (and aren't cached) so callers can count them
+function fetchArtistInfo(apiKey: string, artist: string): Promise<ArtistInfo> {
+  return apiCache.getOrLoad(`lastfm:artist:${artist.toLowerCase()}`, ARTIST_INFO_CACHE, () => loadArtistInfo(apiKey, artist));
 }
 
-async function fetchArtistInfo(apiKey: string, artist: string): Promise<ArtistInfo> {
-  const cacheKey = artist.toLowerCase();
-  if (cache.has(cacheKey)) {
-    return cache.get(cacheKey)!;
-  }
-
-  const nullResult: ArtistInfo = { listeners: null, genre: null };
-
-  try {
-    await rateLimit();
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
-
-    const res = await fetch(
-      `http://ws.audioscrobbler.com/2.0/?method=artist.getinfo&api_key=${apiKey}&artist=${encodeURIComponent(artist)}&format=json`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
+async function loadArtistInfo(apiKey: string, artist: string): Promise<ArtistInfo> {
+  const res = await httpFetch(
+    `http://ws.audioscrobbler.com/2.0/?method=artist.getinfo&api_key=${apiKey}&artist=${encodeURIComponent(artist)}&format=json`,
+    { timeout: 5000 },
+  );
 
-    if (!res.ok) {
-      cache.set(cacheKey, nullResult);
-      return nullResult;
-    }
+  if (!res.ok) throw new Error(`Last.fm artist.getinfo failed: ${res.status}`);
 
-    const data = (await res.json()) as {
-      artist?: {
-        stats?: { listeners?: string };
-        tags?: { tag?: Array<{ name?: string }> };
-      };
+  const data = (await res.json()) as {
+    artist?: {
+      stats?: { listeners?: string };
+      tags?: { tag?: Array<{ name?: string }> };
     };
+  };
 
-    const listeners = data.artist?.stats?.listeners;
-    const count = listeners ? parseInt(listeners, 10) : null;
-    const listenersResult = count !== null && !isNaN(count) ? count : null;
+  const listeners = data.artist?.stats?.listeners;
+  const count = listeners ? parseInt(listeners, 10) : null;
+  const listenersResult = count !== null && !isNaN(count) ? count : null;
 
-    const topTag = data.artist?.tags?.tag?.[0]?.name ?? null;
+  const topTag = data.artist?.tags?.tag?.[0]?.name ?? null;
 
-    const result: ArtistInfo = { listeners: listenersResult, genre: topTag };
-    cache.set(cacheKey, result);
-    return result;
-  } catch {
-    cache.set(cacheKey, nullResult);
-    return nullResult;
-  }
+  return { listeners: listenersResult, genre: topTag };
 }
 
 // --- iTunes artwork lookup ---
@@ -77,7 +48,7 @@ interface ITunesResult {
 
 async function fetchITunesArtwork(query: string): Promise<string | null> {
   try {
-    const res = await fetch(
+    const res = await httpFetch(
       `https://itunes.apple.com/search?term=${encodeURIComponent(query)}&entity=song&limit=1`,
     );
     if (!res.ok) return null;
@@ -99,7 +70,7 @@ async function fetchITunesAlbumInfo(artist: string, album: string): Promise<{ ar
   ];
   for (const query of queries) {
     try {
-      const res = await fetch(
+      const res = await httpFetch(
         `https://itunes.apple.com/search?term=${encodeURIComponent(query)}&entity=album&limit=1`,
       );
       if (!res.ok) continue;
@@ -118,127 +89,97 @@ async function fetchITunesAlbumInfo(artist: string, album: string): Promise<{ ar
 
 // --- Top Charts ---
 
-let chartsCache: { data: TopChartsResponse; timestamp: number } | null = null;
-const CHARTS_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
-
 async function fetchTopTracks(apiKey: string, limit = 20): Promise<ChartTrack[]> {
-  await rateLimit();
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 8000);
-  try {
-    const res = await fetch(
-      `http://ws.audioscrobbler.com/2.0/?method=chart.gettoptracks&api_key=${apiKey}&limit=${limit}&format=json`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
-    if (!res.ok) return [];
-    const data = (await res.json()) as {
-      tracks?: {
-        track?: Array<{
-          name?: string;
-          artist?: { name?: string };
-          playcount?: string;
-          listeners?: string;
-          url?: string;
-          image?: Array<{ '#text'?: string; size?: string }>;
-        }>;
-      };
+  const res = await httpFetch(`http://ws.audioscrobbler.com/2.0/?method=chart.gettoptracks&api_key=${apiKey}&limit=${limit}&format=json`);
+  if (!res.ok) throw new Error(`Last.fm chart.gettoptracks failed: ${res.status}`);
+  const data = (await res.json()) as {
+    tracks?: {
+      track?: Array<{
+        name?: string;
+        artist?: { name?: string };
+        playcount?: string;
+        listeners?: string;
+        url?: string;
+        image?: Array<{ '#text'?: string; size?: string }>;
+      }>;
     };
-    return (data.tracks?.track ?? []).map((t) => ({
-      name: t.name ?? '',
-      artist: t.artist?.name ?? '',
-      playcount: parseInt(t.playcount ?? '0', 10) || 0,
-      listeners: parseInt(t.listeners ?? '0', 10) || 0,
-      url: t.url ?? '',
-      imageUrl: t.image?.find((i) => i.size === 'medium')?.['#text'] || null,
-    }));
-  } catch {
-    clearTimeout(timeout);
-    return [];
-  }
+  };
+  return (data.tracks?.track ?? []).map((t) => ({
+    name: t.name ?? '',
+    artist: t.artist?.name ?? '',
+    playcount: parseInt(t.playcount ?? '0', 10) || 0,
+    listeners: parseInt(t.listeners ?? '0', 10) || 0,
+    url: t.url ?? '',
+    imageUrl: t.image?.find((i) => i.size === 'medium')?.['#text'] || null,
+  }));
 }
 
 async function fetchTopAlbumsForTag(apiKey: string, tag: string, limit = 10): Promise<ChartAlbum[]> {
-  await rateLimit();
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 8000);
-  try {
-    const res = await fetch(
-      `http://ws.audioscrobbler.com/2.0/?method=tag.gettopalbums&tag=${encodeURIComponent(tag)}&api_key=${apiKey}&limit=${limit}&format=json`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
-    if (!res.ok) return [];
-    const data = (await res.json()) as {
-      albums?: {
-        album?: Array<{
-          name?: string;
-          artist?: { name?: string };
-          url?: string;
-          image?: Array<{ '#text'?: string; size?: string }>;
-        }>;
-      };
+  const res = await httpFetch(`http://ws.audioscrobbler.com/2.0/?method=tag.gettopalbums&tag=${encodeURIComponent(tag)}&api_key=${apiKey}&limit=${limit}&format=json`);
+  if (!res.ok) throw new Error(`Last.fm tag.gettopalbums failed: ${res.status}`);
+  const data = (await res.json()) as {
+    albums?: {
+      album?: Array<{
+        name?: string;
+        artist?: { name?: string };
+        url?: string;
+        image?: Array<{ '#text'?: string; size?: string }>;
+      }>;
     };
-    return (data.albums?.album ?? []).map((a) => ({
-      name: a.name ?? '',
-      artist: a.artist?.name ?? '',
-      url: a.url ?? '',
-      imageUrl: a.image?.find((i) => i.size === 'extralarge')?.['#text'] || a.image?.find((i) => i.size === 'large')?.['#text'] || null,
-      genre: tag,
-      releaseDate: null,
-    }));
-  } catch {
-    clearTimeout(timeout);
-    return [];
-  }
+  };
+  return (data.albums?.album ?? []).map((a) => ({
+    name: a.name ?? '',
+    artist: a.artist?.name ?? '',
+    url: a.url ?? '',
+    imageUrl: a.image?.find((i) => i.size === 'extralarge')?.['#text'] || a.image?.find((i) => i.size === 'large')?.['#text'] || null,
+    genre: tag,
+    releaseDate: null,
+  }));
 }
 
 async function fetchTopArtists(apiKey: string, limit = 20): Promise<ChartArtist[]> {
-  await rateLimit();
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 8000);
-  try {
-    const res = await fetch(
-      `http://ws.audioscrobbler.com/2.0/?method=chart.gettopartists&api_key=${apiKey}&limit=${limit}&format=json`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
-    if (!res.ok) return [];
-    const data = (await res.json()) as {
-      artists?: {
-        artist?: Array<{
-          name?: string;
-          playcount?: string;
-          listeners?: string;
-          url?: string;
-          image?: Array<{ '#text'?: string; size?: string }>;
-        }>;
-      };
+  const res = await httpFetch(`http://ws.audioscrobbler.com/2.0/?method=chart.gettopartists&api_key=${apiKey}&limit=${limit}&format=json`);
+  if (!res.ok) throw new Error(`Last.fm chart.gettopartists failed: ${res.status}`);
+  const data = (await res.json()) as {
+    artists?: {
+      artist?: Array<{
+        name?: string;
+        playcount?: string;
+        listeners?: string;
+        url?: string;
+        image?: Array<{ '#text'?: string; size?: string }>;
+      }>;
     };
-    return (data.artists?.artist ?? []).map((a) => ({
-      name: a.name ?? '',
-      playcount: parseInt(a.playcount ?? '0', 10) || 0,
-      listeners: parseInt(a.listeners ?? '0', 10) || 0,
-      url: a.url ?? '',
-      imageUrl: a.image?.find((i) => i.size === 'medium')?.['#text'] || null,
-    }));
-  } catch {
-    clearTimeout(timeout);
-    return [];
-  }
+  };
+  return (data.artists?.artist ?? []).map((a) => ({
+    name: a.name ?? '',
+    playcount: parseInt(a.playcount ?? '0', 10) || 0,
+    listeners: parseInt(a.listeners ?? '0', 10) || 0,
+    url: a.url ?? '',
+    imageUrl: a.image?.find((i) => i.size === 'medium')?.['#text'] || null,
+  }));
 }
 
+// Not cached: the charts feed snapshot is its cache
 export async function fetchTopCharts(apiKey: string): Promise<TopChartsResponse> {
-  if (chartsCache && Date.now() - chartsCache.timestamp < CHARTS_CACHE_TTL) {
-    return chartsCache.data;
-  }
-
   const genres = ['rock', 'electronic', 'hip-hop', 'metal', 'pop', 'indie', 'punk', 'jazz'];
 
+  // A chart that fails to load is left empty and named in the issues
+  const failed: string[] = [];
+  const orEmpty = async <T>(what: string, load: Promise<T[]>): Promise<T[]> => {
+    try {
+      return await load;
+    } catch (err) {
+      console.error(`Couldn't load ${what}:`, err instanceof Error ? err.message : err);
+      failed.push(what);
+      return [];
+    }
+  };
+
   const [topTracks, topArtists, ...genreResults] = await Promise.all([
-    fetchTopTracks(apiKey),
-    fetchTopArtists(apiKey),
-    ...genres.map((g) => fetchTopAlbumsForTag(apiKey, g)),
+    orEmpty('top tracks', fetchTopTracks(apiKey)),
+    orEmpty('top artists', fetchTopArtists(apiKey)),
+    ...genres.map((g) => orEmpty(`${g} albums`, fetchTopAlbumsForTag(apiKey, g))),
   ]);
 
   const topAlbumsByGenre: Record<string, ChartAlbum[]> = {};
@@ -300,9 +241,10 @@ export async function fetchTopCharts(apiKey: string): Promise<TopChartsResponse>
 
   await Promise.allSettled(backfillPromises);
 
-  const result: TopChartsResponse = { topTracks, topAlbums, topArtists, topAlbumsByGenre };
-  chartsCache = { data: result, timestamp: Date.now() };
-  return result;
+  const issues: FeedIssue[] = failed.length > 0
+    ? [{ step: 'charts', status: 'failed', message: `Couldn't load ${failed.join(', ')}` }]
+    : [];
+  return { topTracks, topAlbums, topArtists, topAlbumsByGenre, issues };
 }
 
 export interface AlbumSearchResult {
@@ -314,9 +256,8 @@ export interface AlbumSearchResult {
 }
 
 export async function searchAlbums(apiKey: string, query: string): Promise<AlbumSearchResult[]> {
-  await rateLimit();
   const url = `http://ws.audioscrobbler.com/2.0/?method=album.search&album=${encodeURIComponent(query)}&api_key=${apiKey}&format=json&limit=10`;
-  const res = await fetch(url);
+  const res = await httpFetch(url);
   if (!res.ok) throw new Error(`Last.fm album search failed: ${res.status}`);
   const data = (await res.json()) as {
     results?: {
@@ -357,7 +298,7 @@ export async function searchAlbums(apiKey: string, query: string): Promise<Album
 export async function fetchAllArtistPopularity(
   apiKey: string,
   albums: AlbumRelease[],
-): Promise<Map<string, { listeners: number | null; genre: string | null }>> {
+): Promise<{ popularity: Map<string, ArtistInfo>; failed: number }> {
   const seen = new Set<string>();
   const uniqueArtists: string[] = [];
   for (const album of albums) {
@@ -375,11 +316,14 @@ export async function fetchAllArtistPopularity(
     }),
   );
 
-  const map = new Map<string, { listeners: number | null; genre: string | null }>();
+  const popularity = new Map<string, ArtistInfo>();
+  let failed = 0;
   for (const result of results) {
     if (result.status === 'fulfilled') {
-      map.set(result.value.artist, result.value.info);
+      popularity.set(result.value.artist, result.value.info);
+    } else {
+      failed++;
     }
   }
-  return map;
+  return { popularity, failed };
 }
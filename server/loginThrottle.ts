@@ -0,0 +1,104 @@
+// In-memory login throttling. After a few free failures each further attempt
+// has to wait twice as long as the last, and enough failures lock the key out
+// entirely. Attempts still being checked count as failures, so a burst of
+// parallel guesses can't all pass before the first one is recorded. State is
+// per process and resets on restart.
+
+export interface ThrottleOptions {
+  // Failures allowed before any delay kicks in
+  freeAttempts: number;
+  // Upper bound on the exponential delay, in ms
+  maxDelay: number;
+  // Failures after which the key is locked out for lockoutDuration
+  lockoutThreshold: number;
+  lockoutDuration: number;
+  // A key with no failures for this long starts over
+  resetAfter: number;
+}
+
+export type ThrottleCheck = { allowed: true } | { allowed: false; retryAfter: number; locked: boolean };
+
+export interface LoginThrottle {
+  // Checks the key and, when allowed, holds a place for the attempt until it's
+  // settled by recordFailure, recordSuccess or release
+  reserve(key: string, now?: number): ThrottleCheck;
+  recordFailure(key: string, now?: number): void;
+  recordSuccess(key: string): void;
+  // Settles a reserved attempt without counting it as a failure
+  release(key: string): void;
+}
+
+interface AttemptRecord {
+  failures: number;
+  // Reserved attempts not yet settled
+  pending: number;
+  lastAttemptAt: number;
+  lockedUntil: number;
+}
+
+export function createLoginThrottle(options: ThrottleOptions): LoginThrottle {
+  const records = new Map<string, AttemptRecord>();
+
+  const current = (key: string, now: number): AttemptRecord | null => {
+    const record = records.get(key);
+    if (!record) return null;
+    if (record.pending === 0 && record.lockedUntil <= now && now - record.lastAttemptAt > options.resetAfter) {
+      records.delete(key);
+      return null;
+    }
+    return record;
+  };
+
+  const check = (key: string, now: number): ThrottleCheck => {
+    const record = current(key, now);
+    if (!record) return { allowed: true };
+    if (record.lockedUntil > now) {
+      return { allowed: false, retryAfter: record.lockedUntil - now, locked: true };
+    }
+    const attempts = record.failures + record.pending;
+    if (attempts < options.freeAttempts) return { allowed: true };
+    const delay = Math.min(1000 * 2 ** (attempts - options.freeAttempts), options.maxDelay);
+    const waitUntil = record.lastAttemptAt + delay;
+    return waitUntil > now ? { allowed: false, retryAfter: waitUntil - now, locked: false } : { allowed: true };
+  };
+
+  // Drop stale keys so a spray from many addresses can't grow the map forever
+  const recordFor = (key: string, now: number): AttemptRecord => {
+    if (records.size > 1000) {
+      for (const k of [...records.keys()]) current(k, now);
+    }
+    const record = current(key, now) ?? { failures: 0, pending: 0, lastAttemptAt: now, lockedUntil: 0 };
+    records.set(key, record);
+    return record;
+  };
+
+  return {
+    reserve(key, now = Date.now()) {
+      const result = check(key, now);
+      if (!result.allowed) return result;
+      const record = recordFor(key, now);
+      record.pending++;
+      record.lastAttemptAt = now;
+      return result;
+    },
+    recordFailure(key, now = Date.now()) {
+      const record = recordFor(key, now);
+      record.pending = Math.max(0, record.pending - 1);
+      record.failures++;
+      record.lastAttemptAt = now;
+      if (record.failures >= options.lockoutThreshold) {
+        record.lockedUntil = now + options.lockoutDuration;
+        record.failures = 0;
+      }
+    },
+    recordSuccess(key) {
+      records.delete(key);
+    },
+    release(key) {
+      const record = records.get(key);
+      if (!record) return;
+      record.pending = Math.max(0, record.pending - 1);
+      if (record.pending === 0 && record.failures === 0 && record.lockedUntil === 0) records.delete(key);
+    },
+  };
+}
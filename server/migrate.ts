@@ -0,0 +1,42 @@
+import 'dotenv/config';
+import { getPool } from './db.ts';
+import { getMigrationStatus, runMigrations } from './migrations.ts';
+
+// Usage: npm run migrate -- [status|up]
+
+const command = process.argv[2] ?? 'status';
+
+(async () => {
+  const pool = getPool();
+  if (!pool) {
+    console.error('DATABASE_URL not set — nothing to migrate');
+    process.exit(1);
+  }
+
+  try {
+    if (command === 'status') {
+      const status = await getMigrationStatus(pool);
+      for (const m of status) {
+        console.log(`${m.appliedAt ? '[x]' : '[ ]'} ${m.version}_${m.name}${m.appliedAt ? `  (applied ${m.appliedAt})` : ''}`);
+      }
+      const pending = status.filter((m) => !m.appliedAt).length;
+      console.log(pending === 0 ? 'Schema is up to date' : `${pending} pending migration(s)`);
+    } else if (command === 'up') {
+      const applied = await runMigrations(pool);
+      if (applied.length === 0) {
+        console.log('No pending migrations');
+      }
+      for (const m of applied) {
+        console.log(`Applied ${m.version}_${m.name}`);
+      }
+    } else {
+      console.error(`Unknown command "${command}". Use "status" or "up".`);
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
@@ -0,0 +1,319 @@
+import type pg from 'pg';
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (client: pg.PoolClient) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+// Arbitrary key so concurrent boots don't race each other through the same migration
+const MIGRATION_LOCK_KEY = 727_001;
+
+// Append new migrations to the end with the next version number. Never edit a
+// migration that has shipped — databases that already ran it won't see the change.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    // Written with IF NOT EXISTS so databases created by the old boot-time ALTERs adopt it cleanly
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS watched_items (
+          id TEXT NOT NULL,
+          category TEXT NOT NULL,
+          title TEXT NOT NULL,
+          subtitle TEXT NOT NULL DEFAULT '',
+          image_url TEXT,
+          added_at TEXT NOT NULL,
+          PRIMARY KEY (category, id)
+        )
+      `);
+      await client.query('ALTER TABLE watched_items ADD COLUMN IF NOT EXISTS rating INTEGER DEFAULT NULL');
+      await client.query('ALTER TABLE watched_items ADD COLUMN IF NOT EXISTS director TEXT DEFAULT NULL');
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS spotify_tokens (
+          id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+          access_token TEXT NOT NULL,
+          refresh_token TEXT NOT NULL,
+          expires_at BIGINT NOT NULL
+        )
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS dismissed_cards (
+          category TEXT NOT NULL,
+          item_id TEXT NOT NULL,
+          dismissed_at TEXT NOT NULL,
+          PRIMARY KEY (category, item_id)
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'import_legacy_watched_movies',
+    up: async (client) => {
+      if (!(await tableExists(client, 'watched_movies'))) return;
+      await client.query(`
+        INSERT INTO watched_items (id, category, title, subtitle, image_url, added_at)
+        SELECT id::TEXT, 'movie', title, COALESCE(release_date, ''), poster_url, added_at
+        FROM watched_movies
+        ON CONFLICT (category, id) DO NOTHING
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'drop_legacy_watched_movies',
+    // Refuses to drop unless every legacy row made it into watched_items; the
+    // thrown error rolls the transaction back and leaves the table in place.
+    up: async (client) => {
+      if (!(await tableExists(client, 'watched_movies'))) return;
+      const { rows } = await client.query(`
+        SELECT COUNT(*)::INTEGER AS missing
+        FROM watched_movies m
+        LEFT JOIN watched_items w ON w.category = 'movie' AND w.id = m.id::TEXT
+        WHERE w.id IS NULL
+      `);
+      const missing = (rows[0] as { missing: number }).missing;
+      if (missing > 0) {
+        throw new Error(`${missing} watched_movies rows are missing from watched_items; not dropping legacy table`);
+      }
+      await client.query('DROP TABLE watched_movies');
+    },
+  },
+  {
+    version: 4,
+    name: 'multi_user_accounts',
+    // Rows that predate accounts are assigned to user 1, the bootstrap admin
+    // created on first boot from DASHBOARD_PASSWORD_HASH.
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE users (
+          id SERIAL PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          is_admin BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TEXT NOT NULL
+        )
+      `);
+
+      for (const table of ['watched_items', 'dismissed_cards']) {
+        await client.query(`ALTER TABLE ${table} ADD COLUMN user_id INTEGER NOT NULL DEFAULT 1`);
+        await client.query(`ALTER TABLE ${table} ALTER COLUMN user_id DROP DEFAULT`);
+        await client.query(`ALTER TABLE ${table} DROP CONSTRAINT ${table}_pkey`);
+      }
+      await client.query('ALTER TABLE watched_items ADD PRIMARY KEY (user_id, category, id)');
+      await client.query('ALTER TABLE dismissed_cards ADD PRIMARY KEY (user_id, category, item_id)');
+
+      // The single-row id = 1 key (and its CHECK) is replaced by one row per user
+      await client.query('ALTER TABLE spotify_tokens ADD COLUMN user_id INTEGER NOT NULL DEFAULT 1');
+      await client.query('ALTER TABLE spotify_tokens ALTER COLUMN user_id DROP DEFAULT');
+      await client.query('ALTER TABLE spotify_tokens DROP COLUMN id');
+      await client.query('ALTER TABLE spotify_tokens ADD PRIMARY KEY (user_id)');
+    },
+  },
+  {
+    version: 5,
+    name: 'sessions',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE sessions (
+          id TEXT PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          refresh_token_hash TEXT NOT NULL UNIQUE,
+          previous_refresh_token_hash TEXT,
+          user_agent TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL,
+          last_used_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT
+        )
+      `);
+      await client.query('CREATE INDEX sessions_user_id_idx ON sessions (user_id)');
+      await client.query('CREATE INDEX sessions_previous_refresh_token_hash_idx ON sessions (previous_refresh_token_hash)');
+    },
+  },
+  {
+    version: 6,
+    name: 'auth_events',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE auth_events (
+          id SERIAL PRIMARY KEY,
+          type TEXT NOT NULL,
+          username TEXT NOT NULL,
+          user_id INTEGER,
+          ip TEXT NOT NULL,
+          user_agent TEXT NOT NULL DEFAULT '',
+          created_at TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'api_cache',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE api_cache (
+          key TEXT PRIMARY KEY,
+          value JSONB NOT NULL,
+          stored_at BIGINT NOT NULL,
+          expires_at BIGINT NOT NULL
+        )
+      `);
+      await client.query('CREATE INDEX api_cache_expires_at_idx ON api_cache (expires_at)');
+    },
+  },
+  {
+    version: 8,
+    name: 'feed_snapshots',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE feed_snapshots (
+          key TEXT PRIMARY KEY,
+          data JSONB NOT NULL,
+          last_updated TEXT NOT NULL
+        )
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'release_archive',
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE release_archive (
+          category TEXT NOT NULL,
+          date TEXT NOT NULL,
+          archived_at TEXT NOT NULL,
+          items JSONB NOT NULL,
+          PRIMARY KEY (category, date)
+        )
+      `);
+      await client.query('CREATE INDEX release_archive_date_idx ON release_archive (date)');
+    },
+  },
+  {
+    version: 10,
+    name: 'watchlist_status',
+    // Everything logged so far was already done
+    up: async (client) => {
+      await client.query(`ALTER TABLE watched_items ADD COLUMN status TEXT NOT NULL DEFAULT 'done'`);
+      await client.query('CREATE INDEX watched_items_status_idx ON watched_items (user_id, status)');
+    },
+  },
+  {
+    version: 11,
+    name: 'watch_events',
+    // Each item already in the log gets one event on the day it was added, so
+    // the diary isn't empty for history logged before events existed
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE watch_events (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER NOT NULL,
+          category TEXT NOT NULL,
+          item_id TEXT NOT NULL,
+          date TEXT NOT NULL,
+          notes TEXT NOT NULL DEFAULT '',
+          rewatch BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id, category, item_id) REFERENCES watched_items (user_id, category, id) ON DELETE CASCADE
+        )
+      `);
+      await client.query('CREATE INDEX watch_events_user_date_idx ON watch_events (user_id, date)');
+      await client.query(`
+        INSERT INTO watch_events (user_id, category, item_id, date, created_at)
+        SELECT user_id, category, id, substring(added_at from 1 for 10), added_at
+        FROM watched_items
+        WHERE status = 'done'
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'watched_item_reviews',
+    // Half-star ratings; REAL comes back from pg as a number, unlike NUMERIC
+    up: async (client) => {
+      await client.query('ALTER TABLE watched_items ALTER COLUMN rating TYPE REAL');
+      await client.query('ALTER TABLE watched_items ADD COLUMN review TEXT DEFAULT NULL');
+    },
+  },
+];
+
+async function tableExists(client: pg.PoolClient, table: string): Promise<boolean> {
+  const { rows } = await client.query('SELECT to_regclass($1) IS NOT NULL AS exists', [table]);
+  return (rows[0] as { exists: boolean }).exists;
+}
+
+async function ensureMigrationsTable(pool: pg.Pool): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+async function getAppliedVersions(db: pg.Pool | pg.PoolClient): Promise<Map<number, string>> {
+  const { rows } = await db.query('SELECT version, applied_at FROM schema_migrations');
+  return new Map(rows.map((r: { version: number; applied_at: string }) => [r.version, r.applied_at]));
+}
+
+export async function getMigrationStatus(pool: pg.Pool): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(pool);
+  const applied = await getAppliedVersions(pool);
+  return MIGRATIONS.map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version) ?? null,
+  }));
+}
+
+// Applies every pending migration in version order, each in its own transaction.
+// Returns the migrations that were applied by this call.
+export async function runMigrations(pool: pg.Pool): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(pool);
+  const appliedNow: MigrationStatus[] = [];
+
+  for (const migration of MIGRATIONS) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+
+      // Re-check under the lock in case another process applied it first
+      if ((await getAppliedVersions(client)).has(migration.version)) {
+        await client.query('COMMIT');
+        continue;
+      }
+
+      await migration.up(client);
+      const appliedAt = new Date().toISOString();
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, appliedAt],
+      );
+      await client.query('COMMIT');
+      appliedNow.push({ version: migration.version, name: migration.name, appliedAt });
+    } catch (err) {
+      await client.query('ROLLBACK');
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Migration ${migration.version}_${migration.name} failed: ${message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  return appliedNow;
+}
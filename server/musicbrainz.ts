@@ -1,15 +1,8 @@
-import type { AlbumRelease } from './types.ts';
+import type { AlbumRelease, CalendarEntry } from './types.ts';
+import { apiCache } from './cache.ts';
+import { httpFetch } from './http.ts';
 
-let lastRequestTime = 0;
-
-async function rateLimitedFetch(url: string, options?: RequestInit): Promise<Response> {
-  const elapsed = Date.now() - lastRequestTime;
-  if (elapsed < 1000) {
-    await new Promise((resolve) => setTimeout(resolve, 1000 - elapsed));
-  }
-  lastRequestTime = Date.now();
-  return fetch(url, options);
-}
+const CALENDAR_CACHE = { ttl: 6 * 60 * 60 * 1000, staleWhileRevalidate: 24 * 60 * 60 * 1000 };
 
 function formatDate(d: Date): string {
   const yyyy = d.getFullYear();
@@ -18,8 +11,8 @@ function formatDate(d: Date): string {
   return `${yyyy}-${mm}-${dd}`;
 }
 
-function getUpcomingFriday(): string {
-  const now = new Date();
+// Same week rule as getReleaseWeek in tmdb.ts, in the server's local time
+export function getUpcomingFriday(now = new Date(), weekOffset = 0): string {
   const day = now.getDay();
   let diff: number;
   if (day === 6) {
@@ -30,7 +23,7 @@ function getUpcomingFriday(): string {
     diff = 5 - day;
   }
   const friday = new Date(now);
-  friday.setDate(friday.getDate() + diff);
+  friday.setDate(friday.getDate() + diff + weekOffset * 7);
   return formatDate(friday);
 }
 
@@ -57,24 +50,30 @@ interface MBRelease {
   'cover-art-archive'?: MBCoverArtArchive;
 }
 
-export async function fetchUpcomingFridayAlbums(): Promise<AlbumRelease[]> {
-  const friday = getUpcomingFriday();
+const PAGE_SIZE = 100;
 
-  const query = `date:${friday} AND (primarytype:Album OR primarytype:EP) AND status:Official`;
-  const url = `https://musicbrainz.org/ws/2/release?query=${encodeURIComponent(query)}&fmt=json&limit=100`;
+// Official albums and EPs matching a release-date clause, fetched a page at a
+// time (httpFetch spaces MusicBrainz requests 1 s apart) and deduplicated by release group.
+// Pages until MusicBrainz's reported count is exhausted unless maxPages stops it first.
+async function searchAlbumReleases(dateClause: string, maxPages = Infinity): Promise<MBRelease[]> {
+  const query = `${dateClause} AND (primarytype:Album OR primarytype:EP) AND status:Official`;
+  const releases: MBRelease[] = [];
 
-  const res = await rateLimitedFetch(url, {
-    headers: {
-      'User-Agent': 'BakeBoard/1.0 (contact@email.com)',
-    },
-  });
+  for (let page = 0; page < maxPages; page++) {
+    const url = `https://musicbrainz.org/ws/2/release?query=${encodeURIComponent(query)}&fmt=json&limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`;
+    const res = await httpFetch(url, {
+      headers: {
+        'User-Agent': 'BakeBoard/1.0 (contact@email.com)',
+      },
+    });
 
-  if (!res.ok) throw new Error(`MusicBrainz search failed: ${res.status}`);
-  const data = (await res.json()) as { releases: MBRelease[] };
-
-  const releases = data.releases ?? [];
+    if (!res.ok) throw new Error(`MusicBrainz search failed: ${res.status}`);
+    const data = (await res.json()) as { releases?: MBRelease[]; count?: number };
+    const batch = data.releases ?? [];
+    releases.push(...batch);
+    if (batch.length === 0 || (page + 1) * PAGE_SIZE >= (data.count ?? 0)) break;
+  }
 
-  // Deduplicate by release-group id
   const seen = new Set<string>();
   const unique: MBRelease[] = [];
   for (const release of releases) {
@@ -83,20 +82,55 @@ export async function fetchUpcomingFridayAlbums(): Promise<AlbumRelease[]> {
     seen.add(rgId);
     unique.push(release);
   }
+  return unique;
+}
 
-  return unique.map((release): AlbumRelease => {
-    const artist = release['artist-credit']?.map((c) => c.name).join(', ') ?? 'Unknown Artist';
-    const rgId = release['release-group']?.id;
-    return {
+function artistName(release: MBRelease): string {
+  return release['artist-credit']?.map((c) => c.name).join(', ') ?? 'Unknown Artist';
+}
+
+function coverUrlFor(release: MBRelease): string {
+  const rgId = release['release-group']?.id;
+  return rgId
+    ? `https://coverartarchive.org/release-group/${rgId}/front-500`
+    : `https://coverartarchive.org/release/${release.id}/front-500`;
+}
+
+// Not cached: the albums feed snapshot is its cache
+export async function fetchUpcomingFridayAlbums(friday = getUpcomingFriday()): Promise<AlbumRelease[]> {
+  const releases = await searchAlbumReleases(`date:${friday}`);
+
+  return releases.map((release): AlbumRelease => ({
+    id: release.id,
+    title: release.title,
+    artist: artistName(release),
+    coverUrl: coverUrlFor(release),
+    releaseDate: release.date ?? friday,
+    type: release['release-group']?.['primary-type'] ?? 'Album',
+    fridayDate: friday,
+  }));
+}
+
+// Album releases between two dates (inclusive) for the release calendar. A busy
+// month runs to thousands of releases, so at most maxPages are read (1 req/s each).
+export function fetchAlbumCalendar(from: string, to: string, maxPages = 5): Promise<CalendarEntry[]> {
+  return apiCache.getOrLoad(`musicbrainz:calendar:${from}:${to}:${maxPages}`, CALENDAR_CACHE, () => loadAlbumCalendar(from, to, maxPages));
+}
+
+async function loadAlbumCalendar(from: string, to: string, maxPages: number): Promise<CalendarEntry[]> {
+  const releases = await searchAlbumReleases(`date:[${from} TO ${to}]`, maxPages);
+
+  return releases
+    // Partial dates (just a year or month) also match a range query
+    .filter((release) => release.date && release.date.length === 10)
+    .map((release) => ({
       id: release.id,
+      category: 'album',
       title: release.title,
-      artist,
-      coverUrl: rgId
-        ? `https://coverartarchive.org/release-group/${rgId}/front-500`
-        : `https://coverartarchive.org/release/${release.id}/front-500`,
-      releaseDate: release.date ?? friday,
-      type: release['release-group']?.['primary-type'] ?? 'Album',
-      fridayDate: friday,
-    };
-  });
+      subtitle: artistName(release),
+      imageUrl: coverUrlFor(release).replace('front-500', 'front-250'),
+      date: release.date!,
+      url: `https://musicbrainz.org/release/${release.id}`,
+      popularity: 0,
+    }));
 }
@@ -1,5 +1,6 @@
 import RSSParser from 'rss-parser';
-import type { NewsItem } from './types.ts';
+import type { FeedIssue, FeedResult, NewsItem } from './types.ts';
+import { httpFetch } from './http.ts';
 
 const RSS_FEEDS = [
   { url: 'https://hnrss.org/frontpage', name: 'Hacker News' },
@@ -15,10 +16,12 @@ const RSS_FEEDS = [
   { url: 'https://www.cbc.ca/webfeed/rss/rss-politics', name: 'CBC Politics' },
 ];
 
-const parser = new RSSParser({ timeout: 10000 });
+const parser = new RSSParser();
 
-let newsCache: { data: NewsItem[]; timestamp: number } | null = null;
-const CACHE_TTL = 15 * 60 * 1000; // 15 minutes
+// Each feed is its own provider on the status page
+export function newsProviders(): string[] {
+  return RSS_FEEDS.map((feed) => `RSS: ${feed.name}`);
+}
 
 function stripHtml(html: string): string {
   return html.replace(/<[^>]*>/g, '').replace(/&[^;]+;/g, ' ').trim();
@@ -29,15 +32,14 @@ function truncate(text: string, max: number): string {
   return text.slice(0, max).trimEnd() + '…';
 }
 
-export async function fetchNews(): Promise<NewsItem[]> {
-  if (newsCache && Date.now() - newsCache.timestamp < CACHE_TTL) {
-    return newsCache.data;
-  }
-
+// Not cached: the news feed snapshot is its cache
+export async function fetchNews(): Promise<FeedResult<NewsItem>> {
   console.log('Fetching RSS feeds...');
   const results = await Promise.allSettled(
     RSS_FEEDS.map(async (feed) => {
-      const parsed = await parser.parseURL(feed.url);
+      const res = await httpFetch(feed.url, { provider: `RSS: ${feed.name}` });
+      if (!res.ok) throw new Error(`${feed.name} feed failed: ${res.status}`);
+      const parsed = await parser.parseString(await res.text());
       return (parsed.items || []).map((item): NewsItem => {
         let snippet = '';
         if (item.contentSnippet) {
@@ -61,16 +63,19 @@ export async function fetchNews(): Promise<NewsItem[]> {
   );
 
   const items: NewsItem[] = [];
-  for (const result of results) {
+  const deadFeeds: string[] = [];
+  results.forEach((result, i) => {
     if (result.status === 'fulfilled') {
       items.push(...result.value);
     } else {
-      console.error('RSS feed fetch failed:', result.reason);
+      deadFeeds.push(RSS_FEEDS[i]!.name);
     }
-  }
+  });
 
   items.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
-  newsCache = { data: items, timestamp: Date.now() };
-  return items;
+  const issues: FeedIssue[] = deadFeeds.length > 0
+    ? [{ step: 'feeds', status: 'failed', message: `Couldn't load ${deadFeeds.join(', ')}` }]
+    : [];
+  return { items, issues };
 }
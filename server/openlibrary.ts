@@ -1,3 +1,5 @@
+import { httpFetch } from './http.ts';
+
 export interface BookSearchResult {
   id: string;
   title: string;
@@ -19,7 +21,7 @@ export async function searchBooks(query: string): Promise<BookSearchResult[]> {
   url.searchParams.set('q', query);
   url.searchParams.set('limit', '10');
 
-  const res = await fetch(url.toString());
+  const res = await httpFetch(url);
   if (!res.ok) throw new Error(`Open Library search failed: ${res.status}`);
   const data = (await res.json()) as { docs?: OpenLibraryDoc[] };
 
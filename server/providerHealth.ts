@@ -0,0 +1,159 @@
+// Rolling health figures for each upstream provider, fed by httpFetch on
+// every attempt. Kept in memory only: they describe this process's view of
+// the providers since it started.
+
+import type { ProviderHealth, ProviderQuota, ProviderState } from './types.ts';
+
+export type { ProviderHealth, ProviderQuota, ProviderState } from './types.ts';
+
+// Providers are named by host; anything not listed is tracked under its hostname
+const PROVIDER_HOSTS: Record<string, string> = {
+  'api.igdb.com': 'IGDB',
+  'id.twitch.tv': 'Twitch OAuth',
+  'store.steampowered.com': 'Steam',
+  'api.themoviedb.org': 'TMDB',
+  'musicbrainz.org': 'MusicBrainz',
+  'ws.audioscrobbler.com': 'Last.fm',
+  'itunes.apple.com': 'iTunes',
+  'openlibrary.org': 'OpenLibrary',
+  'api.openweathermap.org': 'OpenWeather',
+  'accounts.spotify.com': 'Spotify',
+  'api.spotify.com': 'Spotify',
+};
+
+export function providerForHost(host: string): string {
+  return PROVIDER_HOSTS[host] ?? host;
+}
+
+// Failing this many requests in a row marks a provider as down
+const DOWN_AFTER_FAILURES = 3;
+// Latency is averaged over this many recent requests
+const LATENCY_WINDOW = 50;
+
+interface ProviderRecord {
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  latencies: number[];
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  quota: ProviderQuota | null;
+}
+
+const records = new Map<string, ProviderRecord>();
+
+function recordFor(provider: string): ProviderRecord {
+  let record = records.get(provider);
+  if (!record) {
+    record = {
+      requests: 0,
+      failures: 0,
+      rateLimited: 0,
+      consecutiveFailures: 0,
+      latencies: [],
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      quota: null,
+    };
+    records.set(provider, record);
+  }
+  return record;
+}
+
+function headerNumber(headers: Headers, names: string[]): number | null {
+  for (const name of names) {
+    const value = Number(headers.get(name));
+    if (headers.has(name) && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+// Reads the common X-RateLimit-* / RateLimit-* headers, if the provider sends them
+function quotaFrom(headers: Headers): ProviderQuota | null {
+  const remaining = headerNumber(headers, ['x-ratelimit-remaining', 'ratelimit-remaining']);
+  const limit = headerNumber(headers, ['x-ratelimit-limit', 'ratelimit-limit']);
+  if (remaining === null && limit === null) return null;
+  const reset = headerNumber(headers, ['x-ratelimit-reset', 'ratelimit-reset']);
+  // Some providers send an epoch time, others seconds until the reset
+  const resetAt = reset === null
+    ? null
+    : new Date(reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000).toISOString();
+  return { remaining, limit, resetAt };
+}
+
+// An answer from the provider counts as healthy unless it is a server error,
+// a rate limit or an auth failure; a 404 for an unknown title is still an answer
+function isFailureStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 401 || status === 403;
+}
+
+export function recordResponse(provider: string, res: Response, latencyMs: number): void {
+  const record = recordFor(provider);
+  const now = new Date().toISOString();
+  record.requests++;
+  record.latencies = [...record.latencies, latencyMs].slice(-LATENCY_WINDOW);
+  record.quota = quotaFrom(res.headers) ?? record.quota;
+  if (res.status === 429) record.rateLimited++;
+  if (isFailureStatus(res.status)) {
+    record.failures++;
+    record.consecutiveFailures++;
+    record.lastFailureAt = now;
+    record.lastError = `HTTP ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`;
+  } else {
+    record.consecutiveFailures = 0;
+    record.lastSuccessAt = now;
+  }
+}
+
+export function recordError(provider: string, err: unknown, latencyMs: number): void {
+  const record = recordFor(provider);
+  record.requests++;
+  record.failures++;
+  record.consecutiveFailures++;
+  record.latencies = [...record.latencies, latencyMs].slice(-LATENCY_WINDOW);
+  record.lastFailureAt = new Date().toISOString();
+  record.lastError = describeError(err);
+}
+
+// fetch() reports every network failure as "fetch failed"; the cause says why
+function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+  const cause = err.cause instanceof Error ? ` (${err.cause.message})` : '';
+  return `${err.name}: ${err.message}${cause}`;
+}
+
+function stateOf(record: ProviderRecord | undefined): ProviderState {
+  if (!record || record.requests === 0) return 'unknown';
+  if (record.consecutiveFailures >= DOWN_AFTER_FAILURES) return 'down';
+  if (record.consecutiveFailures > 0) return 'degraded';
+  return 'ok';
+}
+
+// Health for the named providers (listed even before their first request),
+// followed by any other hosts that have been contacted
+export function providerHealth(known: string[]): ProviderHealth[] {
+  const names = [...known, ...[...records.keys()].filter((name) => !known.includes(name)).sort()];
+  return names.map((provider) => {
+    const record = records.get(provider);
+    const latencies = record?.latencies ?? [];
+    return {
+      provider,
+      state: stateOf(record),
+      requests: record?.requests ?? 0,
+      failures: record?.failures ?? 0,
+      rateLimited: record?.rateLimited ?? 0,
+      consecutiveFailures: record?.consecutiveFailures ?? 0,
+      averageLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length)
+        : null,
+      lastLatencyMs: latencies.length > 0 ? latencies[latencies.length - 1]! : null,
+      lastSuccessAt: record?.lastSuccessAt ?? null,
+      lastFailureAt: record?.lastFailureAt ?? null,
+      lastError: record?.lastError ?? null,
+      quota: record?.quota ?? null,
+    };
+  });
+}
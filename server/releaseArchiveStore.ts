@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { hasDatabase, dbPutArchivedReleases, dbGetArchivedReleases, dbListArchiveDates } from './db.ts';
+import { isISODate } from './dates.ts';
+import type { ArchivedReleases, ArchiveDate, CalendarCategory } from './types.ts';
+
+// Keeps the release lists the dashboard showed, one per category and date, so
+// past weeks can still be browsed after the providers' own listings move on.
+export interface ReleaseArchiveStore {
+  // Replaces any list already archived for the same category and date
+  put(entry: ArchivedReleases): Promise<void>;
+  get(category: CalendarCategory, date: string): Promise<ArchivedReleases | null>;
+  // Dates with an archived list between from and to (inclusive), oldest first
+  listDates(from: string, to: string): Promise<ArchiveDate[]>;
+}
+
+const CATEGORY_ORDER: CalendarCategory[] = ['game', 'movie', 'album'];
+
+function sortDates(dates: ArchiveDate[]): ArchiveDate[] {
+  return dates.sort((a, b) =>
+    a.date.localeCompare(b.date) || CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category));
+}
+
+// --- In-memory (tests) ---
+
+export function createMemoryReleaseArchiveStore(): ReleaseArchiveStore {
+  const entries = new Map<string, ArchivedReleases>();
+
+  return {
+    async put(entry) {
+      entries.set(`${entry.category}:${entry.date}`, structuredClone(entry));
+    },
+    async get(category, date) {
+      const entry = entries.get(`${category}:${date}`);
+      return entry ? structuredClone(entry) : null;
+    },
+    async listDates(from, to) {
+      return sortDates([...entries.values()]
+        .filter((e) => e.date >= from && e.date <= to)
+        .map(({ category, date }) => ({ category, date })));
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresReleaseArchiveStore(): ReleaseArchiveStore {
+  return {
+    put: dbPutArchivedReleases,
+    get: dbGetArchivedReleases,
+    listDates: dbListArchiveDates,
+  };
+}
+
+// --- JSON files ---
+
+// One file per list; a year of daily game lists is too much to rewrite as a
+// single document on every refresh.
+const ARCHIVE_DIR = path.join(process.cwd(), 'data', 'archive');
+
+function archiveFile(category: CalendarCategory, date: string): string {
+  return path.join(ARCHIVE_DIR, `${category}-${date}.json`);
+}
+
+export function createFileReleaseArchiveStore(): ReleaseArchiveStore {
+  return {
+    async put(entry) {
+      if (!fs.existsSync(ARCHIVE_DIR)) fs.mkdirSync(ARCHIVE_DIR, { recursive: true });
+      fs.writeFileSync(archiveFile(entry.category, entry.date), JSON.stringify(entry));
+    },
+    async get(category, date) {
+      try {
+        return JSON.parse(fs.readFileSync(archiveFile(category, date), 'utf-8')) as ArchivedReleases;
+      } catch {
+        return null;
+      }
+    },
+    async listDates(from, to) {
+      let files: string[];
+      try {
+        files = fs.readdirSync(ARCHIVE_DIR);
+      } catch {
+        return [];
+      }
+      const dates: ArchiveDate[] = [];
+      for (const file of files) {
+        const match = /^(game|movie|album)-(.+)\.json$/.exec(file);
+        if (!match || !isISODate(match[2])) continue;
+        const date = match[2];
+        if (date >= from && date <= to) dates.push({ category: match[1] as CalendarCategory, date });
+      }
+      return sortDates(dates);
+    },
+  };
+}
+
+export function createReleaseArchiveStore(): ReleaseArchiveStore {
+  return hasDatabase() ? createPostgresReleaseArchiveStore() : createFileReleaseArchiveStore();
+}
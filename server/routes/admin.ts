@@ -0,0 +1,18 @@
+import express from 'express';
+import type { UserStore } from '../userStore.ts';
+import type { AuthEventStore } from '../authEventStore.ts';
+import { authEventsQuery } from '../../shared/schemas.ts';
+import { requireAdmin } from './auth.ts';
+import { validated } from './validate.ts';
+
+// Mounted at /api/admin; every route is admin-only
+export function createAdminRouter(userStore: UserStore, authEventStore: AuthEventStore): express.Router {
+  const router = express.Router();
+  router.use(requireAdmin(userStore));
+
+  router.get('/auth-events', validated({ query: authEventsQuery }, async ({ query }, _req, res) => {
+    res.json(await authEventStore.list(query.limit));
+  }));
+
+  return router;
+}
@@ -0,0 +1,107 @@
+import express from 'express';
+import { fetchGameCalendar } from '../igdb.ts';
+import { fetchMovieCalendar } from '../tmdb.ts';
+import { fetchAlbumCalendar } from '../musicbrainz.ts';
+import type { DismissedCardStore } from '../dismissedStore.ts';
+import type { ReleaseArchiveStore } from '../releaseArchiveStore.ts';
+import type { CalendarCategory, CalendarEntry, CalendarResponse } from '../types.ts';
+import { archiveParams, calendarCategoriesQuery, CALENDAR_CATEGORIES } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { dateRangeQuery } from './params.ts';
+import { validated } from './validate.ts';
+
+// A year of dates per request is plenty for the archive's month list
+const MAX_ARCHIVE_RANGE_DAYS = 366;
+
+// Six weeks covers a full month grid
+const MAX_CALENDAR_DAYS = 42;
+
+// Mounted at /api/archive
+export function createArchiveRouter(releaseArchive: ReleaseArchiveStore, dismissedStore: DismissedCardStore): express.Router {
+  const router = express.Router();
+
+  router.get('/dates', validated({ query: dateRangeQuery(MAX_ARCHIVE_RANGE_DAYS) }, async ({ query: range }, _req, res) => {
+    try {
+      res.json(await releaseArchive.listDates(range.from, range.to));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error listing archive dates:', message);
+      res.status(500).json({ error: 'Failed to list archived dates' });
+    }
+  }));
+
+  router.get('/:category/:date', validated({ params: archiveParams }, async ({ params: { category, date } }, _req, res) => {
+    try {
+      const entry = await releaseArchive.get(category, date);
+      if (!entry) {
+        res.status(404).json({ error: 'Nothing archived for that date' });
+        return;
+      }
+      const dismissed = new Set(await dismissedStore.list(getUserId(res), category));
+      const items = (entry.items as { id: number | string }[]).filter((item) => !dismissed.has(String(item.id)));
+      res.json({ ...entry, items });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error reading archive:', message);
+      res.status(500).json({ error: 'Failed to read archived releases' });
+    }
+  }));
+
+  return router;
+}
+
+interface CalendarRouterOptions {
+  dismissedStore: DismissedCardStore;
+  // A category whose feature is off is left out of the calendar
+  twitch?: { clientId: string; clientSecret: string };
+  tmdbApiKey?: string;
+  albums: boolean;
+}
+
+// Mounted at /api/calendar
+export function createCalendarRouter({ dismissedStore, twitch, tmdbApiKey, albums }: CalendarRouterOptions): express.Router {
+  const router = express.Router();
+
+  const fetchers: Partial<Record<CalendarCategory, (from: string, to: string) => Promise<CalendarEntry[]>>> = {};
+  if (twitch) fetchers.game = (from, to) => fetchGameCalendar(twitch.clientId, twitch.clientSecret, from, to);
+  if (tmdbApiKey) fetchers.movie = (from, to) => fetchMovieCalendar(tmdbApiKey, from, to);
+  if (albums) fetchers.album = (from, to) => fetchAlbumCalendar(from, to);
+
+  const calendarQuery = dateRangeQuery(MAX_CALENDAR_DAYS).and(calendarCategoriesQuery);
+
+  router.get('/', validated({ query: calendarQuery }, async ({ query }, _req, res) => {
+    const { from, to } = query;
+    const categories = CALENDAR_CATEGORIES.filter((c) => query.categories.includes(c) && fetchers[c]);
+
+    // One failing provider shouldn't blank the whole calendar
+    const userId = getUserId(res);
+    const results = await Promise.allSettled(categories.map(async (category) => {
+      const dismissed = new Set(await dismissedStore.list(userId, category));
+      return (await fetchers[category]!(from, to)).filter((e) => !dismissed.has(e.id));
+    }));
+
+    const entries: CalendarEntry[] = [];
+    const unavailable: CalendarCategory[] = [];
+    results.forEach((result, i) => {
+      const category = categories[i]!;
+      if (result.status === 'fulfilled') {
+        entries.push(...result.value);
+      } else {
+        const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        console.error(`Error fetching ${category} calendar:`, message);
+        unavailable.push(category);
+      }
+    });
+
+    entries.sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      CALENDAR_CATEGORIES.indexOf(a.category) - CALENDAR_CATEGORIES.indexOf(b.category) ||
+      b.popularity - a.popularity ||
+      a.title.localeCompare(b.title));
+
+    const response: CalendarResponse = { from, to, entries, unavailable };
+    res.json(response);
+  }));
+
+  return router;
+}
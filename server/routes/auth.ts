@@ -0,0 +1,244 @@
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
+import type { AuthEventType, Session } from '../db.ts';
+import { normalizeUsername } from '../userStore.ts';
+import type { UserStore } from '../userStore.ts';
+import { isSessionActive } from '../sessionStore.ts';
+import type { SessionStore } from '../sessionStore.ts';
+import type { AuthEventStore } from '../authEventStore.ts';
+import { createLoginThrottle } from '../loginThrottle.ts';
+import { loginBody, refreshBody } from '../../shared/schemas.ts';
+import { validated } from './validate.ts';
+
+// Reachable without an access token
+const PUBLIC_PATHS = ['/api/health', '/api/auth/login', '/api/auth/refresh', '/api/spotify/callback'];
+
+const ACCESS_TOKEN_TTL = '15m';
+// Sliding window: every refresh pushes the session's expiry out again
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000;
+// Two tabs refreshing at once both present the same token; only a replay
+// outside this window is treated as a stolen token
+const REFRESH_REUSE_GRACE = 30 * 1000;
+
+const LOGIN_LOCKOUT = 15 * 60 * 1000;
+const GLOBAL_THROTTLE_KEY = '*';
+// Unknown usernames are checked against this so they take as long to reject
+// as a wrong password; same cost as useradd's hashes
+const DUMMY_PASSWORD_HASH = '$2b$10$8x4jvl8iOdWbay7yWRBxguwich309vP9TpSLyelmXemDPwRQ7vDla';
+
+// Set by the auth middleware for every non-public route
+export function getUserId(res: Response): number {
+  return res.locals['userId'] as number;
+}
+
+export function getSessionId(res: Response): string {
+  return res.locals['sessionId'] as string;
+}
+
+// Refresh tokens are only ever stored hashed
+function hashRefreshToken(refreshToken: string): string {
+  return createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function refreshExpiry(from: Date): string {
+  return new Date(from.getTime() + REFRESH_TOKEN_TTL).toISOString();
+}
+
+// Checks the access token on every request outside PUBLIC_PATHS
+export function authenticate(jwtSecret: string, sessionStore: SessionStore) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (PUBLIC_PATHS.includes(req.path)) {
+      next();
+      return;
+    }
+    const authHeader = req.headers['authorization'];
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Missing or invalid token' });
+      return;
+    }
+    const token = authHeader.slice(7);
+    let userId: number;
+    let sessionId: string;
+    try {
+      const payload = jwt.verify(token, jwtSecret) as jwt.JwtPayload;
+      // Tokens issued before multi-user accounts have no subject, and ones
+      // issued before server-side sessions have no session id
+      userId = Number(payload.sub);
+      if (!Number.isInteger(userId)) throw new Error('Missing subject');
+      if (typeof payload['sid'] !== 'string') throw new Error('Missing session');
+      sessionId = payload['sid'];
+    } catch {
+      res.status(401).json({ error: 'Token expired or invalid' });
+      return;
+    }
+    // Checked on every request so logging out takes effect before the access token expires
+    const session = await sessionStore.findById(sessionId);
+    if (!session || session.userId !== userId || !isSessionActive(session)) {
+      res.status(401).json({ error: 'Session expired or revoked' });
+      return;
+    }
+    res.locals['userId'] = userId;
+    res.locals['sessionId'] = sessionId;
+    next();
+  };
+}
+
+export function requireAdmin(userStore: UserStore) {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    const user = await userStore.findById(getUserId(res));
+    if (!user?.isAdmin) {
+      res.status(403).json({ error: 'Admin access required' });
+      return;
+    }
+    next();
+  };
+}
+
+interface AuthRouterOptions {
+  jwtSecret: string;
+  userStore: UserStore;
+  sessionStore: SessionStore;
+  authEventStore: AuthEventStore;
+}
+
+// Mounted at /api/auth
+export function createAuthRouter({ jwtSecret, userStore, sessionStore, authEventStore }: AuthRouterOptions): express.Router {
+  const router = express.Router();
+
+  const loginThrottleByIp = createLoginThrottle({
+    freeAttempts: 3,
+    maxDelay: 5 * 60 * 1000,
+    lockoutThreshold: 10,
+    lockoutDuration: LOGIN_LOCKOUT,
+    resetAfter: LOGIN_LOCKOUT,
+  });
+  // Catches guessing spread across many addresses; only failures count towards it
+  const loginThrottleGlobal = createLoginThrottle({
+    freeAttempts: 50,
+    maxDelay: 60 * 1000,
+    lockoutThreshold: 200,
+    lockoutDuration: LOGIN_LOCKOUT,
+    resetAfter: LOGIN_LOCKOUT,
+  });
+
+  const signAccessToken = (userId: number, sessionId: string): string =>
+    jwt.sign({ sub: String(userId), sid: sessionId }, jwtSecret, { expiresIn: ACCESS_TOKEN_TTL });
+
+  router.post('/login', validated({ body: loginBody }, async ({ body: { username, password } }, req, res) => {
+
+    const ip = req.ip ?? 'unknown';
+    const recordEvent = (type: AuthEventType, userId: number | null) => {
+      authEventStore.record({
+        type,
+        username: normalizeUsername(username).slice(0, 100),
+        userId,
+        ip,
+        userAgent: req.get('user-agent') ?? '',
+        createdAt: new Date().toISOString(),
+      }).catch((err) => console.error('Failed to record auth event:', err));
+    };
+
+    // Reserved before the password check so parallel guesses see each other
+    const byIp = loginThrottleByIp.reserve(ip);
+    const global = byIp.allowed ? loginThrottleGlobal.reserve(GLOBAL_THROTTLE_KEY) : byIp;
+    if (byIp.allowed && !global.allowed) loginThrottleByIp.release(ip);
+    for (const check of [byIp, global]) {
+      if (check.allowed) continue;
+      const seconds = Math.ceil(check.retryAfter / 1000);
+      const wait = check.locked ? `${Math.ceil(seconds / 60)} min` : `${seconds} s`;
+      recordEvent('login_throttled', null);
+      res.set('Retry-After', String(seconds));
+      res.status(429).json({
+        error: `${check.locked ? 'Too many failed attempts' : 'Too many attempts'}. Try again in ${wait}.`,
+      });
+      return;
+    }
+
+    let user;
+    let valid;
+    try {
+      user = await userStore.findByUsername(username);
+      valid = await bcrypt.compare(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+    } catch (err) {
+      loginThrottleByIp.release(ip);
+      loginThrottleGlobal.release(GLOBAL_THROTTLE_KEY);
+      throw err;
+    }
+    if (!user || !valid) {
+      loginThrottleByIp.recordFailure(ip);
+      loginThrottleGlobal.recordFailure(GLOBAL_THROTTLE_KEY);
+      recordEvent('login_failure', user?.id ?? null);
+      res.status(401).json({ error: 'Invalid username or password' });
+      return;
+    }
+    loginThrottleByIp.recordSuccess(ip);
+    loginThrottleGlobal.release(GLOBAL_THROTTLE_KEY);
+    recordEvent('login_success', user.id);
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const session: Session = {
+      id: randomBytes(16).toString('hex'),
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      previousRefreshTokenHash: null,
+      userAgent: req.get('user-agent') ?? '',
+      createdAt: now.toISOString(),
+      lastUsedAt: now.toISOString(),
+      expiresAt: refreshExpiry(now),
+      revokedAt: null,
+    };
+    await sessionStore.create(session);
+    res.json({ token: signAccessToken(user.id, session.id), refreshToken });
+  }));
+
+  // Exchanges a refresh token for a new access token. The refresh token is
+  // rotated on every use; presenting one that was already rotated away ends the
+  // whole session, since only a copy of the token could still be holding it.
+  router.post('/refresh', validated({ body: refreshBody }, async ({ body: { refreshToken } }, _req, res) => {
+    const hash = hashRefreshToken(refreshToken);
+    const session = await sessionStore.findByRefreshTokenHash(hash);
+    if (!session || !isSessionActive(session)) {
+      res.status(401).json({ error: 'Session expired or revoked' });
+      return;
+    }
+    if (session.refreshTokenHash !== hash) {
+      if (Date.now() - new Date(session.lastUsedAt).getTime() > REFRESH_REUSE_GRACE) {
+        console.warn(`Refresh token reuse detected for user ${session.userId}; revoking session`);
+        await sessionStore.revoke(session.id);
+      }
+      res.status(401).json({ error: 'Refresh token already used' });
+      return;
+    }
+
+    const nextRefreshToken = randomBytes(32).toString('base64url');
+    const now = new Date();
+    await sessionStore.rotate(session.id, hashRefreshToken(nextRefreshToken), now.toISOString(), refreshExpiry(now));
+    res.json({ token: signAccessToken(session.userId, session.id), refreshToken: nextRefreshToken });
+  }));
+
+  router.post('/logout', async (_req, res) => {
+    await sessionStore.revoke(getSessionId(res));
+    res.json({ success: true });
+  });
+
+  // Signs out every device, including this one
+  router.post('/logout-all', async (_req, res) => {
+    await sessionStore.revokeAllForUser(getUserId(res));
+    res.json({ success: true });
+  });
+
+  router.get('/me', async (_req, res) => {
+    const user = await userStore.findById(getUserId(res));
+    if (!user) {
+      res.status(401).json({ error: 'Account no longer exists' });
+      return;
+    }
+    res.json({ id: user.id, username: user.username, isAdmin: user.isAdmin });
+  });
+
+  return router;
+}
@@ -0,0 +1,38 @@
+import express from 'express';
+import type { WatchedItemStore } from '../watchedStore.ts';
+import type { WatchEventStore } from '../watchEventStore.ts';
+import type { DiaryEntry, WatchedItem } from '../types.ts';
+import { getUserId } from './auth.ts';
+import { dateRangeQuery } from './params.ts';
+import { validated } from './validate.ts';
+
+// The diary page asks for a year at a time
+const MAX_DIARY_RANGE_DAYS = 366;
+
+// Mounted at /api/diary
+export function createDiaryRouter(watchEventStore: WatchEventStore, watchedStore: WatchedItemStore): express.Router {
+  const router = express.Router();
+
+  // Every viewing in the range, most recent first, with the item it was of
+  router.get('/', validated({ query: dateRangeQuery(MAX_DIARY_RANGE_DAYS) }, async ({ query: range }, _req, res) => {
+    const userId = getUserId(res);
+    const events = await watchEventStore.list(userId, range.from, range.to);
+
+    const items = new Map<string, WatchedItem>();
+    for (const category of new Set(events.map((event) => event.category))) {
+      for (const item of await watchedStore.list(userId, category)) {
+        items.set(`${category}:${item.id}`, item);
+      }
+    }
+
+    const entries: DiaryEntry[] = [];
+    for (const event of events) {
+      const item = items.get(`${event.category}:${event.itemId}`);
+      if (!item) continue;
+      entries.push({ ...event, title: item.title, subtitle: item.subtitle, imageUrl: item.imageUrl, rating: item.rating });
+    }
+    res.json(entries);
+  }));
+
+  return router;
+}
@@ -0,0 +1,25 @@
+import express from 'express';
+import type { DismissedCardStore } from '../dismissedStore.ts';
+import { dismissParams } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { validated } from './validate.ts';
+
+const categoryParams = dismissParams.pick({ category: true });
+
+// Mounted at /api/dismissed
+export function createDismissedRouter(dismissedStore: DismissedCardStore): express.Router {
+  const router = express.Router();
+
+  router.get('/:category', validated({ params: categoryParams }, async ({ params }, _req, res) => {
+    const ids = await dismissedStore.list(getUserId(res), params.category);
+    res.json(ids);
+  }));
+
+  router.post('/:category/:itemId', validated({ params: dismissParams }, async ({ params: { category, itemId } }, _req, res) => {
+    await dismissedStore.dismiss(getUserId(res), category, itemId);
+    const ids = await dismissedStore.list(getUserId(res), category);
+    res.json(ids);
+  }));
+
+  return router;
+}
@@ -0,0 +1,31 @@
+import express from 'express';
+import type { FeedContext } from '../feeds.ts';
+import type { DismissedCardStore } from '../dismissedStore.ts';
+import { todayUTC } from '../dates.ts';
+import { getUserId } from './auth.ts';
+import { dateRangeQuery } from './params.ts';
+import { validated } from './validate.ts';
+
+// The SPA sends the user's local calendar date; without one, today in UTC is used
+const MAX_GAMING_RANGE_DAYS = 7;
+
+// Mounted at /api/gaming
+export function createGamingRouter(feeds: FeedContext, dismissedStore: DismissedCardStore): express.Router {
+  const router = express.Router();
+
+  router.get('/releases', validated({ query: dateRangeQuery(MAX_GAMING_RANGE_DAYS, todayUTC) }, async ({ query: range }, _req, res) => {
+    try {
+      const snapshot = await feeds.reader.read(feeds.sources.games(range.from, range.to), feeds.maxAge.games);
+      const dismissedGames = new Set(await dismissedStore.list(getUserId(res), 'game'));
+      const items = snapshot.data.items.filter((g) => !dismissedGames.has(String(g.id)));
+      res.json({ items, issues: snapshot.data.issues, lastUpdated: snapshot.lastUpdated });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching releases:', message);
+      console.error(err);
+      res.status(500).json({ error: 'Failed to fetch game releases' });
+    }
+  }));
+
+  return router;
+}
@@ -0,0 +1,156 @@
+import express from 'express';
+import multer from 'multer';
+import { searchMovies, searchTV, fetchMovieDirector } from '../tmdb.ts';
+import { searchAlbums } from '../lastfm.ts';
+import { searchBooks } from '../openlibrary.ts';
+import { parseExport } from '../importParsers.ts';
+import { matchEntries, MAX_IMPORT_ENTRIES } from '../importMatch.ts';
+import type { ImportSearchers } from '../importMatch.ts';
+import type { WatchedItemStore } from '../watchedStore.ts';
+import type { WatchEventStore } from '../watchEventStore.ts';
+import type { ImportPreview, ImportResult, ImportSource, WatchedCategory, WatchedItem } from '../types.ts';
+import { importCommitBody, importMatchBody, importParams } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { validated } from './validate.ts';
+
+interface ImportRouterOptions {
+  watchedStore: WatchedItemStore;
+  watchEventStore: WatchEventStore;
+  // Titles are matched with the tracker's own searches, so a source is only
+  // offered when the provider for its categories is configured
+  tmdbApiKey?: string;
+  lastfmApiKey?: string;
+}
+
+const SOURCES: Record<ImportSource, { label: string; categories: WatchedCategory[] }> = {
+  letterboxd: { label: 'Letterboxd', categories: ['movie'] },
+  goodreads: { label: 'Goodreads', categories: ['book'] },
+  trakt: { label: 'Trakt', categories: ['movie', 'tv'] },
+  lastfm: { label: 'Last.fm', categories: ['album'] },
+};
+
+const MAX_EXPORT_BYTES = 20 * 1024 * 1024;
+
+// Mounted at /api/import
+export function createImportRouter({ watchedStore, watchEventStore, tmdbApiKey, lastfmApiKey }: ImportRouterOptions): express.Router {
+  const router = express.Router();
+
+  const searchers: ImportSearchers = {
+    book: async (q) => (await searchBooks(q)).map((b) => ({ ...b, year: b.releaseDate || null })),
+  };
+  if (tmdbApiKey) {
+    searchers.movie = async (q) => (await searchMovies(tmdbApiKey, q)).map((m) => ({
+      id: String(m.id),
+      title: m.title,
+      subtitle: m.releaseDate ?? '',
+      imageUrl: m.posterUrl,
+      year: m.releaseDate?.slice(0, 4) || null,
+    }));
+    searchers.tv = async (q) => (await searchTV(tmdbApiKey, q)).map((s) => ({ ...s, id: String(s.id), year: s.subtitle || null }));
+  }
+  if (lastfmApiKey) {
+    searchers.album = async (q) => (await searchAlbums(lastfmApiKey, q)).map((a) => ({ ...a, year: null }));
+  }
+
+  const uploadExport = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_EXPORT_BYTES } }).single('file');
+
+  // Reads the upload, answering 413 itself when it's too big
+  const receiveExport: express.RequestHandler = (req, res, next) => {
+    uploadExport(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        res.status(413).json({ error: `Exports are limited to ${MAX_EXPORT_BYTES / 1024 / 1024} MB` });
+        return;
+      }
+      next(err);
+    });
+  };
+
+  // Parses an export and matches each title, without saving anything
+  router.post('/:source/preview', receiveExport, validated({ params: importParams }, async ({ params }, req, res) => {
+    const source = SOURCES[params.source];
+    const missing = source.categories.filter((category) => !searchers[category]);
+    if (missing.length > 0) {
+      res.status(404).json({ error: `Importing from ${source.label} needs ${missing.join(' and ')} search, which isn't configured` });
+      return;
+    }
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    const parsed = parseExport(params.source, req.file.buffer.toString('utf-8'));
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const entries = parsed.entries.slice(0, MAX_IMPORT_ENTRIES);
+      const preview: ImportPreview = {
+        source: params.source,
+        matches: await matchEntries(entries, searchers),
+        leftOut: parsed.entries.length - entries.length,
+      };
+      res.json(preview);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error matching import:', message);
+      res.status(500).json({ error: 'Failed to match the export' });
+    }
+  }));
+
+  // Searches again for preview entries whose search failed
+  router.post('/match', validated({ body: importMatchBody }, async ({ body }, _req, res) => {
+    const missing = [...new Set(body.entries.map((entry) => entry.category))].filter((category) => !searchers[category]);
+    if (missing.length > 0) {
+      res.status(404).json({ error: `${missing.join(' and ')} search isn't configured` });
+      return;
+    }
+    res.json(await matchEntries(body.entries, searchers));
+  }));
+
+  // Saves the items the user kept from a preview. Anything already tracked is
+  // left alone, so committing the same batch twice is harmless.
+  router.post('/commit', validated({ body: importCommitBody }, async ({ body }, _req, res) => {
+    const userId = getUserId(res);
+    const tracked = new Set<string>();
+    for (const item of await watchedStore.listBacklog(userId)) tracked.add(`want_to:${item.category}:${item.id}`);
+    const logged = new Map<string, Set<string>>();
+    const isLogged = async (category: string, id: string) => {
+      if (!logged.has(category)) logged.set(category, new Set((await watchedStore.list(userId, category)).map((item) => item.id)));
+      return logged.get(category)!.has(id);
+    };
+
+    const result: ImportResult = { imported: 0, skipped: 0 };
+    for (const { viewings, ...fields } of body.items) {
+      const saved = tracked.has(`want_to:${fields.category}:${fields.id}`);
+      if (await isLogged(fields.category, fields.id) || (fields.status === 'want_to' && saved)) {
+        result.skipped++;
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const first = viewings.map((v) => v.date).sort()[0];
+      const doneAt = first ? `${first}T00:00:00.000Z` : now;
+      const item: WatchedItem = { ...fields, addedAt: doneAt, director: null };
+      if (item.category === 'movie' && tmdbApiKey) {
+        item.director = await fetchMovieDirector(tmdbApiKey, item.id).catch(() => null);
+      }
+
+      await watchedStore.insert(userId, item);
+      if (saved) await watchedStore.markDone(userId, item.category, item.id, doneAt);
+      if (item.rating !== null) await watchedStore.updateRating(userId, item.category, item.id, item.rating);
+      if (item.review !== null) await watchedStore.updateReview(userId, item.category, item.id, item.review);
+      if (item.status === 'done') {
+        for (const viewing of viewings) {
+          await watchEventStore.add(userId, { category: item.category, itemId: item.id, ...viewing, notes: '', createdAt: now });
+        }
+        logged.get(item.category)?.add(item.id);
+      }
+      result.imported++;
+    }
+    res.json(result);
+  }));
+
+  return router;
+}
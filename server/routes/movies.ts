@@ -0,0 +1,52 @@
+import express from 'express';
+import { fetchDirectorFilmography } from '../tmdb.ts';
+import type { FeedContext } from '../feeds.ts';
+import type { DismissedCardStore } from '../dismissedStore.ts';
+import { directorParams } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { releaseFridayQuery } from './params.ts';
+import { validated } from './validate.ts';
+
+// Mounted at /api/movies
+export function createMoviesRouter(tmdbApiKey: string, feeds: FeedContext, dismissedStore: DismissedCardStore): express.Router {
+  const router = express.Router();
+
+  router.get('/upcoming', validated({ query: releaseFridayQuery }, async ({ query: target }, _req, res) => {
+    try {
+      const snapshot = await feeds.reader.read(feeds.sources.movies(target.friday), feeds.maxAge.movies);
+      const dismissedMovies = new Set(await dismissedStore.list(getUserId(res), 'movie'));
+      const items = snapshot.data.items.filter((m) => !dismissedMovies.has(String(m.id)));
+      res.json({ items, issues: snapshot.data.issues, lastUpdated: snapshot.lastUpdated });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching movies:', message);
+      res.status(500).json({ error: 'Failed to fetch movie releases' });
+    }
+  }));
+
+  router.get('/now-playing', async (_req, res) => {
+    try {
+      const snapshot = await feeds.reader.read(feeds.sources.nowPlaying(), feeds.maxAge.nowPlaying);
+      const dismissedMovies = new Set(await dismissedStore.list(getUserId(res), 'movie'));
+      const items = snapshot.data.items.filter((m) => !dismissedMovies.has(String(m.id)));
+      res.json({ items, issues: snapshot.data.issues, lastUpdated: snapshot.lastUpdated });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching now-playing movies:', message);
+      res.status(500).json({ error: 'Failed to fetch now-playing movies' });
+    }
+  });
+
+  router.get('/director/:personId/filmography', validated({ params: directorParams }, async ({ params }, _req, res) => {
+    try {
+      const films = await fetchDirectorFilmography(tmdbApiKey, params.personId);
+      res.json(films);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching filmography:', message);
+      res.status(500).json({ error: 'Failed to fetch filmography' });
+    }
+  }));
+
+  return router;
+}
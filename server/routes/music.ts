@@ -0,0 +1,75 @@
+import express from 'express';
+import { ensureValidToken, fetchSpotifyArtistNames, isAuthenticated } from '../spotify.ts';
+import type { FeedContext } from '../feeds.ts';
+import type { DismissedCardStore } from '../dismissedStore.ts';
+import { getUserId } from './auth.ts';
+import { releaseFridayQuery } from './params.ts';
+import { validated } from './validate.ts';
+
+interface MusicRouterOptions {
+  feeds: FeedContext;
+  dismissedStore: DismissedCardStore;
+  // Charts are only served with a Last.fm key
+  lastfmApiKey?: string;
+  // Highlights albums by artists in the user's library once they've connected
+  spotify?: { clientId: string; clientSecret: string };
+}
+
+// Mounted at /api/music
+export function createMusicRouter({ feeds, dismissedStore, lastfmApiKey, spotify }: MusicRouterOptions): express.Router {
+  const router = express.Router();
+
+  if (lastfmApiKey) {
+    router.get('/charts', async (_req, res) => {
+      try {
+        const snapshot = await feeds.reader.read(feeds.sources.charts(), feeds.maxAge.charts);
+        res.json({ ...snapshot.data, lastUpdated: snapshot.lastUpdated });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('Error fetching charts:', message);
+        res.status(500).json({ error: 'Failed to fetch top charts' });
+      }
+    });
+  }
+
+  router.get('/upcoming', validated({ query: releaseFridayQuery }, async ({ query: target }, _req, res) => {
+    try {
+      const snapshot = await feeds.reader.read(feeds.sources.albums(target.friday), feeds.maxAge.albums);
+      let albums = snapshot.data.items;
+      const issues = [...snapshot.data.issues];
+
+      // Tag albums from Spotify library
+      if (!spotify) {
+        issues.push({ step: 'spotify-library', status: 'skipped', message: 'Spotify not configured; library artists are not highlighted' });
+      } else if (!await isAuthenticated(getUserId(res))) {
+        issues.push({ step: 'spotify-library', status: 'skipped', message: 'Spotify not connected; library artists are not highlighted' });
+      } else {
+        try {
+          const accessToken = await ensureValidToken(spotify.clientId, spotify.clientSecret, getUserId(res));
+          const spotifyArtists = await fetchSpotifyArtistNames(accessToken);
+          console.log(`Got ${spotifyArtists.size} unique artists from Spotify`);
+
+          // Tagged on copies: the snapshot's items are shared by every user
+          albums = albums.map((album) => ({
+            ...album,
+            inSpotifyLibrary: album.artist.split(',').some((part) => spotifyArtists.has(part.trim().toLowerCase())),
+          }));
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error('Spotify artist fetch error:', message);
+          issues.push({ step: 'spotify-library', status: 'failed', message: `Couldn't load your Spotify library: ${message}` });
+        }
+      }
+
+      const dismissedAlbums = new Set(await dismissedStore.list(getUserId(res), 'album'));
+      const items = albums.filter((a) => !dismissedAlbums.has(String(a.id)));
+      res.json({ items, issues, lastUpdated: snapshot.lastUpdated });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching albums:', message);
+      res.status(500).json({ error: 'Failed to fetch album releases' });
+    }
+  }));
+
+  return router;
+}
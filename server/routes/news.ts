@@ -0,0 +1,20 @@
+import express from 'express';
+import type { FeedContext } from '../feeds.ts';
+
+// Mounted at /api/news
+export function createNewsRouter(feeds: FeedContext): express.Router {
+  const router = express.Router();
+
+  router.get('/', async (_req, res) => {
+    try {
+      const snapshot = await feeds.reader.read(feeds.sources.news(), feeds.maxAge.news);
+      res.json({ items: snapshot.data.items.slice(0, 100), issues: snapshot.data.issues, lastUpdated: snapshot.lastUpdated });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching news:', message);
+      res.status(500).json({ error: 'Failed to fetch news feeds' });
+    }
+  });
+
+  return router;
+}
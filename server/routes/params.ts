@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { getReleaseWeek } from '../tmdb.ts';
+import { isISODate, isFriday, parseDateRange } from '../dates.ts';
+
+// How far either side of the current week ?week= may reach
+const MAX_WEEK_OFFSET = 104;
+
+// Resolves ?friday=YYYY-MM-DD or ?week=<offset from this week> to a release
+// Friday, defaulting to the current week's
+export function parseReleaseFriday(query: Record<string, unknown>): { friday: string } | { error: string } {
+  const { friday, week } = query;
+  if (friday !== undefined && week !== undefined) {
+    return { error: 'Pass either friday or week, not both' };
+  }
+  if (friday !== undefined) {
+    if (!isISODate(friday) || !isFriday(friday)) return { error: 'friday must be a Friday in YYYY-MM-DD format' };
+    return { friday };
+  }
+  const offset = week === undefined ? 0 : Number(week);
+  if (!Number.isInteger(offset) || Math.abs(offset) > MAX_WEEK_OFFSET) {
+    return { error: `week must be a whole number between -${MAX_WEEK_OFFSET} and ${MAX_WEEK_OFFSET}` };
+  }
+  return { friday: getReleaseWeek(new Date(), offset).friday };
+}
+
+// Query schemas for the two parsers above, for use with validated()
+
+export const releaseFridayQuery = z.looseObject({}).transform((query, ctx) => {
+  const target = parseReleaseFriday(query);
+  if ('error' in target) {
+    ctx.addIssue({ code: 'custom', message: target.error });
+    return z.NEVER;
+  }
+  return target;
+});
+
+// fallback is called per request, so a default of "today" stays current
+export function dateRangeQuery(maxDays: number, fallback?: () => string) {
+  return z.looseObject({}).transform((query, ctx) => {
+    const range = parseDateRange(query, maxDays, fallback?.());
+    if ('error' in range) {
+      ctx.addIssue({ code: 'custom', message: range.error });
+      return z.NEVER;
+    }
+    return range;
+  });
+}
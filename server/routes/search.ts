@@ -0,0 +1,82 @@
+import express from 'express';
+import { searchGames } from '../igdb.ts';
+import { searchMovies, searchTV } from '../tmdb.ts';
+import { searchAlbums } from '../lastfm.ts';
+import { searchBooks } from '../openlibrary.ts';
+import { searchQuery } from '../../shared/schemas.ts';
+import { validated } from './validate.ts';
+
+interface SearchRouterOptions {
+  // Searches are only served for providers that are configured
+  twitch?: { clientId: string; clientSecret: string };
+  tmdbApiKey?: string;
+  lastfmApiKey?: string;
+}
+
+// Mounted at /api: search for items to add to the tracker
+export function createSearchRouter({ twitch, tmdbApiKey, lastfmApiKey }: SearchRouterOptions): express.Router {
+  const router = express.Router();
+
+  if (tmdbApiKey) {
+    router.get('/movies/search', validated({ query: searchQuery }, async ({ query: { q } }, _req, res) => {
+      try {
+        const results = await searchMovies(tmdbApiKey, q);
+        res.json(results);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('Error searching movies:', message);
+        res.status(500).json({ error: 'Failed to search movies' });
+      }
+    }));
+
+    router.get('/tv/search', validated({ query: searchQuery }, async ({ query: { q } }, _req, res) => {
+      try {
+        const results = await searchTV(tmdbApiKey, q);
+        res.json(results);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('Error searching TV shows:', message);
+        res.status(500).json({ error: 'Failed to search TV shows' });
+      }
+    }));
+  }
+
+  if (lastfmApiKey) {
+    router.get('/albums/search', validated({ query: searchQuery }, async ({ query: { q } }, _req, res) => {
+      try {
+        const results = await searchAlbums(lastfmApiKey, q);
+        res.json(results);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('Error searching albums:', message);
+        res.status(500).json({ error: 'Failed to search albums' });
+      }
+    }));
+  }
+
+  router.get('/books/search', validated({ query: searchQuery }, async ({ query: { q } }, _req, res) => {
+    try {
+      const results = await searchBooks(q);
+      res.json(results);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error searching books:', message);
+      res.status(500).json({ error: 'Failed to search books' });
+    }
+  }));
+
+  if (twitch) {
+    router.get('/games/search', validated({ query: searchQuery }, async ({ query: { q } }, _req, res) => {
+      try {
+        const results = await searchGames(twitch.clientId, twitch.clientSecret, q);
+        res.json(results);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('Error searching games:', message);
+        res.status(500).json({ error: 'Failed to search games' });
+      }
+    }));
+  }
+
+  return router;
+}
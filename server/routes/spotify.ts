@@ -0,0 +1,108 @@
+import express from 'express';
+import type { Request } from 'express';
+import {
+  beginAuth,
+  consumeAuthState,
+  AUTH_STATE_TTL,
+  exchangeCodeForTokens,
+  isAuthenticated,
+  clearTokens,
+  fetchArtistTopPreview,
+} from '../spotify.ts';
+import { previewQuery, spotifyCallbackQuery } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { validated } from './validate.ts';
+
+const SPOTIFY_NONCE_COOKIE = 'spotify_oauth_nonce';
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return undefined;
+}
+
+interface SpotifyRouterOptions {
+  spotify?: { clientId: string; clientSecret: string };
+  frontendUrl?: string;
+  production: boolean;
+}
+
+// Mounted at /api/spotify. Previews come from iTunes, so they work without
+// Spotify credentials; connecting an account doesn't.
+export function createSpotifyRouter({ spotify, frontendUrl = 'http://127.0.0.1:5173', production }: SpotifyRouterOptions): express.Router {
+  const router = express.Router();
+
+  router.post('/login', (_req, res) => {
+    if (!spotify) {
+      res.status(404).json({ error: 'Spotify is not configured' });
+      return;
+    }
+    const { url, nonce } = beginAuth(spotify.clientId, getUserId(res));
+    res.cookie(SPOTIFY_NONCE_COOKIE, nonce, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: production,
+      path: '/api/spotify',
+      maxAge: AUTH_STATE_TTL,
+    });
+    res.json({ url });
+  });
+
+  router.get('/callback', validated({ query: spotifyCallbackQuery }, async ({ query: { code, state, error } }, req, res) => {
+    if (!spotify) {
+      res.status(404).json({ error: 'Spotify is not configured' });
+      return;
+    }
+
+    res.clearCookie(SPOTIFY_NONCE_COOKIE, { path: '/api/spotify' });
+    const userId = state ? consumeAuthState(state, readCookie(req, SPOTIFY_NONCE_COOKIE)) : null;
+
+    if (error) {
+      console.error('Spotify auth error:', error);
+      res.redirect(`${frontendUrl}/music`);
+      return;
+    }
+
+    if (!code || userId === null) {
+      res.status(400).json({ error: 'Invalid or expired callback parameters' });
+      return;
+    }
+
+    try {
+      await exchangeCodeForTokens(spotify.clientId, spotify.clientSecret, code, userId);
+      res.redirect(`${frontendUrl}/music`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Spotify token exchange error:', message);
+      res.status(500).json({ error: 'Failed to authenticate with Spotify' });
+    }
+  }));
+
+  router.get('/status', async (_req, res) => {
+    res.json({ authenticated: spotify ? await isAuthenticated(getUserId(res)) : false });
+  });
+
+  router.post('/logout', async (_req, res) => {
+    await clearTokens(getUserId(res));
+    res.json({ success: true });
+  });
+
+  router.get('/preview', validated({ query: previewQuery }, async ({ query: { artist } }, _req, res) => {
+    try {
+      const result = await fetchArtistTopPreview(artist);
+      if (!result) {
+        res.json({ error: 'No preview available' });
+        return;
+      }
+      res.json(result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Preview fetch error:', message);
+      res.status(500).json({ error: 'Failed to fetch preview' });
+    }
+  }));
+
+  return router;
+}
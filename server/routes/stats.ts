@@ -0,0 +1,45 @@
+import express from 'express';
+import type { WatchedItemStore } from '../watchedStore.ts';
+import type { WatchEventStore } from '../watchEventStore.ts';
+import type { WatchedStats } from '../types.ts';
+import { computeWatchedStats } from '../stats.ts';
+import { renderYearInReviewCard } from '../yearInReview.ts';
+import { statsQuery, WATCHED_CATEGORIES } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { validated } from './validate.ts';
+
+// Every viewing ever logged; the per-year totals need them all
+const ALL_TIME = { from: '0000-01-01', to: '9999-12-31' };
+
+// Mounted at /api/stats
+export function createStatsRouter(watchEventStore: WatchEventStore, watchedStore: WatchedItemStore): express.Router {
+  const router = express.Router();
+
+  async function statsFor(userId: number, year: number | undefined): Promise<WatchedStats> {
+    const [events, ...logs] = await Promise.all([
+      watchEventStore.list(userId, ALL_TIME.from, ALL_TIME.to),
+      ...WATCHED_CATEGORIES.map((category) => watchedStore.list(userId, category)),
+    ]);
+    return computeWatchedStats(year ?? new Date().getUTCFullYear(), logs.flat(), events);
+  }
+
+  router.get('/', validated({ query: statsQuery }, async ({ query }, _req, res) => {
+    res.json(await statsFor(getUserId(res), query.year));
+  }));
+
+  // The year in review as a PNG to share
+  router.get('/card.png', validated({ query: statsQuery }, async ({ query }, _req, res) => {
+    try {
+      const stats = await statsFor(getUserId(res), query.year);
+      const png = await renderYearInReviewCard(stats);
+      res.set('Cache-Control', 'no-store');
+      res.type('png').send(png);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error rendering year in review:', message);
+      res.status(500).json({ error: 'Failed to render the year in review' });
+    }
+  }));
+
+  return router;
+}
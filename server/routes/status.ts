@@ -0,0 +1,39 @@
+import express from 'express';
+import type { Config } from '../config.ts';
+import { providerHealth } from '../providerHealth.ts';
+import { newsProviders } from '../news.ts';
+
+// Mounted at /api: upstream health and which features are switched on
+export function createStatusRouter(config: Config): express.Router {
+  const router = express.Router();
+
+  // Whether each provider has the credentials it needs; the rest need none
+  const PROVIDER_CONFIGURED: Record<string, boolean> = {
+    'IGDB': Boolean(config.twitch),
+    'Twitch OAuth': Boolean(config.twitch),
+    'Steam': Boolean(config.twitch),
+    'TMDB': Boolean(config.tmdbApiKey),
+    'MusicBrainz': true,
+    'Last.fm': Boolean(config.lastfmApiKey),
+    'iTunes': true,
+    'OpenLibrary': true,
+    'OpenWeather': Boolean(config.openweatherApiKey),
+    'Spotify': Boolean(config.spotify),
+    ...Object.fromEntries(newsProviders().map((name) => [name, config.features.news.enabled])),
+  };
+
+  router.get('/status', (_req, res) => {
+    const providers = providerHealth(Object.keys(PROVIDER_CONFIGURED)).map((health) => ({
+      ...health,
+      configured: PROVIDER_CONFIGURED[health.provider] ?? true,
+    }));
+    res.json({ checkedAt: new Date().toISOString(), providers });
+  });
+
+  // The SPA hides pages and widgets whose feature is off
+  router.get('/features', (_req, res) => {
+    res.json(config.features);
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+import type { Request, Response, RequestHandler } from 'express';
+import type { z } from 'zod';
+import type { ApiError, ValidationIssue } from '../types.ts';
+
+interface RequestSchemas {
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+}
+
+// What each schema parsed its part of the request into
+type ValidatedInput<S extends RequestSchemas> = {
+  [K in keyof S]: S[K] extends z.ZodType ? z.output<S[K]> : never;
+};
+
+const LOCATIONS = ['params', 'query', 'body'] as const;
+
+// Wraps a route handler so it only runs once params, query and body match
+// their schemas. Anything that doesn't gets a 400 listing every issue.
+export function validated<S extends RequestSchemas>(
+  schemas: S,
+  handler: (input: ValidatedInput<S>, req: Request, res: Response) => unknown,
+): RequestHandler {
+  return async (req, res) => {
+    const input: Record<string, unknown> = {};
+    const issues: ValidationIssue[] = [];
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+      // A request without a JSON body is checked as an empty one
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        input[location] = result.data;
+      } else {
+        issues.push(...result.error.issues.map((issue) => ({ location, path: issue.path.join('.'), message: issue.message })));
+      }
+    }
+    if (issues.length > 0) {
+      const summary = issues.map((issue) => issue.path ? `${issue.path}: ${issue.message}` : issue.message).join('; ');
+      const response: ApiError = { error: `Invalid request (${summary})`, issues };
+      res.status(400).json(response);
+      return;
+    }
+    await handler(input as ValidatedInput<S>, req, res);
+  };
+}
@@ -0,0 +1,251 @@
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import multer from 'multer';
+import sharp from 'sharp';
+import { fetchMovieDirector } from '../tmdb.ts';
+import type { WatchedItem, WatchedStatus } from '../types.ts';
+import type { WatchedItemStore } from '../watchedStore.ts';
+import type { WatchEventStore } from '../watchEventStore.ts';
+import { todayUTC } from '../dates.ts';
+import { LEGACY_OWNER_ID } from '../userStore.ts';
+import {
+  addWatchedItemBody,
+  markDoneBody,
+  ratingBody,
+  reviewBody,
+  watchedCategoryParams,
+  watchedItemParams,
+  watchEventBody,
+  watchEventParams,
+} from '../../shared/schemas.ts';
+import type { AddWatchedItem } from '../../shared/schemas.ts';
+import { getUserId } from './auth.ts';
+import { validated } from './validate.ts';
+
+interface WatchedRouterOptions {
+  watchedStore: WatchedItemStore;
+  // When each logged item was consumed
+  watchEventStore: WatchEventStore;
+  // Uploaded covers are written here and served from /api/covers
+  coversDir: string;
+  // Looks up the director of movies as they're added
+  tmdbApiKey?: string;
+}
+
+// Mounted at /api/watched
+export function createWatchedRouter({ watchedStore, watchEventStore, coversDir, tmdbApiKey }: WatchedRouterOptions): express.Router {
+  const router = express.Router();
+
+  if (!fs.existsSync(coversDir)) fs.mkdirSync(coversDir, { recursive: true });
+
+  const coverStorage = multer.diskStorage({
+    destination: (_req, _file, cb) => cb(null, coversDir),
+    // Temporary name; the cover route renames it once the owner is known
+    filename: (_req, file, cb) => {
+      const ext = path.extname(file.originalname) || '.jpg';
+      cb(null, `upload-${randomBytes(8).toString('hex')}${ext}`);
+    },
+  });
+  const uploadCover = multer({ storage: coverStorage, limits: { fileSize: 5 * 1024 * 1024 } });
+
+  // Covers uploaded before multi-user accounts were named without the owner's id
+  function coverPrefixes(userId: number, category: string, id: string): string[] {
+    const prefix = `${userId}-${category}-${id}`;
+    return userId === LEGACY_OWNER_ID ? [prefix, `${category}-${id}`] : [prefix];
+  }
+
+  function removeCoversForItem(userId: number, category: string, id: string): void {
+    const prefixes = coverPrefixes(userId, category, id);
+    try {
+      for (const file of fs.readdirSync(coversDir)) {
+        const name = path.parse(file).name;
+        if (prefixes.includes(name)) {
+          fs.unlinkSync(path.join(coversDir, file));
+        }
+      }
+    } catch { /* ignore */ }
+  }
+
+  async function addItem(userId: number, category: string, body: AddWatchedItem, status: WatchedStatus): Promise<void> {
+    const item: WatchedItem = {
+      id: body.id,
+      title: body.title,
+      subtitle: body.subtitle,
+      imageUrl: body.imageUrl,
+      category,
+      addedAt: new Date().toISOString(),
+      rating: null,
+      review: null,
+      director: null,
+      status,
+    };
+
+    if (category === 'movie' && tmdbApiKey) {
+      item.director = await fetchMovieDirector(tmdbApiKey, item.id).catch(() => null);
+    }
+
+    await watchedStore.insert(userId, item);
+  }
+
+  // The first viewing, recorded as an item enters the log. Dates default to today.
+  async function logFirstViewing(userId: number, category: string, itemId: string, watchedOn: string | undefined): Promise<void> {
+    await watchEventStore.add(userId, {
+      category,
+      itemId,
+      date: watchedOn ?? todayUTC(),
+      notes: '',
+      rewatch: false,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async function isLogged(userId: number, category: string, itemId: string): Promise<boolean> {
+    return (await watchedStore.list(userId, category)).some((item) => item.id === itemId);
+  }
+
+  // --- Backlog: things saved for later ---
+  // Registered first so /backlog isn't read as a category
+
+  router.get('/backlog', async (_req, res) => {
+    res.json(await watchedStore.listBacklog(getUserId(res)));
+  });
+
+  router.post('/backlog/:category', validated({ params: watchedCategoryParams, body: addWatchedItemBody }, async ({ params, body }, _req, res) => {
+    await addItem(getUserId(res), params.category, body, 'want_to');
+    res.json(await watchedStore.listBacklog(getUserId(res)));
+  }));
+
+  router.post('/backlog/:category/:id/done', validated({ params: watchedItemParams, body: markDoneBody }, async ({ params, body }, _req, res) => {
+    const userId = getUserId(res);
+    const { category, id } = params;
+    const backlog = await watchedStore.listBacklog(userId);
+    if (backlog.some((item) => item.category === category && item.id === id)) {
+      await watchedStore.markDone(userId, category, id, new Date().toISOString());
+      await logFirstViewing(userId, category, id, body.watchedOn);
+    }
+    res.json(await watchedStore.listBacklog(userId));
+  }));
+
+  router.delete('/backlog/:category/:id', validated({ params: watchedItemParams }, async ({ params }, _req, res) => {
+    const { category, id } = params;
+    removeCoversForItem(getUserId(res), category, id);
+    await watchedStore.remove(getUserId(res), category, id);
+    await watchEventStore.removeForItem(getUserId(res), category, id);
+    res.json(await watchedStore.listBacklog(getUserId(res)));
+  }));
+
+  // --- The log ---
+
+  router.get('/:category', validated({ params: watchedCategoryParams }, async ({ params }, _req, res) => {
+    res.json(await watchedStore.list(getUserId(res), params.category));
+  }));
+
+  // Logging something that's in the backlog moves it across. Logging it again
+  // is a no-op; later viewings go through /:category/:id/events.
+  router.post('/:category', validated({ params: watchedCategoryParams, body: addWatchedItemBody }, async ({ params, body }, _req, res) => {
+    const userId = getUserId(res);
+    const { category } = params;
+    const logged = await isLogged(userId, category, body.id);
+    await addItem(userId, category, body, 'done');
+    await watchedStore.markDone(userId, category, body.id, new Date().toISOString());
+    if (!logged) await logFirstViewing(userId, category, body.id, body.watchedOn);
+    res.json(await watchedStore.list(userId, category));
+  }));
+
+  router.delete('/:category/:id', validated({ params: watchedItemParams }, async ({ params }, _req, res) => {
+    const { category, id } = params;
+
+    removeCoversForItem(getUserId(res), category, id);
+
+    await watchedStore.remove(getUserId(res), category, id);
+    await watchEventStore.removeForItem(getUserId(res), category, id);
+    res.json(await watchedStore.list(getUserId(res), category));
+  }));
+
+  // --- Viewings of a logged item, most recent first ---
+
+  router.get('/:category/:id/events', validated({ params: watchedItemParams }, async ({ params }, _req, res) => {
+    res.json(await watchEventStore.listForItem(getUserId(res), params.category, params.id));
+  }));
+
+  router.post('/:category/:id/events', validated({ params: watchedItemParams, body: watchEventBody }, async ({ params, body }, _req, res) => {
+    const userId = getUserId(res);
+    const { category, id } = params;
+    if (!(await isLogged(userId, category, id))) {
+      res.status(404).json({ error: 'Item is not in the log' });
+      return;
+    }
+    await watchEventStore.add(userId, { category, itemId: id, ...body, createdAt: new Date().toISOString() });
+    res.json(await watchEventStore.listForItem(userId, category, id));
+  }));
+
+  router.delete('/:category/:id/events/:eventId', validated({ params: watchEventParams }, async ({ params }, _req, res) => {
+    const { category, id, eventId } = params;
+    await watchEventStore.remove(getUserId(res), category, id, eventId);
+    res.json(await watchEventStore.listForItem(getUserId(res), category, id));
+  }));
+
+  router.patch('/:category/:id/rating', validated({ params: watchedItemParams, body: ratingBody }, async ({ params, body }, _req, res) => {
+    const { category, id } = params;
+    await watchedStore.updateRating(getUserId(res), category, id, body.rating);
+    res.json(await watchedStore.list(getUserId(res), category));
+  }));
+
+  router.put('/:category/:id/review', validated({ params: watchedItemParams, body: reviewBody }, async ({ params, body }, _req, res) => {
+    const { category, id } = params;
+    await watchedStore.updateReview(getUserId(res), category, id, body.review);
+    res.json(await watchedStore.list(getUserId(res), category));
+  }));
+
+  router.post('/:category/:id/cover', uploadCover.single('cover'), validated({ params: watchedItemParams }, async ({ params }, req, res) => {
+    const { category, id } = params;
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    // Resize to optimized JPEG: 600px wide for posters, 600px square for albums
+    const prefixes = coverPrefixes(getUserId(res), category, id);
+    const prefix = prefixes[0];
+    const optimizedName = `${prefix}.jpg`;
+    const optimizedPath = path.join(coversDir, optimizedName);
+    const uploadedPath = req.file.path;
+
+    try {
+      const width = category === 'album' ? 600 : 400;
+      await sharp(uploadedPath)
+        .resize(width, undefined, { withoutEnlargement: true })
+        .jpeg({ quality: 85 })
+        .toFile(optimizedPath === uploadedPath ? uploadedPath + '.tmp' : optimizedPath);
+
+      // If the uploaded file had a different name/extension, clean it up
+      if (uploadedPath !== optimizedPath) {
+        fs.unlinkSync(uploadedPath);
+      } else {
+        // sharp can't overwrite in place, so we wrote to .tmp
+        fs.renameSync(uploadedPath + '.tmp', optimizedPath);
+      }
+    } catch {
+      // Fallback: keep the original uploaded file as-is
+      if (req.file.filename !== optimizedName) {
+        fs.renameSync(uploadedPath, optimizedPath);
+      }
+    }
+
+    // Remove old cover files with different extensions
+    for (const file of fs.readdirSync(coversDir)) {
+      if (prefixes.includes(path.parse(file).name) && file !== optimizedName) {
+        fs.unlinkSync(path.join(coversDir, file));
+      }
+    }
+
+    const imageUrl = `/api/covers/${optimizedName}`;
+
+    await watchedStore.updateImageUrl(getUserId(res), category, id, imageUrl);
+    res.json(await watchedStore.list(getUserId(res), category));
+  }));
+
+  return router;
+}
@@ -0,0 +1,32 @@
+import express from 'express';
+import { httpFetch } from '../http.ts';
+import { forecastQuery } from '../../shared/schemas.ts';
+import { validated } from './validate.ts';
+
+// Mounted at /api/weather
+export function createWeatherRouter(openweatherApiKey: string): express.Router {
+  const router = express.Router();
+
+  router.get('/forecast', validated({ query: forecastQuery }, async ({ query: { lat, lon } }, _req, res) => {
+    try {
+      console.log(`Fetching weather for lat=${lat}, lon=${lon}...`);
+      const base = `https://api.openweathermap.org/data/2.5`;
+      const params = `lat=${lat}&lon=${lon}&units=metric&appid=${openweatherApiKey}`;
+      const [currentRes, forecastRes] = await Promise.all([
+        httpFetch(`${base}/weather?${params}`),
+        httpFetch(`${base}/forecast?${params}`),
+      ]);
+      if (!currentRes.ok) throw new Error(`OpenWeather current API error: ${currentRes.status}`);
+      if (!forecastRes.ok) throw new Error(`OpenWeather forecast API error: ${forecastRes.status}`);
+      const current = await currentRes.json();
+      const forecast = await forecastRes.json();
+      res.json({ current, forecast });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('Error fetching weather:', message);
+      res.status(500).json({ error: 'Failed to fetch weather forecast' });
+    }
+  }));
+
+  return router;
+}
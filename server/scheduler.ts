@@ -0,0 +1,47 @@
+export interface ScheduledJob {
+  name: string;
+  interval: number;  // ms between the end of one run and the start of the next
+  run: () => Promise<unknown>;
+}
+
+export interface Scheduler {
+  start(): void;
+  stop(): void;
+}
+
+// Runs each job once on start, then again every `interval`. A job never
+// overlaps itself, and start-up runs are spaced `stagger` ms apart so the
+// first refresh doesn't hit every provider at once.
+export function createScheduler(jobs: ScheduledJob[], stagger = 5000): Scheduler {
+  const timers = new Map<string, NodeJS.Timeout>();
+  let running = false;
+
+  const schedule = (job: ScheduledJob, delay: number) => {
+    const timer = setTimeout(async () => {
+      const startedAt = Date.now();
+      try {
+        await job.run();
+        console.log(`Scheduled job ${job.name} finished in ${Date.now() - startedAt} ms`);
+      } catch (err) {
+        console.error(`Scheduled job ${job.name} failed:`, err instanceof Error ? err.message : err);
+      }
+      if (running) schedule(job, job.interval);
+    }, delay);
+    // Pending refreshes shouldn't keep the process alive on shutdown
+    timer.unref();
+    timers.set(job.name, timer);
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      jobs.forEach((job, i) => schedule(job, i * stagger));
+    },
+    stop() {
+      running = false;
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  hasDatabase,
+  dbInsertSession,
+  dbGetSessionById,
+  dbGetSessionByRefreshTokenHash,
+  dbRotateSession,
+  dbRevokeSession,
+  dbRevokeUserSessions,
+} from './db.ts';
+import type { Session } from './db.ts';
+
+// A session is one signed-in device. It holds the hash of its current refresh
+// token plus the one it replaced, so a replayed (already rotated) token can be
+// told apart from an unknown one.
+export interface SessionStore {
+  create(session: Session): Promise<void>;
+  findById(id: string): Promise<Session | null>;
+  findByRefreshTokenHash(hash: string): Promise<Session | null>;
+  rotate(id: string, refreshTokenHash: string, lastUsedAt: string, expiresAt: string): Promise<void>;
+  revoke(id: string): Promise<void>;
+  revokeAllForUser(userId: number): Promise<void>;
+}
+
+export function isSessionActive(session: Session, now = new Date()): boolean {
+  return session.revokedAt === null && new Date(session.expiresAt) > now;
+}
+
+function matchesRefreshTokenHash(s: Session, hash: string): boolean {
+  return s.refreshTokenHash === hash || s.previousRefreshTokenHash === hash;
+}
+
+function rotated(s: Session, refreshTokenHash: string, lastUsedAt: string, expiresAt: string): Session {
+  return { ...s, previousRefreshTokenHash: s.refreshTokenHash, refreshTokenHash, lastUsedAt, expiresAt };
+}
+
+function withoutExpired(all: Session[]): Session[] {
+  const now = new Date();
+  return all.filter((s) => new Date(s.expiresAt) > now);
+}
+
+// --- In-memory (tests) ---
+
+export function createMemorySessionStore(initial: Session[] = []): SessionStore {
+  let all: Session[] = initial.map((s) => ({ ...s }));
+
+  return {
+    async create(session) {
+      all = [...withoutExpired(all), { ...session }];
+    },
+    async findById(id) {
+      const session = all.find((s) => s.id === id);
+      return session ? { ...session } : null;
+    },
+    async findByRefreshTokenHash(hash) {
+      const session = all.find((s) => matchesRefreshTokenHash(s, hash));
+      return session ? { ...session } : null;
+    },
+    async rotate(id, refreshTokenHash, lastUsedAt, expiresAt) {
+      all = all.map((s) => (s.id === id ? rotated(s, refreshTokenHash, lastUsedAt, expiresAt) : s));
+    },
+    async revoke(id) {
+      const revokedAt = new Date().toISOString();
+      all = all.map((s) => (s.id === id && s.revokedAt === null ? { ...s, revokedAt } : s));
+    },
+    async revokeAllForUser(userId) {
+      const revokedAt = new Date().toISOString();
+      all = all.map((s) => (s.userId === userId && s.revokedAt === null ? { ...s, revokedAt } : s));
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresSessionStore(): SessionStore {
+  return {
+    create: dbInsertSession,
+    findById: dbGetSessionById,
+    findByRefreshTokenHash: dbGetSessionByRefreshTokenHash,
+    rotate: dbRotateSession,
+    revoke: dbRevokeSession,
+    revokeAllForUser: dbRevokeUserSessions,
+  };
+}
+
+// --- JSON file ---
+
+const SESSIONS_FILE = path.join(process.cwd(), 'data', 'sessions.json');
+
+function readAll(): Session[] {
+  try {
+    return JSON.parse(fs.readFileSync(SESSIONS_FILE, 'utf-8')) as Session[];
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(all: Session[]): void {
+  const dir = path.dirname(SESSIONS_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(SESSIONS_FILE, JSON.stringify(all, null, 2));
+}
+
+export function createFileSessionStore(): SessionStore {
+  return {
+    async create(session) {
+      writeAll([...withoutExpired(readAll()), session]);
+    },
+    async findById(id) {
+      return readAll().find((s) => s.id === id) ?? null;
+    },
+    async findByRefreshTokenHash(hash) {
+      return readAll().find((s) => matchesRefreshTokenHash(s, hash)) ?? null;
+    },
+    async rotate(id, refreshTokenHash, lastUsedAt, expiresAt) {
+      writeAll(readAll().map((s) => (s.id === id ? rotated(s, refreshTokenHash, lastUsedAt, expiresAt) : s)));
+    },
+    async revoke(id) {
+      const revokedAt = new Date().toISOString();
+      writeAll(readAll().map((s) => (s.id === id && s.revokedAt === null ? { ...s, revokedAt } : s)));
+    },
+    async revokeAllForUser(userId) {
+      const revokedAt = new Date().toISOString();
+      writeAll(readAll().map((s) => (s.userId === userId && s.revokedAt === null ? { ...s, revokedAt } : s)));
+    },
+  };
+}
+
+export function createSessionStore(): SessionStore {
+  return hasDatabase() ? createPostgresSessionStore() : createFileSessionStore();
+}
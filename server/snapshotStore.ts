@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import { hasDatabase, dbGetFeedSnapshot, dbPutFeedSnapshot } from './db.ts';
+import type { FeedSnapshot } from './db.ts';
+
+export interface SnapshotStore {
+  get(key: string): Promise<FeedSnapshot | null>;
+  put(key: string, snapshot: FeedSnapshot): Promise<void>;
+}
+
+// Snapshots for weeks nobody has looked at in a while are dropped on write
+const MAX_SNAPSHOT_AGE = 14 * 24 * 60 * 60 * 1000;
+
+function pruneBefore(): string {
+  return new Date(Date.now() - MAX_SNAPSHOT_AGE).toISOString();
+}
+
+// --- In-memory (tests) ---
+
+export function createMemorySnapshotStore(): SnapshotStore {
+  const snapshots = new Map<string, FeedSnapshot>();
+
+  return {
+    async get(key) {
+      const snapshot = snapshots.get(key);
+      return snapshot ? structuredClone(snapshot) : null;
+    },
+    async put(key, snapshot) {
+      snapshots.set(key, structuredClone(snapshot));
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresSnapshotStore(): SnapshotStore {
+  return {
+    get: dbGetFeedSnapshot,
+    async put(key, snapshot) {
+      await dbPutFeedSnapshot(key, snapshot, pruneBefore());
+    },
+  };
+}
+
+// --- JSON file ---
+
+const SNAPSHOTS_FILE = path.join(process.cwd(), 'data', 'feed-snapshots.json');
+
+function readAll(): Record<string, FeedSnapshot> {
+  try {
+    return JSON.parse(fs.readFileSync(SNAPSHOTS_FILE, 'utf-8')) as Record<string, FeedSnapshot>;
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(all: Record<string, FeedSnapshot>): void {
+  const dir = path.dirname(SNAPSHOTS_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(SNAPSHOTS_FILE, JSON.stringify(all));
+}
+
+export function createFileSnapshotStore(): SnapshotStore {
+  return {
+    async get(key) {
+      return readAll()[key] ?? null;
+    },
+    async put(key, snapshot) {
+      const cutoff = pruneBefore();
+      const kept = Object.fromEntries(
+        Object.entries(readAll()).filter(([, s]) => s.lastUpdated >= cutoff),
+      );
+      writeAll({ ...kept, [key]: snapshot });
+    },
+  };
+}
+
+export function createSnapshotStore(): SnapshotStore {
+  return hasDatabase() ? createPostgresSnapshotStore() : createFileSnapshotStore();
+}
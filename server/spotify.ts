@@ -1,6 +1,8 @@
 import { readFileSync, writeFileSync, existsSync, unlinkSync } from 'fs';
 import { randomBytes } from 'crypto';
 import { hasDatabase, dbLoadTokens, dbSaveTokens, dbClearTokens } from './db.ts';
+import { LEGACY_OWNER_ID } from './userStore.ts';
+import { httpFetch } from './http.ts';
 
 const TOKEN_FILE = '.spotify-tokens.json';
 const REDIRECT_URI = process.env.SPOTIFY_REDIRECT_URI || 'http://127.0.0.1:5173/api/spotify/callback';
@@ -12,48 +14,99 @@ interface SpotifyTokens {
   expires_at: number;
 }
 
-function loadTokensFromFile(): SpotifyTokens | null {
-  if (!existsSync(TOKEN_FILE)) return null;
+// The token file maps user id to tokens. Before multi-user accounts it held a
+// single SpotifyTokens object, which belongs to LEGACY_OWNER_ID.
+function readTokenFile(): Record<string, SpotifyTokens> {
+  if (!existsSync(TOKEN_FILE)) return {};
   try {
-    return JSON.parse(readFileSync(TOKEN_FILE, 'utf-8')) as SpotifyTokens;
+    const data = JSON.parse(readFileSync(TOKEN_FILE, 'utf-8')) as Record<string, SpotifyTokens> | SpotifyTokens;
+    if ('access_token' in data && typeof data.access_token === 'string') {
+      return { [LEGACY_OWNER_ID]: data as SpotifyTokens };
+    }
+    return data as Record<string, SpotifyTokens>;
   } catch {
-    return null;
+    return {};
   }
 }
 
-function saveTokensToFile(tokens: SpotifyTokens): void {
-  writeFileSync(TOKEN_FILE, JSON.stringify(tokens, null, 2));
+function writeTokenFile(all: Record<string, SpotifyTokens>): void {
+  if (Object.keys(all).length === 0) {
+    if (existsSync(TOKEN_FILE)) unlinkSync(TOKEN_FILE);
+    return;
+  }
+  writeFileSync(TOKEN_FILE, JSON.stringify(all, null, 2));
 }
 
-async function loadTokens(): Promise<SpotifyTokens | null> {
+async function loadTokens(userId: number): Promise<SpotifyTokens | null> {
   if (hasDatabase()) {
-    return dbLoadTokens();
+    return dbLoadTokens(userId);
   }
-  return loadTokensFromFile();
+  return readTokenFile()[userId] ?? null;
 }
 
-async function saveTokens(tokens: SpotifyTokens): Promise<void> {
+async function saveTokens(userId: number, tokens: SpotifyTokens): Promise<void> {
   if (hasDatabase()) {
-    await dbSaveTokens(tokens);
+    await dbSaveTokens(userId, tokens);
     return;
   }
-  saveTokensToFile(tokens);
+  writeTokenFile({ ...readTokenFile(), [userId]: tokens });
 }
 
-export async function isAuthenticated(): Promise<boolean> {
-  const tokens = await loadTokens();
+export async function isAuthenticated(userId: number): Promise<boolean> {
+  const tokens = await loadTokens(userId);
   return tokens !== null;
 }
 
-export async function clearTokens(): Promise<void> {
+export async function clearTokens(userId: number): Promise<void> {
   if (hasDatabase()) {
-    await dbClearTokens();
+    await dbClearTokens(userId);
     return;
   }
-  if (existsSync(TOKEN_FILE)) unlinkSync(TOKEN_FILE);
+  const all = readTokenFile();
+  delete all[userId];
+  writeTokenFile(all);
+}
+
+// --- OAuth state ---
+
+// Each login attempt is bound to the user who started it and to a nonce held in
+// that browser's cookie, so a callback can only complete the session that began it.
+interface PendingAuth {
+  userId: number;
+  nonce: string;
+  expiresAt: number;
+}
+
+export const AUTH_STATE_TTL = 10 * 60 * 1000; // 10 minutes
+
+const pendingAuths = new Map<string, PendingAuth>();
+
+function prunePendingAuths(): void {
+  const now = Date.now();
+  for (const [state, pending] of pendingAuths) {
+    if (pending.expiresAt <= now) pendingAuths.delete(state);
+  }
+}
+
+export function beginAuth(clientId: string, userId: number): { url: string; nonce: string } {
+  prunePendingAuths();
+  const { url, state } = getAuthUrl(clientId);
+  const nonce = randomBytes(16).toString('hex');
+  pendingAuths.set(state, { userId, nonce, expiresAt: Date.now() + AUTH_STATE_TTL });
+  return { url, nonce };
+}
+
+// Returns the initiating user's id, or null if the state is unknown, expired or
+// was started from a different browser. A state can only be consumed once.
+export function consumeAuthState(state: string, nonce: string | undefined): number | null {
+  const pending = pendingAuths.get(state);
+  if (!pending) return null;
+  pendingAuths.delete(state);
+  if (pending.expiresAt <= Date.now() || !nonce || pending.nonce !== nonce) return null;
+  return pending.userId;
 }
 
-export function getAuthUrl(clientId: string): { url: string; state: string } {
+function getAuthUrl(clientId: string): { url: string; state: string } {
   const state = randomBytes(16).toString('hex');
   const params = new URLSearchParams({
     response_type: 'code',
@@ -69,8 +122,9 @@ export async function exchangeCodeForTokens(
   clientId: string,
   clientSecret: string,
   code: string,
+  userId: number,
 ): Promise<void> {
-  const res = await fetch('https://accounts.spotify.com/api/token', {
+  const res = await httpFetch('https://accounts.spotify.com/api/token', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -94,18 +148,18 @@ export async function exchangeCodeForTokens(
     expires_in: number;
   };
 
-  await saveTokens({
+  await saveTokens(userId, {
     access_token: data.access_token,
     refresh_token: data.refresh_token,
     expires_at: Date.now() + data.expires_in * 1000,
   });
 }
 
-async function refreshAccessToken(clientId: string, clientSecret: string): Promise<string> {
-  const tokens = await loadTokens();
+async function refreshAccessToken(clientId: string, clientSecret: string, userId: number): Promise<string> {
+  const tokens = await loadTokens(userId);
   if (!tokens) throw new Error('No Spotify tokens found');
 
-  const res = await fetch('https://accounts.spotify.com/api/token', {
+  const res = await httpFetch('https://accounts.spotify.com/api/token', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -128,7 +182,7 @@ async function refreshAccessToken(clientId: string, clientSecret: string): Promi
     expires_in: number;
   };
 
-  await saveTokens({
+  await saveTokens(userId, {
     access_token: data.access_token,
     refresh_token: data.refresh_token ?? tokens.refresh_token,
     expires_at: Date.now() + data.expires_in * 1000,
@@ -137,22 +191,22 @@ async function refreshAccessToken(clientId: string, clientSecret: string): Promi
   return data.access_token;
 }
 
-export async function ensureValidToken(clientId: string, clientSecret: string): Promise<string> {
-  const tokens = await loadTokens();
+export async function ensureValidToken(clientId: string, clientSecret: string, userId: number): Promise<string> {
+  const tokens = await loadTokens(userId);
   if (!tokens) throw new Error('No Spotify tokens found');
 
   if (Date.now() < tokens.expires_at - 60_000) {
     return tokens.access_token;
   }
 
-  return refreshAccessToken(clientId, clientSecret);
+  return refreshAccessToken(clientId, clientSecret, userId);
 }
 
 export async function fetchArtistTopPreview(
   artistName: string,
 ): Promise<{ trackName: string; previewUrl: string } | null> {
   // Use iTunes Search API — free, no auth, reliable 30-second previews
-  const res = await fetch(
+  const res = await httpFetch(
     `https://itunes.apple.com/search?term=${encodeURIComponent(artistName)}&entity=song&limit=10&attribute=artistTerm`,
   );
   if (!res.ok) return null;
@@ -175,13 +229,13 @@ export async function fetchSpotifyArtistNames(accessToken: string): Promise<Set<
   const artistNames = new Set<string>();
 
   const fetches = [
-    fetch('https://api.spotify.com/v1/me/top/artists?time_range=short_term&limit=50', {
+    httpFetch('https://api.spotify.com/v1/me/top/artists?time_range=short_term&limit=50', {
       headers: { Authorization: `Bearer ${accessToken}` },
     }),
-    fetch('https://api.spotify.com/v1/me/top/artists?time_range=medium_term&limit=50', {
+    httpFetch('https://api.spotify.com/v1/me/top/artists?time_range=medium_term&limit=50', {
       headers: { Authorization: `Bearer ${accessToken}` },
     }),
-    fetch('https://api.spotify.com/v1/me/player/recently-played?limit=50', {
+    httpFetch('https://api.spotify.com/v1/me/player/recently-played?limit=50', {
       headers: { Authorization: `Bearer ${accessToken}` },
     }),
   ];
@@ -0,0 +1,86 @@
+import type { CategoryStats, CreatorCount, RatingStats, StatsPeriod, WatchedItem, WatchedStats, WatchEvent } from './types.ts';
+import { WATCHED_CATEGORIES } from '../shared/schemas.ts';
+
+// How many names the top directors and creators lists keep
+const TOP_LIMIT = 10;
+
+// Subtitles that name who made the item; for the other categories they hold
+// a year or platforms
+const CREATOR_CATEGORIES = new Set(['book', 'album']);
+
+const itemKey = (category: string, id: string) => `${category}:${id}`;
+
+function countPeriods(events: WatchEvent[], periodOf: (event: WatchEvent) => string, periods: string[]): StatsPeriod[] {
+  const byPeriod = new Map(periods.map((period) => [period, { period, counts: {} as Record<string, number>, total: 0 }]));
+  for (const event of events) {
+    const period = byPeriod.get(periodOf(event));
+    if (!period) continue;
+    period.counts[event.category] = (period.counts[event.category] ?? 0) + 1;
+    period.total++;
+  }
+  return [...byPeriod.values()];
+}
+
+function average(ratings: number[]): number | null {
+  if (ratings.length === 0) return null;
+  return Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 100) / 100;
+}
+
+function ratingStats(items: WatchedItem[]): RatingStats {
+  const ratings = items.map((item) => item.rating).filter((rating) => rating !== null);
+  const distribution = Array.from({ length: 10 }, (_, i) => {
+    const rating = (i + 1) / 2;
+    return { rating, count: ratings.filter((r) => r === rating).length };
+  });
+  return { average: average(ratings), rated: ratings.length, distribution };
+}
+
+function topNames(items: WatchedItem[], nameOf: (item: WatchedItem) => string | null): CreatorCount[] {
+  const counts = new Map<string, CreatorCount>();
+  for (const item of items) {
+    const name = nameOf(item)?.trim();
+    if (!name) continue;
+    const key = itemKey(item.category, name);
+    const entry = counts.get(key) ?? { name, category: item.category, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_LIMIT);
+}
+
+// `items` is the whole log and `events` every viewing; both may span years
+export function computeWatchedStats(year: number, items: WatchedItem[], events: WatchEvent[]): WatchedStats {
+  const prefix = `${year}-`;
+  const inYear = events.filter((event) => event.date.startsWith(prefix));
+
+  const logged = new Map(items.map((item) => [itemKey(item.category, item.id), item]));
+  const viewedKeys = new Set(inYear.map((event) => itemKey(event.category, event.itemId)));
+  const viewed = [...viewedKeys].map((key) => logged.get(key)).filter((item) => item !== undefined);
+
+  const categories: CategoryStats[] = WATCHED_CATEGORIES.map((category) => {
+    const categoryItems = viewed.filter((item) => item.category === category);
+    return {
+      category,
+      viewings: inYear.filter((event) => event.category === category).length,
+      items: categoryItems.length,
+      averageRating: average(categoryItems.map((item) => item.rating).filter((rating) => rating !== null)),
+    };
+  });
+
+  const months = Array.from({ length: 12 }, (_, i) => `${year}-${String(i + 1).padStart(2, '0')}`);
+  const years = [...new Set(events.map((event) => event.date.slice(0, 4)))].sort();
+
+  return {
+    year,
+    viewings: inYear.length,
+    rewatches: inYear.filter((event) => event.rewatch).length,
+    categories,
+    byMonth: countPeriods(inYear, (event) => event.date.slice(0, 7), months),
+    byYear: countPeriods(events, (event) => event.date.slice(0, 4), years),
+    ratings: ratingStats(viewed),
+    topDirectors: topNames(viewed.filter((item) => item.category === 'movie'), (item) => item.director),
+    topCreators: topNames(viewed.filter((item) => CREATOR_CATEGORIES.has(item.category)), (item) => item.subtitle),
+  };
+}
@@ -1,40 +1,33 @@
 import type { GameRelease, SteamReviewSummary } from './types.ts';
+import { httpFetch } from './http.ts';
+
+// The per-game lookups resolve to null when Steam has nothing for the game and
+// throw when Steam couldn't be asked, so the batch helpers can tell them apart.
 
 export async function fetchSteamReviews(steamAppId: string): Promise<SteamReviewSummary | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
-
-    const res = await fetch(
-      `https://store.steampowered.com/appreviews/${steamAppId}?json=1&language=all&purchase_type=all`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
-
-    if (!res.ok) return null;
-
-    const data = (await res.json()) as {
-      success: number;
-      query_summary?: {
-        total_positive: number;
-        total_negative: number;
-        total_reviews: number;
-        review_score_desc: string;
-      };
-    };
+  const res = await httpFetch(`https://store.steampowered.com/appreviews/${steamAppId}?json=1&language=all&purchase_type=all`);
 
-    if (!data.success || !data.query_summary) return null;
+  if (!res.ok) throw new Error(`Steam reviews failed: ${res.status}`);
 
-    const qs = data.query_summary;
-    return {
-      totalPositive: qs.total_positive,
-      totalNegative: qs.total_negative,
-      totalReviews: qs.total_reviews,
-      reviewScoreDesc: qs.review_score_desc,
+  const data = (await res.json()) as {
+    success: number;
+    query_summary?: {
+      total_positive: number;
+      total_negative: number;
+      total_reviews: number;
+      review_score_desc: string;
     };
-  } catch {
-    return null;
-  }
+  };
+
+  if (!data.success || !data.query_summary) return null;
+
+  const qs = data.query_summary;
+  return {
+    totalPositive: qs.total_positive,
+    totalNegative: qs.total_negative,
+    totalReviews: qs.total_reviews,
+    reviewScoreDesc: qs.review_score_desc,
+  };
 }
 
 const PC_PLATFORMS = ['pc (microsoft windows)', 'mac', 'linux'];
@@ -44,36 +37,26 @@ function isPcGame(game: GameRelease): boolean {
 }
 
 export async function searchSteamAppId(gameName: string): Promise<string | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
+  const res = await httpFetch(`https://store.steampowered.com/api/storesearch/?term=${encodeURIComponent(gameName)}&l=english&cc=US`);
 
-    const res = await fetch(
-      `https://store.steampowered.com/api/storesearch/?term=${encodeURIComponent(gameName)}&l=english&cc=US`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
+  if (!res.ok) throw new Error(`Steam search failed: ${res.status}`);
 
-    if (!res.ok) return null;
+  const data = (await res.json()) as {
+    total: number;
+    items?: { id: number; name: string }[];
+  };
 
-    const data = (await res.json()) as {
-      total: number;
-      items?: { id: number; name: string }[];
-    };
-
-    if (!data.items?.length) return null;
+  if (!data.items?.length) return null;
 
-    // Only accept an exact (case-insensitive) name match
-    const match = data.items.find((item) => item.name.toLowerCase() === gameName.toLowerCase());
-    return match ? String(match.id) : String(data.items[0].id);
-  } catch {
-    return null;
-  }
+  // Only accept an exact (case-insensitive) name match
+  const match = data.items.find((item) => item.name.toLowerCase() === gameName.toLowerCase());
+  return match ? String(match.id) : String(data.items[0].id);
 }
 
-export async function backfillSteamAppIds(games: GameRelease[]): Promise<void> {
+// Fills in missing Steam App IDs by name; returns how many searches failed
+export async function backfillSteamAppIds(games: GameRelease[]): Promise<number> {
   const needsSearch = games.filter((g) => g.steamAppId === null && isPcGame(g));
-  if (needsSearch.length === 0) return;
+  if (needsSearch.length === 0) return 0;
 
   const results = await Promise.allSettled(
     needsSearch.map(async (g) => {
@@ -82,37 +65,30 @@ export async function backfillSteamAppIds(games: GameRelease[]): Promise<void> {
     }),
   );
 
+  let failed = 0;
   for (const result of results) {
-    if (result.status === 'fulfilled' && result.value.appId) {
+    if (result.status === 'rejected') {
+      failed++;
+    } else if (result.value.appId) {
       result.value.game.steamAppId = result.value.appId;
     }
   }
+  return failed;
 }
 
 export async function fetchSteamDescription(steamAppId: string): Promise<string | null> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
+  const res = await httpFetch(`https://store.steampowered.com/api/appdetails?appids=${steamAppId}`);
 
-    const res = await fetch(
-      `https://store.steampowered.com/api/appdetails?appids=${steamAppId}`,
-      { signal: controller.signal },
-    );
-    clearTimeout(timeout);
+  if (!res.ok) throw new Error(`Steam app details failed: ${res.status}`);
 
-    if (!res.ok) return null;
+  const data = (await res.json()) as Record<string, { success: boolean; data?: { short_description?: string } }>;
+  const entry = data[steamAppId];
+  if (!entry?.success || !entry.data?.short_description) return null;
 
-    const data = (await res.json()) as Record<string, { success: boolean; data?: { short_description?: string } }>;
-    const entry = data[steamAppId];
-    if (!entry?.success || !entry.data?.short_description) return null;
-
-    return entry.data.short_description;
-  } catch {
-    return null;
-  }
+  return entry.data.short_description;
 }
 
-export async function fetchAllSteamDescriptions(games: GameRelease[]): Promise<Map<string, string>> {
+export async function fetchAllSteamDescriptions(games: GameRelease[]): Promise<{ descriptions: Map<string, string>; failed: number }> {
   const steamGames = games.filter((g) => g.steamAppId !== null);
   const results = await Promise.allSettled(
     steamGames.map(async (g) => {
@@ -121,16 +97,19 @@ export async function fetchAllSteamDescriptions(games: GameRelease[]): Promise<M
     }),
   );
 
-  const map = new Map<string, string>();
+  const descriptions = new Map<string, string>();
+  let failed = 0;
   for (const result of results) {
-    if (result.status === 'fulfilled' && result.value.description) {
-      map.set(result.value.steamAppId, result.value.description);
+    if (result.status === 'rejected') {
+      failed++;
+    } else if (result.value.description) {
+      descriptions.set(result.value.steamAppId, result.value.description);
     }
   }
-  return map;
+  return { descriptions, failed };
 }
 
-export async function fetchAllSteamReviews(games: GameRelease[]): Promise<Map<string, SteamReviewSummary>> {
+export async function fetchAllSteamReviews(games: GameRelease[]): Promise<{ reviews: Map<string, SteamReviewSummary>; failed: number }> {
   const steamGames = games.filter((g) => g.steamAppId !== null);
   const results = await Promise.allSettled(
     steamGames.map(async (g) => {
@@ -139,11 +118,14 @@ export async function fetchAllSteamReviews(games: GameRelease[]): Promise<Map<st
     }),
   );
 
-  const map = new Map<string, SteamReviewSummary>();
+  const reviews = new Map<string, SteamReviewSummary>();
+  let failed = 0;
   for (const result of results) {
-    if (result.status === 'fulfilled' && result.value.reviews) {
-      map.set(result.value.steamAppId, result.value.reviews);
+    if (result.status === 'rejected') {
+      failed++;
+    } else if (result.value.reviews) {
+      reviews.set(result.value.steamAppId, result.value.reviews);
     }
   }
-  return map;
+  return { reviews, failed };
 }
@@ -0,0 +1,56 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import { addDays, todayUTC } from '../dates.ts';
+import type { ArchivedReleases, FeedResult, GameReleaseWithReviews } from '../types.ts';
+
+describe('release archive', () => {
+  let server: TestServer;
+  let token: string;
+  const today = todayUTC();
+
+  before(async () => {
+    server = await startTestServer();
+    token = (await server.login('alice')).token;
+
+    // Games is the first job, so it runs as soon as the scheduler starts;
+    // its last day is the day after today
+    server.scheduler.start();
+    const deadline = Date.now() + 10_000;
+    while (!await server.stores.releaseArchive.get('game', addDays(today, 1))) {
+      if (Date.now() > deadline) throw new Error('The games job did not archive all three days');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    server.scheduler.stop();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('snapshots and archives each day a scheduled run refreshes', async () => {
+    for (const day of [addDays(today, -1), today, addDays(today, 1)]) {
+      const snapshot = await server.stores.snapshotStore.get(`games:${day}:${day}`);
+      assert.ok(snapshot, `no snapshot for ${day}`);
+      const archived = await server.stores.releaseArchive.get('game', day);
+      assert.equal(archived?.archivedAt, snapshot.lastUpdated);
+      assert.deepEqual(archived.items, (snapshot.data as FeedResult<GameReleaseWithReviews>).items);
+    }
+  });
+
+  it('serves an archived day', async () => {
+    const res = await server.request(`/api/archive/game/${today}`, { token });
+    assert.equal(res.status, 200);
+    const body = await res.json() as ArchivedReleases;
+    const archived = await server.stores.releaseArchive.get('game', today);
+    assert.equal(body.date, today);
+    assert.ok(body.items.length > 0);
+    assert.deepEqual(body.items, archived?.items);
+  });
+
+  it('answers 404 for a day nothing was archived for', async () => {
+    const res = await server.request(`/api/archive/game/${addDays(today, -30)}`, { token });
+    assert.equal(res.status, 404);
+  });
+});
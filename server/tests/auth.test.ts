@@ -0,0 +1,176 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import { PASSWORD, jsonBody, startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+
+describe('auth', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ SPOTIFY_CLIENT_ID: 'spotify-client', SPOTIFY_CLIENT_SECRET: 'spotify-secret' });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('public paths', () => {
+    it('serves /api/health without a token', async () => {
+      const res = await server.request('/api/health');
+      assert.equal(res.status, 200);
+      assert.deepEqual(await res.json(), { status: 'ok' });
+    });
+
+    it('lets /api/spotify/callback through to its own validation', async () => {
+      const res = await server.request('/api/spotify/callback');
+      assert.equal(res.status, 400);
+    });
+
+    it('validates login and refresh bodies rather than asking for a token', async () => {
+      const login = await server.request('/api/auth/login', { method: 'POST', ...jsonBody({}) });
+      assert.equal(login.status, 400);
+      const refresh = await server.request('/api/auth/refresh', { method: 'POST', ...jsonBody({}) });
+      assert.equal(refresh.status, 400);
+    });
+
+    it('matches paths exactly', async () => {
+      const res = await server.request('/api/health/extra');
+      assert.equal(res.status, 401);
+    });
+  });
+
+  describe('middleware', () => {
+    it('rejects a request without a token', async () => {
+      const res = await server.request('/api/auth/me');
+      assert.equal(res.status, 401);
+      assert.deepEqual(await res.json(), { error: 'Missing or invalid token' });
+    });
+
+    it('rejects a token signed with another secret', async () => {
+      const token = jwt.sign({ sub: '1', sid: 'whatever' }, 'some-other-secret');
+      const res = await server.request('/api/auth/me', { token });
+      assert.equal(res.status, 401);
+      assert.deepEqual(await res.json(), { error: 'Token expired or invalid' });
+    });
+
+    it('rejects a token without a session id', async () => {
+      const token = jwt.sign({ sub: '1' }, 'test-jwt-secret');
+      const res = await server.request('/api/auth/me', { token });
+      assert.equal(res.status, 401);
+    });
+
+    it('rejects a token whose session belongs to someone else', async () => {
+      const { token } = await server.login('bob');
+      const { sid } = jwt.decode(token) as jwt.JwtPayload;
+      const forged = jwt.sign({ sub: '1', sid }, 'test-jwt-secret');
+      const res = await server.request('/api/auth/me', { token: forged });
+      assert.equal(res.status, 401);
+      assert.deepEqual(await res.json(), { error: 'Session expired or revoked' });
+    });
+  });
+
+  describe('sessions', () => {
+    it('logs in and identifies the user', async () => {
+      const { token } = await server.login('alice');
+      const res = await server.request('/api/auth/me', { token });
+      assert.equal(res.status, 200);
+      const me = await res.json() as { username: string; isAdmin: boolean };
+      assert.equal(me.username, 'alice');
+      assert.equal(me.isAdmin, true);
+    });
+
+    it('refuses a wrong password', async () => {
+      const res = await server.request('/api/auth/login', {
+        method: 'POST',
+        ...jsonBody({ username: 'alice', password: 'nope' }),
+      });
+      assert.equal(res.status, 401);
+    });
+
+    it('rotates the refresh token and refuses the old one', async () => {
+      const { refreshToken } = await server.login('alice');
+      const first = await server.request('/api/auth/refresh', { method: 'POST', ...jsonBody({ refreshToken }) });
+      assert.equal(first.status, 200);
+      const rotated = await first.json() as { token: string; refreshToken: string };
+      assert.notEqual(rotated.refreshToken, refreshToken);
+
+      const replay = await server.request('/api/auth/refresh', { method: 'POST', ...jsonBody({ refreshToken }) });
+      assert.equal(replay.status, 401);
+      assert.equal((await server.request('/api/auth/me', { token: rotated.token })).status, 200);
+    });
+
+    it('revokes the session on logout', async () => {
+      const { token, refreshToken } = await server.login('alice');
+      const logout = await server.request('/api/auth/logout', { method: 'POST', token });
+      assert.equal(logout.status, 200);
+
+      assert.equal((await server.request('/api/auth/me', { token })).status, 401);
+      const refresh = await server.request('/api/auth/refresh', { method: 'POST', ...jsonBody({ refreshToken }) });
+      assert.equal(refresh.status, 401);
+    });
+
+    it('keeps admin routes to admins', async () => {
+      const { token } = await server.login('bob');
+      const res = await server.request('/api/admin/auth-events', { token });
+      assert.equal(res.status, 403);
+    });
+  });
+
+  describe('behind a proxy', () => {
+    let proxied: TestServer;
+
+    before(async () => {
+      proxied = await startTestServer({ TRUST_PROXY: '1' });
+      // A production-cost hash, so a password check takes a real while
+      await proxied.stores.userStore.create({ username: 'carol', passwordHash: await bcrypt.hash(PASSWORD, 10), isAdmin: false });
+    });
+
+    after(async () => {
+      await proxied.close();
+    });
+
+    const login = (ip: string) => proxied.request('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+      body: JSON.stringify({ username: 'alice', password: 'nope' }),
+    });
+
+    it('throttles each forwarded client on its own', async () => {
+      for (let i = 0; i < 3; i++) assert.equal((await login('203.0.113.1')).status, 401);
+      assert.equal((await login('203.0.113.1')).status, 429);
+      assert.equal((await login('203.0.113.2')).status, 401);
+
+      const events = await proxied.stores.authEventStore.list(10);
+      assert.deepEqual([...new Set(events.map((e) => e.ip))].sort(), ['203.0.113.1', '203.0.113.2']);
+    });
+
+    it('throttles guesses sent in parallel', async () => {
+      const guess = () => proxied.request('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': '203.0.113.3' },
+        body: JSON.stringify({ username: 'carol', password: 'nope' }),
+      });
+      const statuses = (await Promise.all(Array.from({ length: 8 }, guess))).map((res) => res.status);
+      assert.equal(statuses.filter((status) => status === 401).length, 3);
+      assert.equal(statuses.filter((status) => status === 429).length, 5);
+    });
+
+    it('takes as long to reject an unknown username as a wrong password', async () => {
+      const attempt = async (username: string) => {
+        const startedAt = performance.now();
+        const res = await proxied.request('/api/auth/login', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': '203.0.113.4' },
+          body: JSON.stringify({ username, password: 'nope' }),
+        });
+        assert.equal(res.status, 401);
+        return performance.now() - startedAt;
+      };
+      const known = await attempt('carol');
+      const unknown = await attempt('nobody');
+      assert.ok(unknown > known / 2, `unknown username rejected in ${unknown} ms, wrong password in ${known} ms`);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTtlCache } from '../cache.ts';
+import type { CacheEntry, CacheTier } from '../cache.ts';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Counts calls and answers with the call number, so each load is told apart
+function counter(delay = 0) {
+  const loader = {
+    calls: 0,
+    load: async () => {
+      const call = ++loader.calls;
+      if (delay) await sleep(delay);
+      return { call };
+    },
+  };
+  return loader;
+}
+
+// Stands in for the Postgres tier: a shared map that outlives any one cache
+function memoryTier() {
+  const rows = new Map<string, { entry: CacheEntry; expiresAt: number }>();
+  const tier: CacheTier = {
+    async get(key) {
+      const row = rows.get(key);
+      return row && row.expiresAt > Date.now() ? row.entry : null;
+    },
+    async set(key, entry, expiresAt) {
+      rows.set(key, { entry, expiresAt });
+    },
+  };
+  return { tier, rows };
+}
+
+describe('TTL cache', () => {
+  it('serves a fresh value without loading, then reloads once the TTL passes', async () => {
+    const cache = createTtlCache();
+    const loader = counter();
+
+    assert.deepEqual(await cache.getOrLoad('k', { ttl: 50 }, loader.load), { call: 1 });
+    assert.deepEqual(await cache.getOrLoad('k', { ttl: 50 }, loader.load), { call: 1 });
+    await sleep(60);
+    assert.deepEqual(await cache.getOrLoad('k', { ttl: 50 }, loader.load), { call: 2 });
+    assert.equal(loader.calls, 2);
+  });
+
+  it('serves a stale value while one background load replaces it', async () => {
+    const cache = createTtlCache();
+    let release = () => {};
+    let calls = 0;
+    const load = async () => {
+      if (++calls > 1) await new Promise<void>((resolve) => { release = resolve; });
+      return calls;
+    };
+    const options = { ttl: 50, staleWhileRevalidate: 1000 };
+
+    await cache.getOrLoad('k', options, load);
+    await sleep(60);
+    assert.equal(await cache.getOrLoad('k', options, load), 1);
+    assert.equal(await cache.getOrLoad('k', options, load), 1);
+    release();
+    await sleep(0);
+    assert.equal(await cache.getOrLoad('k', options, load), 2);
+    assert.equal(calls, 2);
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const cache = createTtlCache();
+    const loader = counter(10);
+
+    const values = await Promise.all(Array.from({ length: 5 }, () => cache.getOrLoad('k', { ttl: 1000 }, loader.load)));
+    assert.deepEqual(values, Array.from({ length: 5 }, () => ({ call: 1 })));
+    assert.equal(loader.calls, 1);
+  });
+
+  it('hands out copies callers may mutate', async () => {
+    const cache = createTtlCache();
+    const loader = counter();
+
+    const first = await cache.getOrLoad('k', { ttl: 1000 }, loader.load);
+    first.call = 99;
+    assert.deepEqual(await cache.getOrLoad('k', { ttl: 1000 }, loader.load), { call: 1 });
+  });
+
+  it('does not cache a failed load', async () => {
+    const cache = createTtlCache();
+    let calls = 0;
+    const load = async () => {
+      if (++calls === 1) throw new Error('upstream down');
+      return 'ok';
+    };
+
+    await assert.rejects(cache.getOrLoad('k', { ttl: 1000 }, load), /upstream down/);
+    assert.equal(await cache.getOrLoad('k', { ttl: 1000 }, load), 'ok');
+    assert.equal(calls, 2);
+  });
+
+  it('keeps serving the stale value when a background load fails', async () => {
+    const cache = createTtlCache();
+    const options = { ttl: 50, staleWhileRevalidate: 1000 };
+    let calls = 0;
+    const load = async () => {
+      if (++calls === 2) throw new Error('upstream down');
+      return calls;
+    };
+
+    await cache.getOrLoad('k', options, load);
+    await sleep(60);
+    assert.equal(await cache.getOrLoad('k', options, load), 1);
+    await sleep(0);
+    assert.equal(await cache.getOrLoad('k', options, load), 1);
+    await sleep(0);
+    assert.equal(await cache.getOrLoad('k', options, load), 3);
+  });
+
+  describe('with a second tier', () => {
+    it('writes through with the stale window included in the expiry', async () => {
+      const { tier, rows } = memoryTier();
+      const cache = createTtlCache(tier);
+
+      const before = Date.now();
+      await cache.getOrLoad('k', { ttl: 1000, staleWhileRevalidate: 5000 }, async () => 'v');
+      await sleep(0);
+      const row = rows.get('k');
+      assert.equal(row?.entry.value, 'v');
+      assert.ok(row.expiresAt >= before + 6000 && row.expiresAt <= Date.now() + 6000);
+    });
+
+    it('picks up what an earlier process stored', async () => {
+      const { tier } = memoryTier();
+      await createTtlCache(tier).getOrLoad('k', { ttl: 1000 }, async () => 'stored');
+      await sleep(0);
+
+      const loader = counter();
+      assert.equal(await createTtlCache(tier).getOrLoad('k', { ttl: 1000 }, loader.load), 'stored');
+      assert.equal(loader.calls, 0);
+    });
+
+    it('loads when the tier cannot be read', async () => {
+      const tier: CacheTier = {
+        get: async () => { throw new Error('connection refused'); },
+        set: async () => {},
+      };
+      const loader = counter();
+      assert.deepEqual(await createTtlCache(tier).getOrLoad('k', { ttl: 1000 }, loader.load), { call: 1 });
+    });
+
+    it('stores nothing for a failed load', async () => {
+      const { tier, rows } = memoryTier();
+      await assert.rejects(createTtlCache(tier).getOrLoad('k', { ttl: 1000 }, async () => { throw new Error('nope'); }));
+      assert.equal(rows.size, 0);
+    });
+  });
+});
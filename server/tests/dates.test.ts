@@ -0,0 +1,87 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getReleaseWeek } from '../tmdb.ts';
+import { getUpcomingFriday } from '../musicbrainz.ts';
+
+// Both functions work in the server's local time. Node picks up a change to
+// process.env.TZ immediately, so each zone below reruns the same cases.
+const TIMEZONES = ['UTC', 'America/Los_Angeles', 'Europe/London', 'Asia/Kolkata', 'Pacific/Auckland', 'Pacific/Kiritimati'];
+
+// [local date, the release Friday it belongs to]: Saturday and Sunday still
+// count as the Friday just gone, Monday to Friday look ahead
+const WEEK: [string, string][] = [
+  ['2026-10-17', '2026-10-16'], // Saturday
+  ['2026-10-18', '2026-10-16'], // Sunday
+  ['2026-10-19', '2026-10-23'], // Monday
+  ['2026-10-20', '2026-10-23'], // Tuesday
+  ['2026-10-21', '2026-10-23'], // Wednesday
+  ['2026-10-22', '2026-10-23'], // Thursday
+  ['2026-10-23', '2026-10-23'], // Friday
+];
+
+// Weeks that straddle a month or year end, or a daylight saving change
+// (US clocks change on Sunday 2026-03-08, New Zealand's on Sunday 2026-04-05)
+const BOUNDARIES: [string, string][] = [
+  ['2026-12-28', '2027-01-01'],
+  ['2027-01-02', '2027-01-01'],
+  ['2027-01-03', '2027-01-01'],
+  ['2026-03-08', '2026-03-06'],
+  ['2026-03-09', '2026-03-13'],
+  ['2026-04-05', '2026-04-03'],
+  ['2026-04-06', '2026-04-10'],
+  ['2028-02-28', '2028-03-03'],
+];
+
+// A Date at the given local wall-clock time
+function localDate(isoDate: string, hours: number, minutes = 0): Date {
+  const [year, month, day] = isoDate.split('-').map(Number) as [number, number, number];
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+function shiftDays(isoDate: string, days: number): string {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+const originalTZ = process.env['TZ'];
+after(() => {
+  if (originalTZ === undefined) delete process.env['TZ'];
+  else process.env['TZ'] = originalTZ;
+});
+
+for (const tz of TIMEZONES) {
+  describe(`release Fridays in ${tz}`, () => {
+    const withTZ = (fn: () => void) => () => {
+      process.env['TZ'] = tz;
+      fn();
+    };
+
+    for (const [date, friday] of [...WEEK, ...BOUNDARIES]) {
+      it(`maps ${date} to ${friday} at any time of day`, withTZ(() => {
+        for (const [hours, minutes] of [[0, 0], [0, 30], [12, 0], [23, 59]] as const) {
+          const now = localDate(date, hours, minutes);
+          assert.equal(getUpcomingFriday(now), friday);
+          assert.deepEqual(getReleaseWeek(now), { friday, weekStart: shiftDays(friday, -6) });
+        }
+      }));
+    }
+
+    it('steps whole weeks with the offset', withTZ(() => {
+      const now = localDate('2026-10-21', 9);
+      for (const offset of [-52, -1, 1, 2, 10, 104]) {
+        const friday = shiftDays('2026-10-23', offset * 7);
+        assert.equal(getUpcomingFriday(now, offset), friday);
+        assert.deepEqual(getReleaseWeek(now, offset), { friday, weekStart: shiftDays(friday, -6) });
+      }
+    }));
+
+    it('does not modify the date passed in', withTZ(() => {
+      const now = localDate('2026-10-19', 8);
+      const before = now.getTime();
+      getUpcomingFriday(now, 3);
+      getReleaseWeek(now, 3);
+      assert.equal(now.getTime(), before);
+    }));
+  });
+}
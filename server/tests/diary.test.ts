@@ -0,0 +1,107 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { jsonBody, startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import type { DiaryEntry, WatchEvent } from '../types.ts';
+
+describe('watch events and the diary', () => {
+  let server: TestServer;
+  let alice: string;
+  let bob: string;
+
+  before(async () => {
+    server = await startTestServer();
+    alice = (await server.login('alice')).token;
+    bob = (await server.login('bob')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const add = (token: string, category: string, item: Record<string, unknown>) =>
+    server.request(`/api/watched/${category}`, { method: 'POST', token, ...jsonBody(item) });
+
+  const events = async (token: string, category: string, id: string) => {
+    const res = await server.request(`/api/watched/${category}/${id}/events`, { token });
+    assert.equal(res.status, 200);
+    return await res.json() as WatchEvent[];
+  };
+
+  const logViewing = (token: string, category: string, id: string, event: Record<string, unknown>) =>
+    server.request(`/api/watched/${category}/${id}/events`, { method: 'POST', token, ...jsonBody(event) });
+
+  const diary = async (token: string, from: string, to: string) => {
+    const res = await server.request(`/api/diary?from=${from}&to=${to}`, { token });
+    assert.equal(res.status, 200);
+    return await res.json() as DiaryEntry[];
+  };
+
+  it('records the first viewing when an item is logged', async () => {
+    await add(alice, 'movie', { id: 'm1', title: 'First Film', watchedOn: '2026-03-14' });
+    const [event, ...rest] = await events(alice, 'movie', 'm1');
+    assert.deepEqual(rest, []);
+    assert.equal(event?.date, '2026-03-14');
+    assert.equal(event?.rewatch, false);
+    assert.equal(event?.notes, '');
+  });
+
+  it('does not record another when the item is logged again', async () => {
+    await add(alice, 'movie', { id: 'm1', title: 'First Film', watchedOn: '2026-04-01' });
+    assert.equal((await events(alice, 'movie', 'm1')).length, 1);
+  });
+
+  it('records the viewing when a saved item is marked done', async () => {
+    await server.request('/api/watched/backlog/book', { method: 'POST', token: alice, ...jsonBody({ id: 'b1', title: 'Saved Book' }) });
+    assert.deepEqual(await events(alice, 'book', 'b1'), []);
+    await server.request('/api/watched/backlog/book/b1/done', { method: 'POST', token: alice, ...jsonBody({ watchedOn: '2026-05-02' }) });
+    assert.deepEqual((await events(alice, 'book', 'b1')).map((event) => event.date), ['2026-05-02']);
+  });
+
+  it('logs rewatches with notes, most recent first', async () => {
+    const res = await logViewing(alice, 'movie', 'm1', { date: '2026-06-20', notes: '  Better the second time  ', rewatch: true });
+    assert.equal(res.status, 200);
+    const [latest, first] = await res.json() as WatchEvent[];
+    assert.equal(latest?.date, '2026-06-20');
+    assert.equal(latest?.notes, 'Better the second time');
+    assert.equal(latest?.rewatch, true);
+    assert.equal(first?.date, '2026-03-14');
+  });
+
+  it('only logs viewings of items in the log', async () => {
+    assert.equal((await logViewing(alice, 'movie', 'nope', { date: '2026-06-20' })).status, 404);
+    assert.equal((await logViewing(bob, 'movie', 'm1', { date: '2026-06-20' })).status, 404);
+    assert.equal((await logViewing(alice, 'movie', 'm1', { date: '2026-02-30' })).status, 400);
+    assert.equal((await logViewing(alice, 'movie', 'm1', { date: '2026-06-20', rewatch: 'yes' })).status, 400);
+  });
+
+  it('lists viewings in a range with their items', async () => {
+    const entries = await diary(alice, '2026-01-01', '2026-12-31');
+    assert.deepEqual(entries.map((entry) => `${entry.category}:${entry.itemId}:${entry.date}`), [
+      'movie:m1:2026-06-20',
+      'book:b1:2026-05-02',
+      'movie:m1:2026-03-14',
+    ]);
+    assert.equal(entries[0]?.title, 'First Film');
+    assert.deepEqual((await diary(alice, '2026-05-01', '2026-05-31')).map((entry) => entry.itemId), ['b1']);
+    assert.deepEqual(await diary(bob, '2026-01-01', '2026-12-31'), []);
+  });
+
+  it('limits the diary to a year at a time', async () => {
+    assert.equal((await server.request('/api/diary?from=2025-01-01&to=2026-12-31', { token: alice })).status, 400);
+    assert.equal((await server.request('/api/diary', { token: alice })).status, 400);
+  });
+
+  it('removes a single viewing', async () => {
+    const [latest] = await events(alice, 'movie', 'm1');
+    const res = await server.request(`/api/watched/movie/m1/events/${latest!.id}`, { method: 'DELETE', token: alice });
+    assert.equal(res.status, 200);
+    assert.deepEqual((await res.json() as WatchEvent[]).map((event) => event.date), ['2026-03-14']);
+  });
+
+  it('removes every viewing with the item', async () => {
+    await server.request('/api/watched/movie/m1', { method: 'DELETE', token: alice });
+    assert.deepEqual(await events(alice, 'movie', 'm1'), []);
+    assert.deepEqual((await diary(alice, '2026-01-01', '2026-12-31')).map((entry) => entry.itemId), ['b1']);
+  });
+});
@@ -0,0 +1,54 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+
+describe('dismissed cards', () => {
+  let server: TestServer;
+  let alice: string;
+  let bob: string;
+
+  before(async () => {
+    server = await startTestServer();
+    alice = (await server.login('alice')).token;
+    bob = (await server.login('bob')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const dismiss = (token: string, category: string, itemId: string) =>
+    server.request(`/api/dismissed/${category}/${itemId}`, { method: 'POST', token });
+
+  const gameIds = async (token: string) => {
+    const res = await server.request('/api/gaming/releases?from=2026-10-16&to=2026-10-16', { token });
+    assert.equal(res.status, 200);
+    const { items } = await res.json() as { items: { id: number }[] };
+    return items.map((game) => game.id);
+  };
+
+  it('rejects unknown categories', async () => {
+    assert.equal((await server.request('/api/dismissed/book', { token: alice })).status, 400);
+    assert.equal((await dismiss(alice, 'book', 'b1')).status, 400);
+  });
+
+  it('records a dismissal once', async () => {
+    assert.deepEqual(await (await server.request('/api/dismissed/movie', { token: alice })).json(), []);
+    await dismiss(alice, 'movie', '42');
+    const res = await dismiss(alice, 'movie', '42');
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), ['42']);
+  });
+
+  it('hides dismissed games from that user\'s releases only', async () => {
+    const all = await gameIds(alice);
+    assert.ok(all.length > 1, 'the games fixture should have several releases');
+    const [hidden] = all;
+
+    await dismiss(alice, 'game', String(hidden));
+    assert.deepEqual(await gameIds(alice), all.slice(1));
+    assert.deepEqual(await gameIds(bob), all);
+    assert.deepEqual(await (await server.request('/api/dismissed/game', { token: bob })).json(), []);
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../config.ts';
+import { startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+
+describe('config', () => {
+  const errorsFor = (env: NodeJS.ProcessEnv) => {
+    const loaded = loadConfig(env);
+    return 'errors' in loaded ? loaded.errors : [];
+  };
+
+  it('only requires JWT_SECRET', () => {
+    const loaded = loadConfig({ JWT_SECRET: 'secret' });
+    assert.ok('config' in loaded);
+    assert.deepEqual(loaded.config.features.gaming, { enabled: false, reason: 'TWITCH_CLIENT_ID and TWITCH_CLIENT_SECRET not set' });
+    assert.deepEqual(loaded.config.features.music, { enabled: true });
+    assert.equal(loaded.config.twitch, undefined);
+    assert.equal(loaded.config.port, 3001);
+  });
+
+  it('reports every problem at once', () => {
+    const errors = errorsFor({
+      PORT: 'eighty',
+      TRUST_PROXY: '-1',
+      REFRESH_NEWS_MINUTES: '0',
+      MOCK_PROVIDERS: 'sometimes',
+      DISABLED_FEATURES: 'news, podcasts',
+      TWITCH_CLIENT_ID: 'id',
+    });
+    assert.equal(errors.length, 7);
+    assert.ok(errors.includes('JWT_SECRET is required'));
+    assert.ok(errors.some((error) => error.includes('"podcasts"')));
+    assert.ok(errors.some((error) => error.startsWith('Set TWITCH_CLIENT_SECRET as well as TWITCH_CLIENT_ID')));
+  });
+
+  it('switches off features listed in DISABLED_FEATURES and drops their credentials', () => {
+    const loaded = loadConfig({ JWT_SECRET: 'secret', TMDB_API_KEY: 'key', DISABLED_FEATURES: 'movies,news' });
+    assert.ok('config' in loaded);
+    assert.deepEqual(loaded.config.features.movies, { enabled: false, reason: 'Disabled with DISABLED_FEATURES' });
+    assert.equal(loaded.config.features.news.enabled, false);
+    assert.equal(loaded.config.tmdbApiKey, undefined);
+  });
+});
+
+describe('feature toggles', () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startTestServer({ MOCK_PROVIDERS: '', DISABLED_FEATURES: 'news', TMDB_API_KEY: 'key' });
+    token = (await server.login('alice')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('lists the state of every feature', async () => {
+    const res = await server.request('/api/features', { token });
+    assert.equal(res.status, 200);
+    const features = await res.json() as Record<string, { enabled: boolean }>;
+    assert.equal(features['movies']?.enabled, true);
+    assert.equal(features['gaming']?.enabled, false);
+    assert.equal(features['news']?.enabled, false);
+    assert.equal(features['music']?.enabled, true);
+  });
+
+  it('answers 404 for the routes of a feature that is off', async () => {
+    for (const path of ['/api/gaming/releases', '/api/games/search?q=x', '/api/news', '/api/weather/forecast?lat=1&lon=2', '/api/music/charts']) {
+      const res = await server.request(path, { token });
+      assert.equal(res.status, 404, path);
+      assert.match((await res.json() as { error: string }).error, /feature is not available/);
+    }
+  });
+
+  it('still requires a token for them', async () => {
+    assert.equal((await server.request('/api/gaming/releases')).status, 401);
+  });
+
+  it('leaves switched-off categories out of the calendar', async () => {
+    const res = await server.request('/api/calendar?from=2026-10-01&to=2026-10-07&categories=game', { token });
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json(), { from: '2026-10-01', to: '2026-10-07', entries: [], unavailable: [] });
+  });
+});
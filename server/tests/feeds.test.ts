@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFeedReader, createFeedSources } from '../feeds.ts';
+import { createMemorySnapshotStore } from '../snapshotStore.ts';
+import { providerHealth } from '../providerHealth.ts';
+
+// Upstream requests made so far to one provider (replayed ones count too)
+function requestsTo(provider: string): number {
+  return providerHealth([provider])[0]!.requests;
+}
+
+describe('feed snapshots', () => {
+  it('loads live on every scheduled refresh', async () => {
+    const store = createMemorySnapshotStore();
+    const reader = createFeedReader(store);
+    const source = createFeedSources({}).news();
+
+    const first = await reader.refresh(source);
+    const before = requestsTo('RSS: Hacker News');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    // A scheduled run reads with maxAge = interval; a snapshot past it is reloaded
+    const second = await reader.read(source, 1);
+
+    assert.equal(requestsTo('RSS: Hacker News'), before + 1);
+    assert.ok(second.lastUpdated > first.lastUpdated);
+    assert.deepEqual(await store.get('news'), second);
+  });
+
+  it('serves a snapshot younger than maxAge without loading', async () => {
+    const reader = createFeedReader(createMemorySnapshotStore());
+    const source = createFeedSources({}).news();
+
+    const first = await reader.refresh(source);
+    const before = requestsTo('RSS: Hacker News');
+    assert.deepEqual(await reader.read(source, 60_000), first);
+    assert.equal(requestsTo('RSS: Hacker News'), before);
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import bcrypt from 'bcryptjs';
+import type { AddressInfo } from 'net';
+import { createApp } from '../app.ts';
+import type { AppStores } from '../app.ts';
+import { loadConfig } from '../config.ts';
+import type { Scheduler } from '../scheduler.ts';
+import { createMemoryUserStore } from '../userStore.ts';
+import { createMemorySessionStore } from '../sessionStore.ts';
+import { createMemoryAuthEventStore } from '../authEventStore.ts';
+import { createMemoryWatchedItemStore } from '../watchedStore.ts';
+import { createMemoryWatchEventStore } from '../watchEventStore.ts';
+import { createMemoryDismissedCardStore } from '../dismissedStore.ts';
+import { createMemorySnapshotStore } from '../snapshotStore.ts';
+import { createMemoryReleaseArchiveStore } from '../releaseArchiveStore.ts';
+
+// Boots the API on a random port with in-memory stores. Upstream calls are
+// replayed from fixtures (see setup.ts), which also switches on every feature
+// but Spotify; covers go to a temporary directory.
+
+export const PASSWORD = 'correct horse battery staple';
+
+// Low cost keeps logins fast; the hash format is the same
+const passwordHash = bcrypt.hashSync(PASSWORD, 4);
+
+export interface TestServer {
+  baseUrl: string;
+  stores: AppStores;
+  coversDir: string;
+  // Left unstarted; close() stops it
+  scheduler: Scheduler;
+  // Resolves with the response, whatever its status
+  request(path: string, init?: RequestInit & { token?: string }): Promise<Response>;
+  // Logs in and returns the access and refresh tokens
+  login(username: string): Promise<{ token: string; refreshToken: string }>;
+  close(): Promise<void>;
+}
+
+// `env` is added to the environment the config is loaded from
+export async function startTestServer(env: NodeJS.ProcessEnv = {}): Promise<TestServer> {
+  const loaded = loadConfig({ MOCK_PROVIDERS: 'replay', JWT_SECRET: 'test-jwt-secret', ...env });
+  if ('errors' in loaded) throw new Error(`Invalid test config: ${loaded.errors.join('; ')}`);
+  const coversDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashboard-covers-'));
+  const createdAt = new Date().toISOString();
+  const stores: AppStores = {
+    userStore: createMemoryUserStore([
+      { id: 1, username: 'alice', passwordHash, isAdmin: true, createdAt },
+      { id: 2, username: 'bob', passwordHash, isAdmin: false, createdAt },
+    ]),
+    sessionStore: createMemorySessionStore(),
+    authEventStore: createMemoryAuthEventStore(),
+    watchedStore: createMemoryWatchedItemStore(),
+    watchEventStore: createMemoryWatchEventStore(),
+    dismissedStore: createMemoryDismissedCardStore(),
+    snapshotStore: createMemorySnapshotStore(),
+    releaseArchive: createMemoryReleaseArchiveStore(),
+  };
+  const { app, scheduler } = createApp({ ...loaded.config, coversDir }, stores);
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request = (pathname: string, { token, ...init }: RequestInit & { token?: string } = {}) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    return fetch(`${baseUrl}${pathname}`, { ...init, headers });
+  };
+
+  return {
+    baseUrl,
+    stores,
+    coversDir,
+    scheduler,
+    request,
+    async login(username) {
+      const res = await request('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password: PASSWORD }),
+      });
+      if (!res.ok) throw new Error(`Login as ${username} failed: ${res.status}`);
+      return (await res.json()) as { token: string; refreshToken: string };
+    },
+    async close() {
+      scheduler.stop();
+      await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+      fs.rmSync(coversDir, { recursive: true, force: true });
+    },
+  };
+}
+
+export function jsonBody(body: unknown): RequestInit {
+  return { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
@@ -0,0 +1,105 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// setup.ts switches every test to fixtures; these talk to a local server, so
+// http.ts is loaded once the switch is off
+delete process.env['MOCK_PROVIDERS'];
+const { httpFetch, setHostPolicy } = await import('../http.ts');
+
+const HOST = '127.0.0.1';
+
+// Answers after `delay` ms; `respond` can replace the default 200
+let delay = 0;
+let respond: ((res: http.ServerResponse, hit: number) => boolean) | null = null;
+let inFlight = 0;
+let mostInFlight = 0;
+let arrivals: number[] = [];
+
+const server = http.createServer((_req, res) => {
+  arrivals.push(Date.now());
+  inFlight++;
+  mostInFlight = Math.max(mostInFlight, inFlight);
+  setTimeout(() => {
+    inFlight--;
+    if (respond?.(res, arrivals.length)) return;
+    res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+  }, delay);
+});
+let baseUrl = '';
+
+before(async () => {
+  server.listen(0, HOST);
+  await new Promise<void>((resolve) => server.once('listening', () => resolve()));
+  baseUrl = `http://${HOST}:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  delay = 0;
+  respond = null;
+  inFlight = 0;
+  mostInFlight = 0;
+  arrivals = [];
+});
+
+describe('httpFetch', () => {
+  it('keeps no more than the host concurrency in flight', async () => {
+    setHostPolicy(HOST, { concurrency: 2, minInterval: 0, timeout: 5000, retries: 0 });
+    delay = 50;
+    const responses = await Promise.all(Array.from({ length: 6 }, () => httpFetch(baseUrl)));
+    assert.ok(responses.every((res) => res.ok));
+    assert.equal(mostInFlight, 2);
+  });
+
+  it('spaces request starts by the host minInterval', async () => {
+    setHostPolicy(HOST, { concurrency: 8, minInterval: 100, timeout: 5000, retries: 0 });
+    await Promise.all(Array.from({ length: 4 }, () => httpFetch(baseUrl)));
+    assert.equal(arrivals.length, 4);
+    // Three gaps of 100 ms, less some slack for connection setup jitter
+    const span = arrivals[3]! - arrivals[0]!;
+    assert.ok(span >= 250, `four requests arrived within ${span} ms`);
+  });
+
+  it('waits out Retry-After before retrying a 429', async () => {
+    setHostPolicy(HOST, { concurrency: 8, minInterval: 0, timeout: 5000, retries: 1 });
+    respond = (res, hit) => {
+      if (hit > 1) return false;
+      res.writeHead(429, { 'Retry-After': '1' }).end();
+      return true;
+    };
+    const startedAt = Date.now();
+    const res = await httpFetch(baseUrl);
+    assert.equal(res.status, 200);
+    assert.equal(arrivals.length, 2);
+    assert.ok(arrivals[1]! - startedAt >= 990);
+  });
+
+  it('gives up on a 429 when retries run out', async () => {
+    setHostPolicy(HOST, { concurrency: 8, minInterval: 0, timeout: 5000, retries: 0 });
+    respond = (res) => {
+      res.writeHead(429, { 'Retry-After': '1' }).end();
+      return true;
+    };
+    const res = await httpFetch(baseUrl);
+    assert.equal(res.status, 429);
+    assert.equal(arrivals.length, 1);
+  });
+
+  it('times the request, not the wait for a slot', async () => {
+    // Six 150 ms requests one at a time take 900 ms, well past the timeout
+    setHostPolicy(HOST, { concurrency: 1, minInterval: 0, timeout: 400, retries: 0 });
+    delay = 150;
+    const responses = await Promise.all(Array.from({ length: 6 }, () => httpFetch(baseUrl)));
+    assert.ok(responses.every((res) => res.ok));
+    assert.equal(mostInFlight, 1);
+  });
+
+  it('aborts a request slower than the timeout', async () => {
+    setHostPolicy(HOST, { concurrency: 1, minInterval: 0, timeout: 100, retries: 0 });
+    delay = 300;
+    await assert.rejects(httpFetch(baseUrl), { name: 'TimeoutError' });
+  });
+});
@@ -0,0 +1,277 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, parseExport } from '../importParsers.ts';
+import { matchEntries, matchEntry, normalizeTitle } from '../importMatch.ts';
+import { jsonBody, startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import type { ImportCandidate, ImportEntry, ImportMatch, ImportPreview, ImportResult, WatchedItem, WatchEvent } from '../types.ts';
+
+const entriesOf = (result: ReturnType<typeof parseExport>): ImportEntry[] => {
+  assert.ok('entries' in result, 'error' in result ? result.error : '');
+  return result.entries;
+};
+
+describe('parsing exports', () => {
+  it('reads quoted CSV fields', () => {
+    assert.deepEqual(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n'), [['a', 'b'], ['x, y', 'say "hi"\nthere']]);
+  });
+
+  it('reads a Letterboxd diary, merging rewatches', () => {
+    const csv = [
+      'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date',
+      '2024-01-03,"Paris, Texas",1984,https://boxd.it/a,4.5,,,2024-01-02',
+      '2024-06-10,"Paris, Texas",1984,https://boxd.it/b,5,Yes,,2024-06-09',
+      '2024-02-01,Alien,1979,https://boxd.it/c,,,,2024-02-01',
+    ].join('\n');
+    const [paris, alien] = entriesOf(parseExport('letterboxd', csv));
+    assert.equal(paris?.title, 'Paris, Texas');
+    assert.equal(paris?.year, '1984');
+    assert.equal(paris?.rating, 5);
+    assert.deepEqual(paris?.viewings, [{ date: '2024-01-02', rewatch: false }, { date: '2024-06-09', rewatch: true }]);
+    assert.equal(alien?.rating, null);
+  });
+
+  it('reads a Goodreads library, sending to-read to the backlog', () => {
+    const csv = [
+      'Book Id,Title,Author,My Rating,Year Published,Original Publication Year,Date Read,Date Added,Exclusive Shelf,My Review',
+      '1,"The Name of the Wind (The Kingkiller Chronicle, #1)",Patrick Rothfuss,4,2007,2007,2023/05/06,2023/01/01,read,Loved it<br/>Really',
+      '2,Piranesi,Susanna Clarke,0,2020,2020,,2024/03/03,to-read,',
+      '3,Dune,Frank Herbert,0,1965,1965,,2024/03/03,currently-reading,',
+    ].join('\n');
+    const [wind, piranesi, ...rest] = entriesOf(parseExport('goodreads', csv));
+    assert.deepEqual(rest, []);
+    assert.equal(wind?.title, 'The Name of the Wind');
+    assert.equal(wind?.creator, 'Patrick Rothfuss');
+    assert.equal(wind?.review, 'Loved it\nReally');
+    assert.deepEqual(wind?.viewings, [{ date: '2023-05-06', rewatch: false }]);
+    assert.equal(piranesi?.status, 'want_to');
+    assert.equal(piranesi?.rating, null);
+    assert.deepEqual(piranesi?.viewings, []);
+  });
+
+  it('reads Trakt history, folding episodes into their show', () => {
+    const json = JSON.stringify([
+      { watched_at: '2024-03-01T20:00:00.000Z', type: 'movie', movie: { title: 'Heat', year: 1995, ids: { tmdb: 949 } } },
+      { watched_at: '2024-03-02T20:00:00.000Z', type: 'episode', show: { title: 'Severance', year: 2022, ids: { tmdb: 95396 } }, episode: { season: 1, number: 1 } },
+      { watched_at: '2024-03-02T21:00:00.000Z', type: 'episode', show: { title: 'Severance', year: 2022, ids: { tmdb: 95396 } }, episode: { season: 1, number: 2 } },
+      { watched_at: '2024-05-01T20:00:00.000Z', type: 'movie', movie: { title: 'Heat', year: 1995, ids: { tmdb: 949 } } },
+      { rated_at: '2024-05-01T22:00:00.000Z', rating: 9, type: 'movie', movie: { title: 'Heat', year: 1995, ids: { tmdb: 949 } } },
+    ]);
+    const [heat, severance] = entriesOf(parseExport('trakt', json));
+    assert.equal(heat?.externalId, '949');
+    assert.equal(heat?.rating, 4.5);
+    assert.deepEqual(heat?.viewings, [{ date: '2024-03-01', rewatch: false }, { date: '2024-05-01', rewatch: true }]);
+    assert.equal(severance?.category, 'tv');
+    assert.deepEqual(severance?.viewings.map((v) => v.date), ['2024-03-02']);
+  });
+
+  it('reads Last.fm scrobbles as one viewing per album per day', () => {
+    const csv = [
+      'Björk,Homogenic,Hunter,03 Feb 2024 10:00',
+      'Björk,Homogenic,Jóga,03 Feb 2024 10:05',
+      'Björk,Homogenic,Bachelorette,04 Feb 2024 09:00',
+      'Some Artist,,A Single,04 Feb 2024 09:10',
+    ].join('\n');
+    const [homogenic, ...rest] = entriesOf(parseExport('lastfm', csv));
+    assert.deepEqual(rest, []);
+    assert.equal(homogenic?.creator, 'Björk');
+    assert.deepEqual(homogenic?.viewings, [{ date: '2024-02-03', rewatch: false }, { date: '2024-02-04', rewatch: true }]);
+
+    const json = JSON.stringify({ recenttracks: { track: [{ artist: { '#text': 'Björk' }, album: { '#text': 'Vespertine' }, name: 'Pagan Poetry', date: { uts: '1706954400' } }] } });
+    assert.deepEqual(entriesOf(parseExport('lastfm', json)).map((e) => e.title), ['Vespertine']);
+  });
+
+  it('rejects files in the wrong format', () => {
+    assert.ok('error' in parseExport('goodreads', 'Date,Name,Year\n2024-01-01,Alien,1979'));
+    assert.ok('error' in parseExport('trakt', 'not json'));
+  });
+});
+
+describe('matching imported titles', () => {
+  const entry = (fields: Partial<ImportEntry>): ImportEntry => ({
+    category: 'movie', title: 'Alien', year: null, creator: null, externalId: null,
+    status: 'done', rating: null, review: null, viewings: [], ...fields,
+  });
+  const candidate = (id: string, title: string, year: string | null, subtitle = ''): ImportCandidate => ({ id, title, subtitle, imageUrl: null, year });
+  const results = [candidate('1', 'Alien', '1979'), candidate('2', 'Alien', '2025'), candidate('3', 'Aliens', '1986')];
+  const search = async () => results;
+
+  it('folds case, accents and articles', () => {
+    assert.equal(normalizeTitle('The Thing'), normalizeTitle('thing'));
+    assert.equal(normalizeTitle('Amélie'), 'amelie');
+    assert.equal(normalizeTitle('Fast & Furious'), 'fast and furious');
+  });
+
+  it('is sure when the title and year agree', async () => {
+    const match = await matchEntry(entry({ year: '1979' }), search);
+    assert.equal(match.match, 'matched');
+    assert.equal(match.suggested, 0);
+  });
+
+  it('trusts the provider id from the export', async () => {
+    const match = await matchEntry(entry({ title: 'Alien: Director\'s Cut', externalId: '2' }), search);
+    assert.equal(match.match, 'matched');
+    assert.equal(match.suggested, 1);
+  });
+
+  it('asks when several candidates fit', async () => {
+    const match = await matchEntry(entry({}), search);
+    assert.equal(match.match, 'ambiguous');
+    assert.equal(match.suggested, 0);
+    assert.equal((await matchEntry(entry({ title: 'Prometheus' }), search)).suggested, null);
+  });
+
+  it('reports titles the search found nothing for', async () => {
+    assert.equal((await matchEntry(entry({}), async () => [])).match, 'unmatched');
+  });
+
+  it('tells a failed search apart from an empty one', async () => {
+    const match = await matchEntry(entry({}), async () => { throw new Error('down'); });
+    assert.equal(match.match, 'error');
+    assert.deepEqual(match.candidates, []);
+  });
+
+  it('runs a few searches at a time, keeping the entries in order', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const titles = Array.from({ length: 20 }, (_, i) => `Title ${i}`);
+    const matches = await matchEntries(titles.map((title) => entry({ title })), {
+      movie: async (query) => {
+        inFlight++;
+        mostInFlight = Math.max(mostInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, Math.random() * 10));
+        inFlight--;
+        return [candidate(query, query, null)];
+      },
+    });
+    assert.equal(mostInFlight, 4);
+    assert.deepEqual(matches.map((m) => m.candidates[0]?.id), titles);
+  });
+});
+
+describe('import API', () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startTestServer();
+    token = (await server.login('alice')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const preview = (source: string, text: string | null) => {
+    const form = new FormData();
+    if (text !== null) form.append('file', new Blob([text], { type: 'text/csv' }), 'export.csv');
+    return server.request(`/api/import/${source}/preview`, { method: 'POST', token, body: form });
+  };
+
+  const commit = (items: unknown[]) =>
+    server.request('/api/import/commit', { method: 'POST', token, ...jsonBody({ items }) });
+
+  it('matches each title in an export', async () => {
+    const csv = [
+      'Book Id,Title,Author,My Rating,Date Read,Date Added,Exclusive Shelf',
+      '1,The Left Hand of Darkness,Ursula K. Le Guin,5,2024/03/02,2024/01/01,read',
+      '2,The Dispossessed,Ursula K. Le Guin,4,2024/04/02,2024/01/01,read',
+    ].join('\n');
+    const res = await preview('goodreads', csv);
+    assert.equal(res.status, 200);
+    const body = await res.json() as ImportPreview;
+    assert.equal(body.leftOut, 0);
+    assert.deepEqual(body.matches.map((m) => m.match), ['matched', 'ambiguous']);
+    assert.equal(body.matches[0]?.candidates[body.matches[0].suggested!]?.id, 'OL59863W');
+  });
+
+  it('matches films, shows and albums against their providers', async () => {
+    const letterboxd = await preview('letterboxd', [
+      'Date,Name,Year,Letterboxd URI,Rating',
+      '2025-10-20,The Quiet Orchard,2025,https://boxd.it/q,4',
+    ].join('\n'));
+    assert.equal(letterboxd.status, 200);
+    const [orchard] = (await letterboxd.json() as ImportPreview).matches;
+    assert.equal(orchard?.match, 'matched');
+    assert.equal(orchard?.candidates[orchard.suggested!]?.id, '5001');
+
+    const trakt = await preview('trakt', JSON.stringify([
+      { watched_at: '2024-03-01T20:00:00.000Z', type: 'movie', movie: { title: 'The Quiet Orchard', year: 1988, ids: { tmdb: 5101 } } },
+      { watched_at: '2024-03-02T20:00:00.000Z', type: 'episode', show: { title: 'Harbour Lights', year: 2019, ids: {} }, episode: { season: 1, number: 1 } },
+    ]));
+    assert.equal(trakt.status, 200);
+    const traktMatches = (await trakt.json() as ImportPreview).matches;
+    assert.deepEqual(traktMatches.map((m) => m.match), ['matched', 'matched']);
+    assert.deepEqual(traktMatches.map((m) => m.candidates[m.suggested!]?.id), ['5101', '7001']);
+
+    const lastfm = await preview('lastfm', 'The Lowland Choir,Paper Lanterns,Harvest Song,03 Feb 2024 10:00');
+    assert.equal(lastfm.status, 200);
+    const [lanterns] = (await lastfm.json() as ImportPreview).matches;
+    assert.deepEqual(lanterns?.candidates.map((c) => c.id), ['The Lowland Choir::Paper Lanterns', 'The Lowland Choir::Paper Lanterns (Live)']);
+    assert.equal(lanterns?.match, 'matched');
+  });
+
+  it('searches again for entries that failed', async () => {
+    const res = await server.request('/api/import/match', {
+      method: 'POST',
+      token,
+      ...jsonBody({
+        entries: [{
+          category: 'book', title: 'The Left Hand of Darkness', year: null, creator: 'Ursula K. Le Guin',
+          externalId: null, status: 'done', rating: null, review: null, viewings: [],
+        }],
+      }),
+    });
+    assert.equal(res.status, 200);
+    const matches = await res.json() as ImportMatch[];
+    assert.equal(matches[0]?.match, 'matched');
+  });
+
+  it('checks the source and the file', async () => {
+    assert.equal((await preview('imdb', 'x')).status, 400);
+    assert.equal((await preview('goodreads', null)).status, 400);
+    const res = await preview('goodreads', 'Date,Name\n2024-01-01,Alien');
+    assert.equal(res.status, 400);
+    assert.match((await res.json() as { error: string }).error, /Goodreads/);
+  });
+
+  it('saves items with their ratings, reviews and dated viewings', async () => {
+    const res = await commit([
+      {
+        category: 'book', id: 'OL59863W', title: 'The Left Hand of Darkness', subtitle: 'Ursula K. Le Guin',
+        rating: 4.5, review: 'Winter.', viewings: [{ date: '2024-03-02' }, { date: '2025-01-10', rewatch: true }],
+      },
+      { category: 'book', id: 'OL1W', title: 'To Read Later', status: 'want_to' },
+    ]);
+    assert.equal(res.status, 200);
+    assert.deepEqual(await res.json() as ImportResult, { imported: 2, skipped: 0 });
+
+    const [book] = await (await server.request('/api/watched/book', { token })).json() as WatchedItem[];
+    assert.equal(book?.rating, 4.5);
+    assert.equal(book?.review, 'Winter.');
+    assert.equal(book?.addedAt, '2024-03-02T00:00:00.000Z');
+    const events = await (await server.request('/api/watched/book/OL59863W/events', { token })).json() as WatchEvent[];
+    assert.deepEqual(events.map((e) => `${e.date}:${e.rewatch}`), ['2025-01-10:true', '2024-03-02:false']);
+
+    const backlog = await (await server.request('/api/watched/backlog', { token })).json() as WatchedItem[];
+    assert.deepEqual(backlog.map((item) => item.id), ['OL1W']);
+  });
+
+  it('skips items that are already tracked and moves saved ones into the log', async () => {
+    const res = await commit([
+      { category: 'book', id: 'OL59863W', title: 'The Left Hand of Darkness', viewings: [{ date: '2024-09-09' }] },
+      { category: 'book', id: 'OL1W', title: 'To Read Later', status: 'want_to' },
+      { category: 'book', id: 'OL1W', title: 'To Read Later', viewings: [{ date: '2024-10-01' }] },
+    ]);
+    assert.deepEqual(await res.json() as ImportResult, { imported: 1, skipped: 2 });
+    const events = await (await server.request('/api/watched/book/OL59863W/events', { token })).json() as WatchEvent[];
+    assert.equal(events.length, 2);
+    assert.deepEqual(await (await server.request('/api/watched/backlog', { token })).json(), []);
+  });
+
+  it('validates committed items', async () => {
+    assert.equal((await commit([])).status, 400);
+    assert.equal((await commit([{ category: 'book', id: 'x', title: 'x', rating: 7 }])).status, 400);
+    assert.equal((await commit([{ category: 'book', id: 'x', title: 'x', viewings: [{ date: '2024-13-01' }] }])).status, 400);
+  });
+});
@@ -0,0 +1,74 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { FeedSnapshot } from '../db.ts';
+import type { AlbumRelease, ChartsResponse, FeedResponse } from '../types.ts';
+
+// Runs in a scratch directory so Spotify tokens land in its own token file.
+// Its fixtures lack Last.fm's top artists chart, so that one load fails.
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dashboard-music-'));
+fs.cpSync(path.join(process.cwd(), 'fixtures'), path.join(workDir, 'fixtures'), { recursive: true });
+fs.rmSync(path.join(workDir, 'fixtures', 'ws.audioscrobbler.com', 'GET-2.0-chart.gettopartists.sample.json'));
+process.chdir(workDir);
+const { startTestServer } = await import('./harness.ts');
+type TestServer = Awaited<ReturnType<typeof startTestServer>>;
+
+describe('music', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer({ SPOTIFY_CLIENT_ID: 'spotify-client', SPOTIFY_CLIENT_SECRET: 'spotify-secret' });
+  });
+
+  after(async () => {
+    await server.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const upcoming = async (username: string) => {
+    const { token } = await server.login(username);
+    const res = await server.request('/api/music/upcoming', { token });
+    assert.equal(res.status, 200);
+    return await res.json() as FeedResponse<AlbumRelease>;
+  };
+
+  it('marks library artists for the connected user only', async () => {
+    // Requests that share a refresh are all handed the same snapshot; this
+    // store does the same for every read, so a change one user makes shows
+    const { snapshotStore } = server.stores;
+    const read = snapshotStore.get.bind(snapshotStore);
+    const shared = new Map<string, FeedSnapshot>();
+    snapshotStore.get = async (key) => {
+      if (!shared.has(key)) {
+        const snapshot = await read(key);
+        if (snapshot) shared.set(key, snapshot);
+      }
+      return shared.get(key) ?? null;
+    };
+
+    // alice (id 1) has connected Spotify; bob hasn't
+    const tokens = { 1: { access_token: 'access', refresh_token: 'refresh', expires_at: Date.now() + 60 * 60 * 1000 } };
+    fs.writeFileSync('.spotify-tokens.json', JSON.stringify(tokens));
+
+    await upcoming('bob');
+    const alice = await upcoming('alice');
+    assert.deepEqual(alice.items.filter((a) => a.inSpotifyLibrary).map((a) => a.title), ['Harbour Lights']);
+
+    const bob = await upcoming('bob');
+    assert.ok(bob.items.length > 0);
+    assert.ok(bob.items.every((a) => !a.inSpotifyLibrary));
+    assert.deepEqual(bob.issues.map((i) => i.step), ['spotify-library']);
+  });
+
+  it('names the charts that failed to load', async () => {
+    const { token } = await server.login('alice');
+    const res = await server.request('/api/music/charts', { token });
+    assert.equal(res.status, 200);
+    const charts = await res.json() as ChartsResponse;
+    assert.ok(charts.topTracks.length > 0);
+    assert.deepEqual(charts.topArtists, []);
+    assert.deepEqual(charts.issues, [{ step: 'charts', status: 'failed', message: "Couldn't load top artists" }]);
+  });
+});
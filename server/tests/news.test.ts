@@ -0,0 +1,27 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import type { FeedIssue, NewsItem } from '../types.ts';
+
+describe('news', () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startTestServer();
+    token = (await server.login('alice')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('replays every feed from fixtures', async () => {
+    const res = await server.request('/api/news', { token });
+    assert.equal(res.status, 200);
+    const body = await res.json() as { items: NewsItem[]; issues: FeedIssue[] };
+    assert.deepEqual(body.issues, []);
+    assert.equal(new Set(body.items.map((item) => item.source)).size, 11);
+  });
+});
@@ -0,0 +1,49 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import type { DirectorFilm } from '../types.ts';
+
+// Each route here is answered from the fixtures recorded for its provider
+describe('search', () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startTestServer();
+    token = (await server.login('alice')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const search = async <T>(path: string): Promise<T> => {
+    const res = await server.request(path, { token });
+    assert.equal(res.status, 200, path);
+    return await res.json() as T;
+  };
+
+  it('finds movies', async () => {
+    const results = await search<{ id: number; title: string; releaseDate: string }[]>('/api/movies/search?q=The+Quiet+Orchard');
+    assert.deepEqual(results.map((m) => `${m.id}:${m.releaseDate}`), ['5001:2025-10-17', '5101:1988-04-22', '5102:2012-09-07']);
+  });
+
+  it('finds TV shows', async () => {
+    const results = await search<{ id: number; subtitle: string; imageUrl: string | null }[]>('/api/tv/search?q=Harbour+Lights');
+    assert.deepEqual(results.map((s) => `${s.id}:${s.subtitle}`), ['7001:2019', '7002:2024']);
+    assert.equal(results[1]?.imageUrl, null);
+  });
+
+  it('finds albums', async () => {
+    const results = await search<{ id: string; imageUrl: string | null }[]>('/api/albums/search?q=Paper+Lanterns');
+    assert.equal(results[0]?.id, 'The Lowland Choir::Paper Lanterns');
+    assert.match(results[0]?.imageUrl ?? '', /300x300/);
+    assert.equal(results[1]?.imageUrl, null);
+  });
+
+  it('lists a director\'s films, newest first', async () => {
+    const films = await search<DirectorFilm[]>('/api/movies/director/9001/filmography');
+    assert.deepEqual(films.map((f) => `${f.title} (${f.year})`), ['The Quiet Orchard (2025)', 'Salt and Iron (2019)', 'Northern Line (2014)']);
+  });
+});
@@ -0,0 +1,3 @@
+// Loaded before every test file (see the test script in package.json).
+// Upstream APIs are answered from fixtures/, so no test touches the network.
+process.env['MOCK_PROVIDERS'] = 'replay';
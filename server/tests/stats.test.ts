@@ -0,0 +1,140 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { computeWatchedStats } from '../stats.ts';
+import { CARD_HEIGHT, CARD_WIDTH } from '../yearInReview.ts';
+import { jsonBody, startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import type { WatchedItem, WatchedStats, WatchEvent } from '../types.ts';
+
+const item = (category: string, id: string, fields: Partial<WatchedItem> = {}): WatchedItem => ({
+  id,
+  category,
+  title: `${category} ${id}`,
+  subtitle: '',
+  imageUrl: null,
+  addedAt: '2026-01-01T00:00:00.000Z',
+  rating: null,
+  review: null,
+  director: null,
+  status: 'done',
+  ...fields,
+});
+
+let nextId = 1;
+const event = (category: string, itemId: string, date: string, rewatch = false): WatchEvent => ({
+  id: nextId++,
+  category,
+  itemId,
+  date,
+  notes: '',
+  rewatch,
+  createdAt: `${date}T12:00:00.000Z`,
+});
+
+describe('computeWatchedStats', () => {
+  const items = [
+    item('movie', 'm1', { director: 'Agnès Varda', rating: 4.5 }),
+    item('movie', 'm2', { director: 'Agnès Varda', rating: 3 }),
+    item('movie', 'm3', { director: 'Chantal Akerman' }),
+    item('book', 'b1', { subtitle: 'Ursula K. Le Guin', rating: 5 }),
+    item('album', 'a1', { subtitle: 'Björk', rating: 4.5 }),
+  ];
+  const events = [
+    event('movie', 'm1', '2026-01-05'),
+    event('movie', 'm1', '2026-03-10', true),
+    event('movie', 'm2', '2026-03-12'),
+    event('movie', 'm3', '2025-12-31'),
+    event('book', 'b1', '2026-03-01'),
+    event('album', 'a1', '2026-11-20'),
+  ];
+  const stats = computeWatchedStats(2026, items, events);
+
+  it('counts viewings in the year, rewatches included', () => {
+    assert.equal(stats.viewings, 5);
+    assert.equal(stats.rewatches, 1);
+    const movies = stats.categories.find((c) => c.category === 'movie');
+    assert.deepEqual(movies, { category: 'movie', viewings: 3, items: 2, averageRating: 3.75 });
+    assert.equal(stats.categories.length, 5);
+  });
+
+  it('counts by month and by year', () => {
+    assert.equal(stats.byMonth.length, 12);
+    assert.deepEqual(stats.byMonth[2], { period: '2026-03', counts: { movie: 2, book: 1 }, total: 3 });
+    assert.equal(stats.byMonth[1]?.total, 0);
+    assert.deepEqual(stats.byYear.map((y) => `${y.period}:${y.total}`), ['2025:1', '2026:5']);
+  });
+
+  it('rates each item once', () => {
+    assert.equal(stats.ratings.rated, 4);
+    assert.equal(stats.ratings.average, 4.25);
+    assert.equal(stats.ratings.distribution.length, 10);
+    assert.deepEqual(stats.ratings.distribution.find((d) => d.rating === 4.5), { rating: 4.5, count: 2 });
+  });
+
+  it('ranks directors and creators of the year\'s items', () => {
+    assert.deepEqual(stats.topDirectors, [{ name: 'Agnès Varda', category: 'movie', count: 2 }]);
+    assert.deepEqual(stats.topCreators.map((c) => c.name), ['Björk', 'Ursula K. Le Guin']);
+  });
+
+  it('is empty for a year without viewings', () => {
+    const empty = computeWatchedStats(2020, items, events);
+    assert.equal(empty.viewings, 0);
+    assert.equal(empty.ratings.average, null);
+    assert.deepEqual(empty.topDirectors, []);
+  });
+});
+
+describe('stats API', () => {
+  let server: TestServer;
+  let alice: string;
+
+  before(async () => {
+    server = await startTestServer();
+    alice = (await server.login('alice')).token;
+    await server.request('/api/watched/book', { method: 'POST', token: alice, ...jsonBody({ id: 'b1', title: 'A Book', subtitle: 'An Author', watchedOn: '2026-02-14' }) });
+    await server.request('/api/watched/book/b1/rating', { method: 'PATCH', token: alice, ...jsonBody({ rating: 4.5 }) });
+    await server.request('/api/watched/game', { method: 'POST', token: alice, ...jsonBody({ id: 'g1', title: 'A Game', watchedOn: '2025-06-01' }) });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('summarises the requested year', async () => {
+    const res = await server.request('/api/stats?year=2026', { token: alice });
+    assert.equal(res.status, 200);
+    const stats = await res.json() as WatchedStats;
+    assert.equal(stats.year, 2026);
+    assert.equal(stats.viewings, 1);
+    assert.equal(stats.ratings.average, 4.5);
+    assert.deepEqual(stats.topCreators, [{ name: 'An Author', category: 'book', count: 1 }]);
+    assert.deepEqual(stats.byYear.map((y) => y.period), ['2025', '2026']);
+  });
+
+  it('keeps each user\'s stats apart', async () => {
+    const bob = (await server.login('bob')).token;
+    const stats = await (await server.request('/api/stats?year=2026', { token: bob })).json() as WatchedStats;
+    assert.equal(stats.viewings, 0);
+    assert.deepEqual(stats.byYear, []);
+  });
+
+  it('checks the year', async () => {
+    assert.equal((await server.request('/api/stats?year=twenty', { token: alice })).status, 400);
+    assert.equal((await server.request('/api/stats?year=2026.5', { token: alice })).status, 400);
+  });
+
+  it('renders the year in review as a PNG', async () => {
+    const res = await server.request('/api/stats/card.png?year=2026', { token: alice });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get('content-type'), 'image/png');
+    const metadata = await sharp(Buffer.from(await res.arrayBuffer())).metadata();
+    assert.equal(metadata.format, 'png');
+    assert.equal(metadata.width, CARD_WIDTH);
+    assert.equal(metadata.height, CARD_HEIGHT);
+  });
+
+  it('requires a token for the card', async () => {
+    assert.equal((await server.request('/api/stats/card.png')).status, 401);
+  });
+});
@@ -0,0 +1,81 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { jsonBody, startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+import type { ApiError, WatchedItem } from '../types.ts';
+
+describe('request validation', () => {
+  let server: TestServer;
+  let token: string;
+
+  before(async () => {
+    server = await startTestServer({ OPENWEATHER_API_KEY: 'key' });
+    token = (await server.login('alice')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const rejected = async (res: Response) => {
+    assert.equal(res.status, 400);
+    const body = await res.json() as ApiError;
+    assert.match(body.error, /^Invalid request/);
+    return body.issues ?? [];
+  };
+
+  it('lists every issue with where it was found', async () => {
+    const res = await server.request('/api/watched/podcast', { method: 'POST', token, ...jsonBody({ id: 1, title: '', imageUrl: 42 }) });
+    const issues = await rejected(res);
+    assert.deepEqual(issues.map((issue) => `${issue.location}:${issue.path}`), ['params:category', 'body:title', 'body:imageUrl']);
+  });
+
+  it('checks the shape of watched items', async () => {
+    const add = (item: Record<string, unknown>) =>
+      server.request('/api/watched/book', { method: 'POST', token, ...jsonBody(item) });
+    assert.equal((await add({ id: { nested: true }, title: 'x' })).status, 400);
+    assert.equal((await add({ id: 'b1', title: ['x'] })).status, 400);
+    assert.equal((await add({ id: 'b1', title: 'x', subtitle: 7 })).status, 400);
+
+    const res = await add({ id: 42, title: '  Dune  ', imageUrl: null });
+    assert.equal(res.status, 200);
+    const [item] = await res.json() as WatchedItem[];
+    assert.equal(item?.id, '42');
+    assert.equal(item?.title, 'Dune');
+    assert.equal(item?.subtitle, '');
+  });
+
+  it('treats a request without a body as an empty one', async () => {
+    const issues = await rejected(await server.request('/api/auth/login', { method: 'POST' }));
+    assert.deepEqual(issues.map((issue) => issue.path), ['username', 'password']);
+  });
+
+  it('requires a search query', async () => {
+    for (const q of ['', '%20%20', undefined]) {
+      const path = q === undefined ? '/api/books/search' : `/api/books/search?q=${q}`;
+      await rejected(await server.request(path, { token }));
+    }
+  });
+
+  it('coerces numbers from the query and path', async () => {
+    await rejected(await server.request('/api/weather/forecast?lat=north&lon=2', { token }));
+    await rejected(await server.request('/api/weather/forecast?lat=91&lon=2', { token }));
+    await rejected(await server.request('/api/weather/forecast?lat=&lon=2', { token }));
+    await rejected(await server.request('/api/movies/director/-3/filmography', { token }));
+    await rejected(await server.request('/api/admin/auth-events?limit=5000', { token }));
+    assert.equal((await server.request('/api/admin/auth-events?limit=5', { token })).status, 200);
+  });
+
+  it('checks dates and categories', async () => {
+    await rejected(await server.request('/api/archive/game/2026-02-30', { token }));
+    await rejected(await server.request('/api/archive/podcast/2026-10-16', { token }));
+    await rejected(await server.request('/api/calendar?from=2026-10-01&to=2026-10-07&categories=game,podcast', { token }));
+    const issues = await rejected(await server.request('/api/calendar?from=2026-10-07&to=2026-10-01', { token }));
+    assert.deepEqual(issues, [{ location: 'query', path: '', message: 'Date range must span 1 to 42 days' }]);
+  });
+
+  it('checks release weeks', async () => {
+    await rejected(await server.request('/api/music/upcoming?friday=2026-10-15', { token }));
+    await rejected(await server.request('/api/music/upcoming?week=1.5', { token }));
+  });
+});
@@ -0,0 +1,236 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { jsonBody, startTestServer } from './harness.ts';
+import type { TestServer } from './harness.ts';
+
+interface WatchedItem {
+  id: string;
+  category: string;
+  title: string;
+  subtitle: string;
+  imageUrl: string | null;
+  rating: number | null;
+  review: string | null;
+  director: string | null;
+  status: string;
+}
+
+describe('watched items', () => {
+  let server: TestServer;
+  let alice: string;
+  let bob: string;
+
+  before(async () => {
+    server = await startTestServer();
+    alice = (await server.login('alice')).token;
+    bob = (await server.login('bob')).token;
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const list = async (token: string, category: string) => {
+    const res = await server.request(`/api/watched/${category}`, { token });
+    assert.equal(res.status, 200);
+    return await res.json() as WatchedItem[];
+  };
+
+  const add = (token: string, category: string, item: Record<string, unknown>) =>
+    server.request(`/api/watched/${category}`, { method: 'POST', token, ...jsonBody(item) });
+
+  const rate = (token: string, category: string, id: string, rating: unknown) =>
+    server.request(`/api/watched/${category}/${id}/rating`, { method: 'PATCH', token, ...jsonBody({ rating }) });
+
+  it('rejects unknown categories', async () => {
+    assert.equal((await server.request('/api/watched/podcast', { token: alice })).status, 400);
+    assert.equal((await add(alice, 'podcast', { id: 1, title: 'x' })).status, 400);
+  });
+
+  it('requires an id and a title', async () => {
+    assert.equal((await add(alice, 'book', { id: 'b1' })).status, 400);
+    assert.equal((await add(alice, 'book', { title: 'Untitled' })).status, 400);
+  });
+
+  it('adds, lists and removes items', async () => {
+    const res = await add(alice, 'book', { id: 'b1', title: 'The Hobbit', subtitle: 'J. R. R. Tolkien' });
+    assert.equal(res.status, 200);
+    const [item] = await res.json() as WatchedItem[];
+    assert.equal(item?.id, 'b1');
+    assert.equal(item?.subtitle, 'J. R. R. Tolkien');
+    assert.equal(item?.rating, null);
+    assert.equal(item?.imageUrl, null);
+
+    const removed = await server.request('/api/watched/book/b1', { method: 'DELETE', token: alice });
+    assert.equal(removed.status, 200);
+    assert.deepEqual(await removed.json(), []);
+  });
+
+  it('looks up the director of a movie', async () => {
+    await add(alice, 'movie', { id: 550, title: 'Fixture Movie' });
+    const [movie] = await list(alice, 'movie');
+    assert.equal(movie?.id, '550');
+    assert.equal(typeof movie?.director, 'string');
+  });
+
+  it('keeps each user\'s items apart', async () => {
+    await add(alice, 'game', { id: 'g1', title: 'Alice\'s game' });
+    await add(bob, 'game', { id: 'g2', title: 'Bob\'s game' });
+    assert.deepEqual((await list(alice, 'game')).map((item) => item.id), ['g1']);
+    assert.deepEqual((await list(bob, 'game')).map((item) => item.id), ['g2']);
+
+    await server.request('/api/watched/game/g1', { method: 'DELETE', token: bob });
+    assert.deepEqual((await list(alice, 'game')).map((item) => item.id), ['g1']);
+  });
+
+  describe('ratings', () => {
+    before(async () => {
+      await add(alice, 'album', { id: 'a1', title: 'An Album' });
+    });
+
+    it('sets and clears a rating', async () => {
+      const set = await rate(alice, 'album', 'a1', 4);
+      assert.equal(set.status, 200);
+      assert.equal((await set.json() as WatchedItem[])[0]?.rating, 4);
+
+      const cleared = await rate(alice, 'album', 'a1', null);
+      assert.equal((await cleared.json() as WatchedItem[])[0]?.rating, null);
+    });
+
+    it('takes half stars and can be changed', async () => {
+      await rate(alice, 'album', 'a1', 0.5);
+      const changed = await rate(alice, 'album', 'a1', 3.5);
+      assert.equal(changed.status, 200);
+      assert.equal((await changed.json() as WatchedItem[])[0]?.rating, 3.5);
+    });
+
+    for (const rating of [0, 6, 3.25, '4', undefined]) {
+      it(`rejects ${JSON.stringify(rating) ?? 'a missing rating'}`, async () => {
+        assert.equal((await rate(alice, 'album', 'a1', rating)).status, 400);
+      });
+    }
+  });
+
+  describe('reviews', () => {
+    const review = (token: string, id: string, body: unknown) =>
+      server.request(`/api/watched/album/${id}/review`, { method: 'PUT', token, ...jsonBody({ review: body }) });
+
+    before(async () => {
+      await add(alice, 'album', { id: 'r1', title: 'Reviewed Album' });
+    });
+
+    it('starts without one', async () => {
+      assert.equal((await list(alice, 'album')).find((item) => item.id === 'r1')?.review, null);
+    });
+
+    it('saves markdown as written, trimmed', async () => {
+      const res = await review(alice, 'r1', '  **Great** record.\n\n- side A\n- side B\n');
+      assert.equal(res.status, 200);
+      const item = (await res.json() as WatchedItem[]).find((i) => i.id === 'r1');
+      assert.equal(item?.review, '**Great** record.\n\n- side A\n- side B');
+    });
+
+    it('clears a blank review', async () => {
+      const res = await review(alice, 'r1', '   ');
+      assert.equal((await res.json() as WatchedItem[]).find((i) => i.id === 'r1')?.review, null);
+    });
+
+    it('rejects anything but text or null', async () => {
+      assert.equal((await review(alice, 'r1', 5)).status, 400);
+      assert.equal((await review(alice, 'r1', undefined)).status, 400);
+      assert.equal((await review(alice, 'r1', 'x'.repeat(20001))).status, 400);
+    });
+  });
+
+  describe('backlog', () => {
+    const save = (token: string, category: string, item: Record<string, unknown>) =>
+      server.request(`/api/watched/backlog/${category}`, { method: 'POST', token, ...jsonBody(item) });
+
+    const backlog = async (token: string) => {
+      const res = await server.request('/api/watched/backlog', { token });
+      assert.equal(res.status, 200);
+      return await res.json() as WatchedItem[];
+    };
+
+    it('keeps saved items out of the log', async () => {
+      const res = await save(alice, 'album', { id: 'later-1', title: 'Saved Album', subtitle: 'An Artist' });
+      assert.equal(res.status, 200);
+      const [saved] = await res.json() as WatchedItem[];
+      assert.equal(saved?.status, 'want_to');
+      assert.equal(saved?.category, 'album');
+      assert.ok(!(await list(alice, 'album')).some((item) => item.id === 'later-1'));
+      assert.deepEqual((await backlog(bob)), []);
+    });
+
+    it('lists every category, most recently saved first', async () => {
+      await save(alice, 'game', { id: 'later-2', title: 'Saved Game' });
+      assert.deepEqual((await backlog(alice)).map((item) => item.id), ['later-2', 'later-1']);
+    });
+
+    it('moves an item into the log when it is marked done', async () => {
+      const res = await server.request('/api/watched/backlog/album/later-1/done', { method: 'POST', token: alice });
+      assert.equal(res.status, 200);
+      assert.deepEqual((await res.json() as WatchedItem[]).map((item) => item.id), ['later-2']);
+      const done = (await list(alice, 'album')).find((item) => item.id === 'later-1');
+      assert.equal(done?.status, 'done');
+    });
+
+    it('moves an item across when it is logged directly', async () => {
+      await add(alice, 'game', { id: 'later-2', title: 'Saved Game' });
+      assert.deepEqual(await backlog(alice), []);
+      assert.ok((await list(alice, 'game')).some((item) => item.id === 'later-2'));
+    });
+
+    it('leaves logged items in the log when saved again', async () => {
+      await save(alice, 'game', { id: 'later-2', title: 'Saved Game' });
+      assert.deepEqual(await backlog(alice), []);
+    });
+
+    it('removes saved items', async () => {
+      await save(alice, 'book', { id: 'later-3', title: 'Saved Book' });
+      const res = await server.request('/api/watched/backlog/book/later-3', { method: 'DELETE', token: alice });
+      assert.deepEqual(await res.json(), []);
+    });
+  });
+
+  describe('cover upload', () => {
+    before(async () => {
+      await add(alice, 'tv', { id: 't1', title: 'A Show', imageUrl: 'https://example.com/poster.jpg' });
+    });
+
+    const upload = async (token: string, file: Blob | null) => {
+      const form = new FormData();
+      if (file) form.append('cover', file, 'poster.png');
+      return server.request('/api/watched/tv/t1/cover', { method: 'POST', token, body: form });
+    };
+
+    it('requires a file', async () => {
+      assert.equal((await upload(alice, null)).status, 400);
+    });
+
+    it('resizes the cover to a JPEG and serves it', async () => {
+      const png = await sharp({ create: { width: 800, height: 1200, channels: 3, background: '#336699' } }).png().toBuffer();
+      const res = await upload(alice, new Blob([new Uint8Array(png)], { type: 'image/png' }));
+      assert.equal(res.status, 200);
+      const [item] = await res.json() as WatchedItem[];
+      assert.equal(item?.imageUrl, '/api/covers/1-tv-t1.jpg');
+
+      const stored = await sharp(path.join(server.coversDir, '1-tv-t1.jpg')).metadata();
+      assert.equal(stored.format, 'jpeg');
+      assert.equal(stored.width, 400);
+      assert.deepEqual(fs.readdirSync(server.coversDir), ['1-tv-t1.jpg']);
+
+      const served = await server.request(item!.imageUrl!);
+      assert.equal(served.status, 200);
+      assert.equal(served.headers.get('content-type'), 'image/jpeg');
+    });
+
+    it('deletes the cover with the item', async () => {
+      await server.request('/api/watched/tv/t1', { method: 'DELETE', token: alice });
+      assert.deepEqual(fs.readdirSync(server.coversDir), []);
+    });
+  });
+});
@@ -1,4 +1,9 @@
-import type { MovieRelease, DirectorFilm } from './types.ts';
+import type { MovieRelease, DirectorFilm, CalendarEntry, FeedIssue, FeedResult } from './types.ts';
+import { addDays } from './dates.ts';
+import { apiCache } from './cache.ts';
+import { httpFetch } from './http.ts';
+
+const CALENDAR_CACHE = { ttl: 6 * 60 * 60 * 1000, staleWhileRevalidate: 24 * 60 * 60 * 1000 };
 
 function formatDate(d: Date): string {
   const yyyy = d.getFullYear();
@@ -7,8 +12,9 @@ function formatDate(d: Date): string {
   return `${yyyy}-${mm}-${dd}`;
 }
 
-function getReleaseWeek(): { friday: string; weekStart: string } {
-  const now = new Date();
+// The release week ending on the Friday of `now`'s week, shifted by
+// `weekOffset` weeks (negative for past weeks). Uses the server's local time.
+export function getReleaseWeek(now = new Date(), weekOffset = 0): { friday: string; weekStart: string } {
   const day = now.getDay(); // 0=Sun, 1=Mon, ..., 5=Fri, 6=Sat
   let diff: number;
   if (day === 6) {
@@ -22,7 +28,7 @@ function getReleaseWeek(): { friday: string; weekStart: string } {
     diff = 5 - day;
   }
   const friday = new Date(now);
-  friday.setDate(friday.getDate() + diff);
+  friday.setDate(friday.getDate() + diff + weekOffset * 7);
   const weekStart = new Date(friday);
   weekStart.setDate(weekStart.getDate() - 6); // Saturday before
   return { friday: formatDate(friday), weekStart: formatDate(weekStart) };
@@ -43,8 +49,10 @@ interface TMDBCreditsResponse {
   cast: { name: string; order: number }[];
 }
 
-export async function fetchUpcomingFridayMovies(apiKey: string): Promise<MovieRelease[]> {
-  const { friday, weekStart } = getReleaseWeek();
+// Theatrical releases in the week (Saturday to Friday) ending on `friday`.
+// Not cached: the movies feed snapshot is its cache.
+export async function fetchUpcomingFridayMovies(apiKey: string, friday = getReleaseWeek().friday): Promise<FeedResult<MovieRelease>> {
+  const weekStart = addDays(friday, -6);
 
   const url = new URL('https://api.themoviedb.org/3/discover/movie');
   url.searchParams.set('api_key', apiKey);
@@ -54,7 +62,7 @@ export async function fetchUpcomingFridayMovies(apiKey: string): Promise<MovieRe
   url.searchParams.set('region', 'US');
   url.searchParams.set('with_release_type', '2|3'); // theatrical
 
-  const res = await fetch(url.toString());
+  const res = await httpFetch(url.toString());
   if (!res.ok) throw new Error(`TMDB discover failed: ${res.status}`);
   const data = (await res.json()) as { results: TMDBMovie[] };
 
@@ -63,8 +71,8 @@ export async function fetchUpcomingFridayMovies(apiKey: string): Promise<MovieRe
   const creditResults = await Promise.allSettled(
     movies.map(async (movie) => {
       const creditsUrl = `https://api.themoviedb.org/3/movie/${movie.id}/credits?api_key=${apiKey}`;
-      const creditsRes = await fetch(creditsUrl);
-      if (!creditsRes.ok) return { director: null, directorId: null, cast: [] as string[] };
+      const creditsRes = await httpFetch(creditsUrl);
+      if (!creditsRes.ok) throw new Error(`TMDB credits failed: ${creditsRes.status}`);
       const credits = (await creditsRes.json()) as TMDBCreditsResponse;
       const directorEntry = credits.crew.find((c) => c.job === 'Director');
       const director = directorEntry?.name ?? null;
@@ -77,7 +85,7 @@ export async function fetchUpcomingFridayMovies(apiKey: string): Promise<MovieRe
     })
   );
 
-  return movies.map((movie, i): MovieRelease => {
+  const items = movies.map((movie, i): MovieRelease => {
     const creditResult = creditResults[i];
     const credits = creditResult?.status === 'fulfilled' ? creditResult.value : { director: null, directorId: null, cast: [] };
     return {
@@ -95,18 +103,65 @@ export async function fetchUpcomingFridayMovies(apiKey: string): Promise<MovieRe
       isHorror: movie.genre_ids.includes(27),
     };
   });
+
+  return { items, issues: failedLookups('credits', creditResults) };
+}
+
+// Reports the per-movie lookups that failed, if any
+function failedLookups(step: string, results: PromiseSettledResult<unknown>[]): FeedIssue[] {
+  const failed = results.filter((r) => r.status === 'rejected').length;
+  if (failed === 0) return [];
+  return [{ step, status: 'failed', message: `TMDB ${step} unavailable for ${failed} of ${results.length} movies` }];
+}
+
+// Theatrical US releases between two dates (inclusive), most popular first.
+// Skips per-movie credits, which would cost one request per title.
+export function fetchMovieCalendar(apiKey: string, from: string, to: string, maxPages = 5): Promise<CalendarEntry[]> {
+  return apiCache.getOrLoad(`tmdb:calendar:${from}:${to}:${maxPages}`, CALENDAR_CACHE, () => loadMovieCalendar(apiKey, from, to, maxPages));
+}
+
+async function loadMovieCalendar(apiKey: string, from: string, to: string, maxPages: number): Promise<CalendarEntry[]> {
+  const url = new URL('https://api.themoviedb.org/3/discover/movie');
+  url.searchParams.set('api_key', apiKey);
+  url.searchParams.set('primary_release_date.gte', from);
+  url.searchParams.set('primary_release_date.lte', to);
+  url.searchParams.set('sort_by', 'popularity.desc');
+  url.searchParams.set('region', 'US');
+  url.searchParams.set('with_release_type', '2|3'); // theatrical
+
+  const movies: TMDBMovie[] = [];
+  for (let page = 1; page <= maxPages; page++) {
+    url.searchParams.set('page', String(page));
+    const res = await httpFetch(url.toString());
+    if (!res.ok) throw new Error(`TMDB discover failed: ${res.status}`);
+    const data = (await res.json()) as { results: TMDBMovie[]; total_pages: number };
+    movies.push(...data.results);
+    if (page >= data.total_pages) break;
+  }
+
+  return movies.map((movie) => ({
+    id: String(movie.id),
+    category: 'movie',
+    title: movie.title,
+    subtitle: '',
+    imageUrl: movie.poster_path ? `https://image.tmdb.org/t/p/w300${movie.poster_path}` : null,
+    date: movie.release_date,
+    url: `https://www.themoviedb.org/movie/${movie.id}`,
+    popularity: movie.popularity,
+  }));
 }
 
 interface TMDBPersonCreditsResponse {
   crew: { title: string; release_date: string; poster_path: string | null; job: string }[];
 }
 
-export async function fetchNowPlayingMovies(apiKey: string): Promise<MovieRelease[]> {
+// Not cached: the nowPlaying feed snapshot is its cache
+export async function fetchNowPlayingMovies(apiKey: string): Promise<FeedResult<MovieRelease>> {
   const url = new URL('https://api.themoviedb.org/3/movie/now_playing');
   url.searchParams.set('api_key', apiKey);
   url.searchParams.set('region', 'US');
 
-  const res = await fetch(url.toString());
+  const res = await httpFetch(url.toString());
   if (!res.ok) throw new Error(`TMDB now_playing failed: ${res.status}`);
   const data = (await res.json()) as { results: TMDBMovie[]; total_pages: number };
 
@@ -114,7 +169,7 @@ export async function fetchNowPlayingMovies(apiKey: string): Promise<MovieReleas
   const maxPages = Math.min(data.total_pages, 10);
   for (let page = 2; page <= maxPages; page++) {
     url.searchParams.set('page', String(page));
-    pageFetches.push(fetch(url.toString()).then(r => r.json()));
+    pageFetches.push(httpFetch(url.toString()).then(r => r.json()));
   }
   const extraPages = await Promise.all(pageFetches);
   const movies = [...data.results, ...extraPages.flatMap((p: any) => p.results)] as TMDBMovie[];
@@ -122,8 +177,8 @@ export async function fetchNowPlayingMovies(apiKey: string): Promise<MovieReleas
   const detailResults = await Promise.allSettled(
     movies.map(async (movie) => {
       const detailUrl = `https://api.themoviedb.org/3/movie/${movie.id}?api_key=${apiKey}&append_to_response=credits`;
-      const detailRes = await fetch(detailUrl);
-      if (!detailRes.ok) return { director: null, directorId: null, cast: [] as string[], revenue: null as number | null };
+      const detailRes = await httpFetch(detailUrl);
+      if (!detailRes.ok) throw new Error(`TMDB movie details failed: ${detailRes.status}`);
       const detail = (await detailRes.json()) as { revenue?: number; credits?: TMDBCreditsResponse };
       const credits = detail.credits;
       const directorEntry = credits?.crew.find((c) => c.job === 'Director');
@@ -168,7 +223,7 @@ export async function fetchNowPlayingMovies(apiKey: string): Promise<MovieReleas
     return (b.popularity ?? 0) - (a.popularity ?? 0);
   });
 
-  return results;
+  return { items: results, issues: failedLookups('details', detailResults) };
 }
 
 export interface MovieSearchResult {
@@ -183,7 +238,7 @@ export async function searchMovies(apiKey: string, query: string): Promise<Movie
   url.searchParams.set('api_key', apiKey);
   url.searchParams.set('query', query);
 
-  const res = await fetch(url.toString());
+  const res = await httpFetch(url.toString());
   if (!res.ok) throw new Error(`TMDB search failed: ${res.status}`);
   const data = (await res.json()) as { results: TMDBMovie[] };
 
@@ -208,7 +263,7 @@ export async function searchTV(apiKey: string, query: string): Promise<TVSearchR
   url.searchParams.set('api_key', apiKey);
   url.searchParams.set('query', query);
 
-  const res = await fetch(url.toString());
+  const res = await httpFetch(url.toString());
   if (!res.ok) throw new Error(`TMDB TV search failed: ${res.status}`);
   const data = (await res.json()) as {
     results: Array<{
@@ -230,7 +285,7 @@ export async function searchTV(apiKey: string, query: string): Promise<TVSearchR
 
 export async function fetchMovieDirector(apiKey: string, movieId: string): Promise<string | null> {
   const url = `https://api.themoviedb.org/3/movie/${movieId}/credits?api_key=${apiKey}`;
-  const res = await fetch(url);
+  const res = await httpFetch(url);
   if (!res.ok) return null;
   const credits = (await res.json()) as TMDBCreditsResponse;
   return credits.crew.find((c) => c.job === 'Director')?.name ?? null;
@@ -238,7 +293,7 @@ export async function fetchMovieDirector(apiKey: string, movieId: string): Promi
 
 export async function fetchDirectorFilmography(apiKey: string, personId: number): Promise<DirectorFilm[]> {
   const url = `https://api.themoviedb.org/3/person/${personId}/movie_credits?api_key=${apiKey}`;
-  const res = await fetch(url);
+  const res = await httpFetch(url);
   if (!res.ok) throw new Error(`TMDB person credits failed: ${res.status}`);
   const data = (await res.json()) as TMDBPersonCreditsResponse;
 
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { hasDatabase, dbGetUsers, dbGetUserById, dbGetUserByUsername, dbInsertUser } from './db.ts';
+import type { User } from './db.ts';
+
+// Data created before multi-user accounts (legacy JSON rows, the old
+// single-row Spotify token) belongs to the first account created.
+export const LEGACY_OWNER_ID = 1;
+
+export interface NewUser {
+  username: string;
+  passwordHash: string;
+  isAdmin: boolean;
+}
+
+export interface UserStore {
+  list(): Promise<User[]>;
+  findById(id: number): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  create(user: NewUser): Promise<User>;
+}
+
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+// --- In-memory (tests) ---
+
+export function createMemoryUserStore(initial: User[] = []): UserStore {
+  const all: User[] = initial.map((u) => ({ ...u }));
+
+  return {
+    async list() {
+      return all.map((u) => ({ ...u }));
+    },
+    async findById(id) {
+      const user = all.find((u) => u.id === id);
+      return user ? { ...user } : null;
+    },
+    async findByUsername(username) {
+      const user = all.find((u) => u.username === normalizeUsername(username));
+      return user ? { ...user } : null;
+    },
+    async create(newUser) {
+      const username = normalizeUsername(newUser.username);
+      if (all.some((u) => u.username === username)) throw new Error(`User "${username}" already exists`);
+      const user: User = {
+        ...newUser,
+        username,
+        id: all.reduce((max, u) => Math.max(max, u.id), 0) + 1,
+        createdAt: new Date().toISOString(),
+      };
+      all.push(user);
+      return { ...user };
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresUserStore(): UserStore {
+  return {
+    list: dbGetUsers,
+    findById: dbGetUserById,
+    async findByUsername(username) {
+      return dbGetUserByUsername(normalizeUsername(username));
+    },
+    async create(newUser) {
+      const username = normalizeUsername(newUser.username);
+      if (await dbGetUserByUsername(username)) throw new Error(`User "${username}" already exists`);
+      const user = await dbInsertUser({ ...newUser, username, createdAt: new Date().toISOString() });
+      if (!user) throw new Error('Database unavailable');
+      return user;
+    },
+  };
+}
+
+// --- JSON file ---
+
+const USERS_FILE = path.join(process.cwd(), 'data', 'users.json');
+
+function readAll(): User[] {
+  try {
+    return JSON.parse(fs.readFileSync(USERS_FILE, 'utf-8')) as User[];
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(all: User[]): void {
+  const dir = path.dirname(USERS_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(USERS_FILE, JSON.stringify(all, null, 2));
+}
+
+export function createFileUserStore(): UserStore {
+  return {
+    async list() {
+      return readAll();
+    },
+    async findById(id) {
+      return readAll().find((u) => u.id === id) ?? null;
+    },
+    async findByUsername(username) {
+      return readAll().find((u) => u.username === normalizeUsername(username)) ?? null;
+    },
+    async create(newUser) {
+      const all = readAll();
+      const username = normalizeUsername(newUser.username);
+      if (all.some((u) => u.username === username)) throw new Error(`User "${username}" already exists`);
+      const user: User = {
+        ...newUser,
+        username,
+        id: all.reduce((max, u) => Math.max(max, u.id), 0) + 1,
+        createdAt: new Date().toISOString(),
+      };
+      all.push(user);
+      writeAll(all);
+      return user;
+    },
+  };
+}
+
+export function createUserStore(): UserStore {
+  return hasDatabase() ? createPostgresUserStore() : createFileUserStore();
+}
+
+// On a fresh deployment, turn the old shared dashboard password into the first
+// (admin) account so existing data keeps an owner. Returns false if no account
+// exists and none could be created.
+export async function ensureBootstrapUser(store: UserStore, passwordHash: string | undefined, username = 'admin'): Promise<boolean> {
+  if ((await store.list()).length > 0) return true;
+  if (!passwordHash) return false;
+  const user = await store.create({ username, passwordHash, isAdmin: true });
+  console.log(`Created initial admin account "${user.username}"`);
+  return true;
+}
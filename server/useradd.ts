@@ -0,0 +1,45 @@
+import 'dotenv/config';
+import readline from 'readline/promises';
+import bcrypt from 'bcryptjs';
+import { initDb, getPool } from './db.ts';
+import { createUserStore } from './userStore.ts';
+
+// Usage: npm run user:add -- <username> [--admin]
+// Prompts for the password, or reads it from NEW_USER_PASSWORD when set.
+
+const args = process.argv.slice(2);
+const username = args.find((a) => !a.startsWith('--'));
+const isAdmin = args.includes('--admin');
+
+(async () => {
+  if (!username) {
+    console.error('Usage: npm run user:add -- <username> [--admin]');
+    process.exit(1);
+  }
+
+  let password = process.env['NEW_USER_PASSWORD'];
+  if (!password) {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    password = await rl.question(`Password for ${username}: `);
+    rl.close();
+  }
+  if (!password) {
+    console.error('Password must not be empty');
+    process.exit(1);
+  }
+
+  try {
+    await initDb();
+    const user = await createUserStore().create({
+      username,
+      passwordHash: await bcrypt.hash(password, 10),
+      isAdmin,
+    });
+    console.log(`Created ${user.isAdmin ? 'admin ' : ''}user "${user.username}" (id ${user.id})`);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    await getPool()?.end();
+  }
+})();
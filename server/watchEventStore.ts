@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  hasDatabase,
+  dbGetWatchEvents,
+  dbGetItemWatchEvents,
+  dbInsertWatchEvent,
+  dbDeleteWatchEvent,
+  dbDeleteItemWatchEvents,
+} from './db.ts';
+import type { WatchedItem, WatchEvent } from './types.ts';
+
+// Every time a logged item was consumed. Lists are most recent first: by
+// date, then by when the event was logged.
+export interface WatchEventStore {
+  // from and to are inclusive YYYY-MM-DD dates
+  list(userId: number, from: string, to: string): Promise<WatchEvent[]>;
+  listForItem(userId: number, category: string, itemId: string): Promise<WatchEvent[]>;
+  add(userId: number, event: Omit<WatchEvent, 'id'>): Promise<void>;
+  remove(userId: number, category: string, itemId: string, id: number): Promise<void>;
+  // Called when the item leaves the log
+  removeForItem(userId: number, category: string, itemId: string): Promise<void>;
+}
+
+interface StoredWatchEvent extends WatchEvent {
+  userId: number;
+}
+
+function newestFirst(a: WatchEvent, b: WatchEvent): number {
+  return b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt) || b.id - a.id;
+}
+
+function withoutOwner(stored: StoredWatchEvent): WatchEvent {
+  const event: Partial<StoredWatchEvent> = { ...stored };
+  delete event.userId;
+  return event as WatchEvent;
+}
+
+function forItem(e: StoredWatchEvent, userId: number, category: string, itemId: string): boolean {
+  return e.userId === userId && e.category === category && e.itemId === itemId;
+}
+
+function inRange(all: StoredWatchEvent[], userId: number, from: string, to: string): WatchEvent[] {
+  return all.filter((e) => e.userId === userId && e.date >= from && e.date <= to).map(withoutOwner).sort(newestFirst);
+}
+
+function ofItem(all: StoredWatchEvent[], userId: number, category: string, itemId: string): WatchEvent[] {
+  return all.filter((e) => forItem(e, userId, category, itemId)).map(withoutOwner).sort(newestFirst);
+}
+
+function appendEvent(all: StoredWatchEvent[], userId: number, event: Omit<WatchEvent, 'id'>): StoredWatchEvent[] {
+  const id = all.reduce((max, e) => Math.max(max, e.id), 0) + 1;
+  return [...all, { ...event, id, userId }];
+}
+
+// --- In-memory (tests) ---
+
+export function createMemoryWatchEventStore(): WatchEventStore {
+  let all: StoredWatchEvent[] = [];
+
+  return {
+    async list(userId, from, to) {
+      return inRange(all, userId, from, to);
+    },
+    async listForItem(userId, category, itemId) {
+      return ofItem(all, userId, category, itemId);
+    },
+    async add(userId, event) {
+      all = appendEvent(all, userId, event);
+    },
+    async remove(userId, category, itemId, id) {
+      all = all.filter((e) => !(forItem(e, userId, category, itemId) && e.id === id));
+    },
+    async removeForItem(userId, category, itemId) {
+      all = all.filter((e) => !forItem(e, userId, category, itemId));
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresWatchEventStore(): WatchEventStore {
+  return {
+    async list(userId, from, to) {
+      return (await dbGetWatchEvents(userId, from, to)) ?? [];
+    },
+    async listForItem(userId, category, itemId) {
+      return (await dbGetItemWatchEvents(userId, category, itemId)) ?? [];
+    },
+    add: dbInsertWatchEvent,
+    remove: dbDeleteWatchEvent,
+    removeForItem: dbDeleteItemWatchEvents,
+  };
+}
+
+// --- JSON file ---
+
+const WATCH_EVENTS_FILE = path.join(process.cwd(), 'data', 'watch-events.json');
+
+function readAll(): StoredWatchEvent[] {
+  try {
+    return JSON.parse(fs.readFileSync(WATCH_EVENTS_FILE, 'utf-8')) as StoredWatchEvent[];
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(all: StoredWatchEvent[]): void {
+  const dir = path.dirname(WATCH_EVENTS_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(WATCH_EVENTS_FILE, JSON.stringify(all, null, 2));
+}
+
+export function createFileWatchEventStore(): WatchEventStore {
+  return {
+    async list(userId, from, to) {
+      return inRange(readAll(), userId, from, to);
+    },
+    async listForItem(userId, category, itemId) {
+      return ofItem(readAll(), userId, category, itemId);
+    },
+    async add(userId, event) {
+      writeAll(appendEvent(readAll(), userId, event));
+    },
+    async remove(userId, category, itemId, id) {
+      writeAll(readAll().filter((e) => !(forItem(e, userId, category, itemId) && e.id === id)));
+    },
+    async removeForItem(userId, category, itemId) {
+      writeAll(readAll().filter((e) => !forItem(e, userId, category, itemId)));
+    },
+  };
+}
+
+// JSON file migration: the first time the file store starts, give every
+// logged item one viewing, dated when it was logged
+export function migrateWatchEventsFile(logged: (Pick<WatchedItem, 'category' | 'id' | 'addedAt'> & { userId: number })[]): void {
+  if (hasDatabase() || fs.existsSync(WATCH_EVENTS_FILE)) return;
+  try {
+    const events = logged.reduce<StoredWatchEvent[]>((all, item) => appendEvent(all, item.userId, {
+      category: item.category,
+      itemId: item.id,
+      date: item.addedAt.slice(0, 10),
+      notes: '',
+      rewatch: false,
+      createdAt: item.addedAt,
+    }), []);
+    writeAll(events);
+    if (events.length > 0) console.log(`Added a viewing for each of ${events.length} logged items to watch-events.json`);
+  } catch (err) {
+    console.error('Failed to create watch-events.json:', err);
+  }
+}
+
+export function createWatchEventStore(): WatchEventStore {
+  return hasDatabase() ? createPostgresWatchEventStore() : createFileWatchEventStore();
+}
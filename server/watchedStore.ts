@@ -0,0 +1,277 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  hasDatabase,
+  dbGetWatchedItems,
+  dbGetBacklogItems,
+  dbInsertWatchedItem,
+  dbMarkWatchedItemDone,
+  dbDeleteWatchedItem,
+  dbUpdateWatchedItemRating,
+  dbUpdateWatchedItemReview,
+  dbUpdateWatchedItemImageUrl,
+} from './db.ts';
+import type { WatchedItem } from './db.ts';
+import type { WatchedStatus } from './types.ts';
+import { LEGACY_OWNER_ID } from './userStore.ts';
+
+export interface WatchedItemStore {
+  // The log: items marked done in one category
+  list(userId: number, category: string): Promise<WatchedItem[]>;
+  // Items saved for later across every category, most recently saved first
+  listBacklog(userId: number): Promise<WatchedItem[]>;
+  // Does nothing if the user already has the item, whatever its status
+  insert(userId: number, item: WatchedItem): Promise<void>;
+  markDone(userId: number, category: string, id: string, doneAt: string): Promise<void>;
+  remove(userId: number, category: string, id: string): Promise<void>;
+  updateRating(userId: number, category: string, id: string, rating: number | null): Promise<void>;
+  updateReview(userId: number, category: string, id: string, review: string | null): Promise<void>;
+  updateImageUrl(userId: number, category: string, id: string, imageUrl: string): Promise<void>;
+}
+
+// Items as persisted by the file and memory stores. Rows written before
+// multi-user accounts have no userId and belong to LEGACY_OWNER_ID; rows
+// written before the backlog have no status and are done, and rows written
+// before reviews have none.
+interface StoredWatchedItem extends Omit<WatchedItem, 'status' | 'review'> {
+  userId?: number;
+  status?: WatchedStatus;
+  review?: string | null;
+}
+
+function matches(i: StoredWatchedItem, userId: number, category: string, id?: string): boolean {
+  return (i.userId ?? LEGACY_OWNER_ID) === userId && i.category === category && (id === undefined || i.id === id);
+}
+
+function statusOf(i: StoredWatchedItem): WatchedStatus {
+  return i.status ?? 'done';
+}
+
+function withoutOwner(stored: StoredWatchedItem): WatchedItem {
+  const item = { ...stored, status: statusOf(stored), review: stored.review ?? null };
+  delete item.userId;
+  return item;
+}
+
+function logFor(all: StoredWatchedItem[], userId: number, category: string): WatchedItem[] {
+  return sortWatchedItems(all.filter((i) => matches(i, userId, category) && statusOf(i) === 'done').map(withoutOwner), category);
+}
+
+function backlogFor(all: StoredWatchedItem[], userId: number): WatchedItem[] {
+  // Reversed first so items saved in the same millisecond still come newest first
+  return all
+    .filter((i) => (i.userId ?? LEGACY_OWNER_ID) === userId && statusOf(i) === 'want_to')
+    .map(withoutOwner)
+    .reverse()
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+function markDoneIn(all: StoredWatchedItem[], userId: number, category: string, id: string, doneAt: string): void {
+  const item = all.find((i) => matches(i, userId, category, id));
+  if (item && statusOf(item) === 'want_to') {
+    item.status = 'done';
+    item.addedAt = doneAt;
+  }
+}
+
+// Movies and TV are ordered by release date (stored in subtitle), everything
+// else by most recently added. Ties fall back to most recently added.
+export function sortWatchedItems(items: WatchedItem[], category: string): WatchedItem[] {
+  const byAddedDesc = (a: WatchedItem, b: WatchedItem) => b.addedAt.localeCompare(a.addedAt);
+  if (category === 'movie' || category === 'tv') {
+    return [...items].sort((a, b) => b.subtitle.localeCompare(a.subtitle) || byAddedDesc(a, b));
+  }
+  return [...items].sort(byAddedDesc);
+}
+
+// --- In-memory (tests) ---
+
+export function createMemoryWatchedItemStore(initial: StoredWatchedItem[] = []): WatchedItemStore {
+  let all: StoredWatchedItem[] = initial.map((i) => ({ ...i }));
+
+  return {
+    async list(userId, category) {
+      return logFor(all, userId, category);
+    },
+    async listBacklog(userId) {
+      return backlogFor(all, userId);
+    },
+    async insert(userId, item) {
+      if (!all.some((i) => matches(i, userId, item.category, item.id))) all.push({ ...item, userId });
+    },
+    async markDone(userId, category, id, doneAt) {
+      markDoneIn(all, userId, category, id, doneAt);
+    },
+    async remove(userId, category, id) {
+      all = all.filter((i) => !matches(i, userId, category, id));
+    },
+    async updateRating(userId, category, id, rating) {
+      const item = all.find((i) => matches(i, userId, category, id));
+      if (item) item.rating = rating;
+    },
+    async updateReview(userId, category, id, review) {
+      const item = all.find((i) => matches(i, userId, category, id));
+      if (item) item.review = review;
+    },
+    async updateImageUrl(userId, category, id, imageUrl) {
+      const item = all.find((i) => matches(i, userId, category, id));
+      if (item) item.imageUrl = imageUrl;
+    },
+  };
+}
+
+// --- Postgres ---
+
+export function createPostgresWatchedItemStore(): WatchedItemStore {
+  return {
+    async list(userId, category) {
+      return sortWatchedItems((await dbGetWatchedItems(userId, category, 'done')) ?? [], category);
+    },
+    async listBacklog(userId) {
+      return (await dbGetBacklogItems(userId)) ?? [];
+    },
+    insert: dbInsertWatchedItem,
+    markDone: dbMarkWatchedItemDone,
+    remove: dbDeleteWatchedItem,
+    updateRating: dbUpdateWatchedItemRating,
+    updateReview: dbUpdateWatchedItemReview,
+    updateImageUrl: dbUpdateWatchedItemImageUrl,
+  };
+}
+
+// --- JSON file ---
+
+const OLD_WATCHED_FILE = path.join(process.cwd(), 'data', 'watched-movies.json');
+const WATCHED_ITEMS_FILE = path.join(process.cwd(), 'data', 'watched-items.json');
+
+interface LegacyWatchedMovie {
+  id: number;
+  title: string;
+  posterUrl: string | null;
+  releaseDate: string;
+  addedAt: string;
+}
+
+function readLegacyWatchedMovies(): StoredWatchedItem[] {
+  const old = JSON.parse(fs.readFileSync(OLD_WATCHED_FILE, 'utf-8')) as LegacyWatchedMovie[];
+  return old.map((m) => ({
+    id: String(m.id),
+    category: 'movie',
+    title: m.title,
+    subtitle: m.releaseDate ? m.releaseDate.slice(0, 4) : '',
+    imageUrl: m.posterUrl,
+    addedAt: m.addedAt,
+    rating: null,
+    director: null,
+    status: 'done',
+  }));
+}
+
+function readAll(): StoredWatchedItem[] | null {
+  try {
+    return JSON.parse(fs.readFileSync(WATCHED_ITEMS_FILE, 'utf-8')) as StoredWatchedItem[];
+  } catch {
+    return null;
+  }
+}
+
+function writeAll(all: StoredWatchedItem[]): void {
+  const dir = path.dirname(WATCHED_ITEMS_FILE);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(WATCHED_ITEMS_FILE, JSON.stringify(all, null, 2));
+}
+
+export function createFileWatchedItemStore(): WatchedItemStore {
+  // Mutations on a missing file are no-ops, matching the Postgres UPDATE/DELETE semantics
+  const mutate = (fn: (all: StoredWatchedItem[]) => StoredWatchedItem[]): void => {
+    const all = readAll();
+    if (!all) return;
+    writeAll(fn(all));
+  };
+
+  return {
+    async list(userId, category) {
+      const all = readAll();
+      if (all) return logFor(all, userId, category);
+      // Fall back to old watched-movies.json for movie category
+      if (category === 'movie' && userId === LEGACY_OWNER_ID) {
+        try {
+          return sortWatchedItems(readLegacyWatchedMovies().map(withoutOwner), category);
+        } catch {
+          return [];
+        }
+      }
+      return [];
+    },
+    async insert(userId, item) {
+      let all = readAll();
+      if (!all) {
+        // Start fresh — but try migrating old movies first
+        all = [];
+        if (fs.existsSync(OLD_WATCHED_FILE)) {
+          try {
+            all = readLegacyWatchedMovies();
+          } catch { /* ignore */ }
+        }
+      }
+      if (!all.some((i) => matches(i, userId, item.category, item.id))) all.push({ ...item, userId });
+      writeAll(all);
+    },
+    async listBacklog(userId) {
+      return backlogFor(readAll() ?? [], userId);
+    },
+    async markDone(userId, category, id, doneAt) {
+      mutate((all) => {
+        markDoneIn(all, userId, category, id, doneAt);
+        return all;
+      });
+    },
+    async remove(userId, category, id) {
+      mutate((all) => all.filter((i) => !matches(i, userId, category, id)));
+    },
+    async updateRating(userId, category, id, rating) {
+      mutate((all) => {
+        const item = all.find((i) => matches(i, userId, category, id));
+        if (item) item.rating = rating;
+        return all;
+      });
+    },
+    async updateReview(userId, category, id, review) {
+      mutate((all) => {
+        const item = all.find((i) => matches(i, userId, category, id));
+        if (item) item.review = review;
+        return all;
+      });
+    },
+    async updateImageUrl(userId, category, id, imageUrl) {
+      mutate((all) => {
+        const item = all.find((i) => matches(i, userId, category, id));
+        if (item) item.imageUrl = imageUrl;
+        return all;
+      });
+    },
+  };
+}
+
+// JSON file migration: copy watched-movies.json into watched-items.json if needed
+export function migrateLegacyWatchedFile(): void {
+  if (!fs.existsSync(OLD_WATCHED_FILE) || fs.existsSync(WATCHED_ITEMS_FILE)) return;
+  try {
+    const migrated = readLegacyWatchedMovies();
+    writeAll(migrated);
+    console.log(`Migrated ${migrated.length} movies from watched-movies.json to watched-items.json`);
+  } catch (err) {
+    console.error('Failed to migrate watched-movies.json:', err);
+  }
+}
+
+// Every user's log from the JSON file, for seeding the other file stores
+export function readFileLog(): (WatchedItem & { userId: number })[] {
+  return (readAll() ?? [])
+    .filter((i) => statusOf(i) === 'done')
+    .map((i) => ({ ...withoutOwner(i), userId: i.userId ?? LEGACY_OWNER_ID }));
+}
+
+export function createWatchedItemStore(): WatchedItemStore {
+  return hasDatabase() ? createPostgresWatchedItemStore() : createFileWatchedItemStore();
+}
@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+import type { WatchedStats } from './types.ts';
+
+// The shareable "year in review" card: an SVG drawn from the year's stats and
+// rasterised to PNG. Portrait 4:5 suits most social feeds.
+
+export const CARD_WIDTH = 1080;
+export const CARD_HEIGHT = 1350;
+
+const CATEGORY_LABELS: Record<string, { label: string; color: string }> = {
+  movie: { label: 'Movies', color: '#f43f5e' },
+  tv: { label: 'TV', color: '#a855f7' },
+  album: { label: 'Albums', color: '#10b981' },
+  book: { label: 'Books', color: '#f59e0b' },
+  game: { label: 'Games', color: '#0ea5e9' },
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function text(x: number, y: number, size: number, content: string, attrs = ''): string {
+  return `<text x="${x}" y="${y}" font-size="${size}" ${attrs}>${escapeXml(content)}</text>`;
+}
+
+function cardSvg(stats: WatchedStats): string {
+  const parts: string[] = [];
+  const left = 90;
+
+  parts.push(text(left, 190, 150, String(stats.year), 'font-weight="800" fill="#ffffff"'));
+  parts.push(text(left, 260, 48, 'Year in review', 'fill="#c7d2fe"'));
+  parts.push(text(left, 400, 110, String(stats.viewings), 'font-weight="800" fill="#fbbf24"'));
+  parts.push(text(left, 460, 38, 'things watched, played, read and heard', 'fill="#e5e7eb"'));
+  if (stats.rewatches > 0) {
+    parts.push(text(left, 510, 32, `including ${stats.rewatches} ${stats.rewatches === 1 ? 'rewatch' : 'rewatches'}`, 'fill="#9ca3af"'));
+  }
+
+  // One bar per category, scaled to the busiest
+  const most = Math.max(1, ...stats.categories.map((c) => c.viewings));
+  const barWidth = CARD_WIDTH - left * 2 - 260;
+  stats.categories.forEach((c, i) => {
+    const { label, color } = CATEGORY_LABELS[c.category] ?? { label: c.category, color: '#9ca3af' };
+    const y = 580 + i * 80;
+    parts.push(text(left, y + 34, 38, label, 'fill="#e5e7eb"'));
+    parts.push(`<rect x="${left + 200}" y="${y}" width="${barWidth}" height="44" rx="10" fill="#ffffff" fill-opacity="0.08"/>`);
+    if (c.viewings > 0) {
+      parts.push(`<rect x="${left + 200}" y="${y}" width="${Math.max(12, (c.viewings / most) * barWidth)}" height="44" rx="10" fill="${color}"/>`);
+    }
+    parts.push(text(CARD_WIDTH - left, y + 34, 38, String(c.viewings), 'font-weight="700" fill="#ffffff" text-anchor="end"'));
+  });
+
+  const highlights: [string, string][] = [];
+  if (stats.ratings.average !== null) {
+    highlights.push(['Average rating', `${stats.ratings.average.toFixed(1)} ★ across ${stats.ratings.rated} rated`]);
+  }
+  const [director] = stats.topDirectors;
+  if (director) highlights.push(['Most watched director', director.name]);
+  const [creator] = stats.topCreators;
+  if (creator) highlights.push([creator.category === 'book' ? 'Most read author' : 'Most played artist', creator.name]);
+
+  highlights.forEach(([label, value], i) => {
+    const y = 1030 + i * 100;
+    parts.push(text(left, y, 30, label.toUpperCase(), 'fill="#a5b4fc" letter-spacing="3"'));
+    parts.push(text(left, y + 48, 42, truncate(value, 38), 'font-weight="700" fill="#ffffff"'));
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" font-family="sans-serif">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="#111827"/>
+      <stop offset="1" stop-color="#312e81"/>
+    </linearGradient>
+  </defs>
+  <rect width="${CARD_WIDTH}" height="${CARD_HEIGHT}" fill="url(#bg)"/>
+  ${parts.join('\n  ')}
+</svg>`;
+}
+
+export async function renderYearInReviewCard(stats: WatchedStats): Promise<Buffer> {
+  return sharp(Buffer.from(cardSvg(stats))).png().toBuffer();
+}
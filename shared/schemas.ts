@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import type { CalendarCategory, ImportSource, WatchedCategory, WatchedStatus } from './types.ts';
+
+// Request schemas for the API. The server validates with them; the SPA uses
+// the inferred types for what it sends.
+
+export const WATCHED_CATEGORIES = ['movie', 'tv', 'album', 'book', 'game'] as const satisfies readonly WatchedCategory[];
+
+export const WATCHED_STATUSES = ['done', 'want_to'] as const satisfies readonly WatchedStatus[];
+
+export const IMPORT_SOURCES = ['letterboxd', 'goodreads', 'trakt', 'lastfm'] as const satisfies readonly ImportSource[];
+
+// Also the order categories are listed in on the calendar
+export const CALENDAR_CATEGORIES = ['game', 'movie', 'album'] as const satisfies readonly CalendarCategory[];
+
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date in YYYY-MM-DD format')
+  .refine((date) => {
+    const time = Date.parse(`${date}T00:00:00Z`);
+    return !Number.isNaN(time) && new Date(time).toISOString().startsWith(date);
+  }, 'Not a calendar date');
+
+// Query values arrive as strings; an empty one is missing, not zero
+const numberParam = z.string().trim().min(1, 'Required').pipe(z.coerce.number());
+
+// --- Auth ---
+
+export const loginBody = z.object({
+  username: z.string().min(1, 'Username is required'),
+  password: z.string().min(1, 'Password is required'),
+});
+export type LoginBody = z.infer<typeof loginBody>;
+
+export const refreshBody = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+export const authEventsQuery = z.object({
+  limit: numberParam.pipe(z.number().int().min(1).max(1000)).default(200),
+});
+
+// --- Watched items ---
+
+export const watchedCategoryParams = z.object({
+  category: z.enum(WATCHED_CATEGORIES),
+});
+
+export const watchedItemParams = watchedCategoryParams.extend({
+  id: z.string().min(1),
+});
+
+export const addWatchedItemBody = z.object({
+  // Provider ids are numbers for TMDB and IGDB, strings elsewhere
+  id: z.union([z.string().min(1), z.number()]).transform(String),
+  title: z.string().trim().min(1, 'Title is required'),
+  subtitle: z.string().default(''),
+  imageUrl: z.string().nullish().transform((url) => url ?? null),
+  // When it was watched, for the first diary entry; defaults to today
+  watchedOn: isoDate.optional(),
+});
+export type AddWatchedItemBody = z.input<typeof addWatchedItemBody>;
+export type AddWatchedItem = z.output<typeof addWatchedItemBody>;
+
+export const markDoneBody = z.object({
+  watchedOn: isoDate.optional(),
+});
+export type MarkDoneBody = z.infer<typeof markDoneBody>;
+
+export const watchEventParams = watchedItemParams.extend({
+  eventId: z.coerce.number().int().positive(),
+});
+
+export const watchEventBody = z.object({
+  date: isoDate,
+  notes: z.string().trim().max(2000).default(''),
+  rewatch: z.boolean().default(false),
+});
+export type WatchEventBody = z.input<typeof watchEventBody>;
+
+const halfStars = z.number().min(0.5).max(5).multipleOf(0.5);
+
+// Markdown. A blank review is no review.
+const reviewText = z.string().trim().max(20000).nullable().transform((review) => review || null);
+
+export const ratingBody = z.object({
+  rating: halfStars.nullable(),
+});
+export type RatingBody = z.infer<typeof ratingBody>;
+
+export const reviewBody = z.object({
+  review: reviewText,
+});
+export type ReviewBody = z.input<typeof reviewBody>;
+
+// Defaults to the current year
+export const statsQuery = z.object({
+  year: numberParam.pipe(z.number().int().min(1900).max(9999)).optional(),
+});
+
+// --- Import ---
+
+export const importParams = z.object({
+  source: z.enum(IMPORT_SOURCES),
+});
+
+// Items are committed, and failed searches retried, a batch at a time
+export const MAX_IMPORT_BATCH = 50;
+
+const importViewings = z.array(z.object({ date: isoDate, rewatch: z.boolean().default(false) })).max(1000);
+
+// Entries from a preview whose search failed, to search again
+export const importMatchBody = z.object({
+  entries: z.array(z.object({
+    category: z.enum(WATCHED_CATEGORIES),
+    title: z.string().trim().min(1, 'Title is required'),
+    year: z.string().nullable(),
+    creator: z.string().nullable(),
+    externalId: z.string().nullable(),
+    status: z.enum(WATCHED_STATUSES),
+    rating: halfStars.nullable(),
+    review: reviewText,
+    viewings: importViewings,
+  })).min(1).max(MAX_IMPORT_BATCH),
+});
+export type ImportMatchBody = z.input<typeof importMatchBody>;
+
+export const importCommitBody = z.object({
+  items: z.array(addWatchedItemBody.omit({ watchedOn: true }).extend({
+    category: z.enum(WATCHED_CATEGORIES),
+    status: z.enum(WATCHED_STATUSES).default('done'),
+    rating: halfStars.nullable().default(null),
+    review: reviewText.default(null),
+    viewings: importViewings.default([]),
+  })).min(1).max(MAX_IMPORT_BATCH),
+});
+export type ImportCommitBody = z.input<typeof importCommitBody>;
+
+// --- Releases ---
+
+export const dismissParams = z.object({
+  category: z.enum(CALENDAR_CATEGORIES),
+  itemId: z.string().min(1),
+});
+
+export const archiveParams = z.object({
+  category: z.enum(CALENDAR_CATEGORIES),
+  date: isoDate,
+});
+
+export const calendarCategoriesQuery = z.object({
+  // Comma-separated; defaults to every category
+  categories: z.string()
+    .transform((list) => list.split(','))
+    .pipe(z.array(z.enum(CALENDAR_CATEGORIES)))
+    .default([...CALENDAR_CATEGORIES]),
+});
+
+export const directorParams = z.object({
+  personId: z.coerce.number().int().positive(),
+});
+
+// --- Search and widgets ---
+
+export const searchQuery = z.object({
+  q: z.string().trim().min(1, 'q is required'),
+});
+
+export const forecastQuery = z.object({
+  lat: numberParam.pipe(z.number().min(-90).max(90)),
+  lon: numberParam.pipe(z.number().min(-180).max(180)),
+});
+
+export const previewQuery = z.object({
+  artist: z.string().trim().min(1, 'artist is required'),
+});
+
+export const spotifyCallbackQuery = z.object({
+  code: z.string().optional(),
+  state: z.string().optional(),
+  error: z.string().optional(),
+});
@@ -0,0 +1,356 @@
+// Shapes the API sends and the SPA reads. Both sides import these, so a
+// change here is checked against every page that uses it.
+
+export interface GameRelease {
+  id: number;
+  name: string;
+  coverUrl: string | null;
+  platforms: string[];
+  steamAppId: string | null;
+  websiteUrl: string | null;
+  hypes: number;
+  follows: number;
+  releaseDate: string;  // YYYY-MM-DD
+}
+
+export interface SteamReviewSummary {
+  totalPositive: number;
+  totalNegative: number;
+  totalReviews: number;
+  reviewScoreDesc: string;
+}
+
+export interface GameReleaseWithReviews extends GameRelease {
+  steamReviews: SteamReviewSummary | null;
+  steamDescription: string | null;
+}
+
+export interface MovieRelease {
+  id: number;
+  title: string;
+  posterUrl: string | null;
+  releaseDate: string;
+  director: string | null;
+  directorId: number | null;
+  cast: string[];
+  overview: string;
+  tmdbUrl: string;
+  fridayDate: string;
+  revenue: number | null;
+  popularity?: number;
+  isHorror?: boolean;
+}
+
+export interface DirectorFilm {
+  title: string;
+  year: string;
+  posterUrl: string | null;
+}
+
+export interface AlbumRelease {
+  id: string;
+  title: string;
+  artist: string;
+  coverUrl: string | null;
+  releaseDate: string;
+  type: string;
+  fridayDate: string;
+  artistListeners?: number | null;
+  inSpotifyLibrary?: boolean;
+  genre?: string;
+}
+
+export interface ChartTrack {
+  name: string;
+  artist: string;
+  playcount: number;
+  listeners: number;
+  url: string;
+  imageUrl: string | null;
+}
+
+export interface ChartAlbum {
+  name: string;
+  artist: string;
+  url: string;
+  imageUrl: string | null;
+  genre: string;
+  releaseDate: string | null;
+}
+
+export interface ChartArtist {
+  name: string;
+  playcount: number;
+  listeners: number;
+  url: string;
+  imageUrl: string | null;
+}
+
+export interface TopChartsResponse {
+  topTracks: ChartTrack[];
+  topAlbums: ChartAlbum[];
+  topArtists: ChartArtist[];
+  topAlbumsByGenre: Record<string, ChartAlbum[]>;
+  issues: FeedIssue[];
+}
+
+// GET /api/music/charts
+export interface ChartsResponse extends TopChartsResponse {
+  lastUpdated: string;
+}
+
+export interface NewsItem {
+  title: string;
+  link: string;
+  date: string;       // ISO 8601
+  source: string;     // feed name
+  snippet: string;    // plain text, truncated to ~200 chars
+}
+
+// An enrichment step (reviews, credits, popularity, ...) that didn't run or
+// only partly succeeded; the items are still served without that data.
+export interface FeedIssue {
+  step: string;                   // e.g. 'steam-reviews', 'artist-popularity'
+  status: 'failed' | 'skipped';   // skipped: missing key or connection
+  message: string;
+}
+
+export interface FeedResult<T> {
+  items: T[];
+  issues: FeedIssue[];
+}
+
+// A feed as the release and news routes serve it
+export interface FeedResponse<T> extends FeedResult<T> {
+  lastUpdated: string;  // ISO 8601, when the snapshot was taken
+}
+
+export type CalendarCategory = 'game' | 'movie' | 'album';
+
+export interface CalendarEntry {
+  id: string;
+  category: CalendarCategory;
+  title: string;
+  subtitle: string;       // platforms for games, artist for albums
+  imageUrl: string | null;
+  date: string;           // YYYY-MM-DD
+  url: string | null;
+  popularity: number;     // provider-specific; only comparable within a category
+}
+
+export interface CalendarResponse {
+  from: string;
+  to: string;
+  entries: CalendarEntry[];
+  unavailable: CalendarCategory[];  // providers that failed or aren't configured
+}
+
+export interface ArchivedReleases {
+  category: CalendarCategory;
+  date: string;           // the release day for games, the release Friday for movies and albums
+  archivedAt: string;     // ISO 8601, last time the list was refreshed
+  items: GameReleaseWithReviews[] | MovieRelease[] | AlbumRelease[];
+}
+
+export interface ArchiveDate {
+  category: CalendarCategory;
+  date: string;
+}
+
+// --- Watched items ---
+
+export type WatchedCategory = 'movie' | 'tv' | 'album' | 'book' | 'game';
+
+// done: in the log; want_to: saved for later, shown in the backlog
+export type WatchedStatus = 'done' | 'want_to';
+
+export interface WatchedItem {
+  id: string;
+  category: string;
+  title: string;
+  subtitle: string;
+  imageUrl: string | null;
+  addedAt: string;  // when it was saved, or for the log when it was marked done
+  rating: number | null;  // 0.5 to 5 in half stars
+  review: string | null;  // markdown
+  director: string | null;
+  status: WatchedStatus;
+}
+
+// One time a logged item was watched, played, read or listened to. An item
+// can have any number; the diary lists them by date.
+export interface WatchEvent {
+  id: number;
+  category: string;
+  itemId: string;
+  date: string;       // YYYY-MM-DD, chosen by the user
+  notes: string;
+  rewatch: boolean;
+  createdAt: string;  // ISO 8601
+}
+
+// A diary line: the event plus enough of its item to show it
+export interface DiaryEntry extends WatchEvent {
+  title: string;
+  subtitle: string;
+  imageUrl: string | null;
+  rating: number | null;
+}
+
+// --- Stats ---
+
+// Viewings (rewatches included) per category in a month or a year
+export interface StatsPeriod {
+  period: string;  // YYYY-MM or YYYY
+  counts: Record<string, number>;
+  total: number;
+}
+
+export interface CategoryStats {
+  category: string;
+  viewings: number;
+  items: number;  // distinct items viewed
+  averageRating: number | null;
+}
+
+export interface RatingStats {
+  average: number | null;
+  rated: number;
+  // Every half star from 0.5 to 5, including empty ones
+  distribution: { rating: number; count: number }[];
+}
+
+export interface CreatorCount {
+  name: string;
+  category: string;
+  count: number;  // distinct items
+}
+
+// A year of the watch log. Ratings and creators count each item viewed in
+// the year once, however many times it was viewed.
+export interface WatchedStats {
+  year: number;
+  viewings: number;
+  rewatches: number;
+  categories: CategoryStats[];
+  byMonth: StatsPeriod[];  // January to December
+  byYear: StatsPeriod[];  // every year with a viewing, oldest first
+  ratings: RatingStats;
+  topDirectors: CreatorCount[];
+  topCreators: CreatorCount[];  // authors of books and artists of albums
+}
+
+// --- Import ---
+
+export type ImportSource = 'letterboxd' | 'goodreads' | 'trakt' | 'lastfm';
+
+// One title read from an export, with everything the export said about it
+export interface ImportEntry {
+  category: WatchedCategory;
+  title: string;
+  year: string | null;
+  creator: string | null;  // author or artist
+  externalId: string | null;  // the provider's id, when the export has it (Trakt's TMDB ids)
+  status: WatchedStatus;  // Goodreads' to-read shelf goes to the backlog
+  rating: number | null;  // in half stars
+  review: string | null;
+  viewings: { date: string; rewatch: boolean }[];
+}
+
+// A search result the entry might be
+export interface ImportCandidate {
+  id: string;
+  title: string;
+  subtitle: string;
+  imageUrl: string | null;
+  year: string | null;
+}
+
+// matched: one candidate is clearly it. ambiguous: there are candidates but
+// the user has to pick. unmatched: the search found nothing. error: the
+// search failed, so the entry can be searched again.
+export interface ImportMatch {
+  entry: ImportEntry;
+  match: 'matched' | 'ambiguous' | 'unmatched' | 'error';
+  candidates: ImportCandidate[];
+  suggested: number | null;  // index into candidates
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  matches: ImportMatch[];
+  // Titles past the per-import limit, left for another import
+  leftOut: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;  // already in the log, or the backlog for saved items
+}
+
+// --- Errors ---
+
+// One field that failed a route's request schema
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'body';
+  path: string;     // dotted, e.g. 'rating'; empty when the whole location is wrong
+  message: string;
+}
+
+// Every error response; issues are only sent for a 400 from request validation
+export interface ApiError {
+  error: string;
+  issues?: ValidationIssue[];
+}
+
+// --- Status, features and admin ---
+
+export type ProviderState = 'ok' | 'degraded' | 'down' | 'unknown';
+
+export interface ProviderQuota {
+  remaining: number | null;
+  limit: number | null;
+  resetAt: string | null;  // ISO 8601
+}
+
+export interface ProviderHealth {
+  provider: string;
+  state: ProviderState;
+  requests: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  quota: ProviderQuota | null;  // only for providers that send rate limit headers
+}
+
+export interface StatusResponse {
+  checkedAt: string;
+  providers: (ProviderHealth & { configured: boolean })[];
+}
+
+export type Feature = 'gaming' | 'movies' | 'music' | 'charts' | 'spotify' | 'weather' | 'news';
+
+export interface FeatureState {
+  enabled: boolean;
+  reason?: string;  // why it's off
+}
+
+export type Features = Record<Feature, FeatureState>;
+
+export type AuthEventType = 'login_success' | 'login_failure' | 'login_throttled';
+
+export interface AuthEvent {
+  id: number;
+  type: AuthEventType;
+  // As typed at the login form, so failures for unknown usernames are kept too
+  username: string;
+  userId: number | null;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+}
@@ -1,62 +1,129 @@
-import { createContext, useContext, useState, useCallback, useMemo } from 'react';
+import { createContext, useContext, useState, useCallback, useMemo, useRef } from 'react';
 import type { ReactNode } from 'react';
 
 interface AuthContextValue {
   token: string | null;
-  login: (password: string) => Promise<{ ok: boolean; error?: string }>;
-  logout: () => void;
+  login: (username: string, password: string) => Promise<{ ok: boolean; error?: string }>;
+  logout: () => Promise<void>;
+  logoutAllDevices: () => Promise<void>;
   authFetch: (input: string, init?: RequestInit) => Promise<Response>;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
 
+const ACCESS_TOKEN_KEY = 'jwt';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [token, setToken] = useState<string | null>(() => localStorage.getItem('jwt'));
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(ACCESS_TOKEN_KEY));
+  const refreshing = useRef<Promise<string | null> | null>(null);
+
+  const storeTokens = useCallback((accessToken: string, refreshToken: string) => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    setToken(accessToken);
+  }, []);
 
-  const logout = useCallback(() => {
-    localStorage.removeItem('jwt');
+  const clearTokens = useCallback(() => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
     setToken(null);
   }, []);
 
-  const login = useCallback(async (password: string) => {
+  // Concurrent 401s share one refresh so the rotating token is only spent once.
+  // Resolves to the new access token, or null if the session is gone.
+  const refresh = useCallback((): Promise<string | null> => {
+    if (!refreshing.current) {
+      refreshing.current = (async () => {
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+        if (!refreshToken) return null;
+        try {
+          const res = await fetch('/api/auth/refresh', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+          });
+          if (res.ok) {
+            const data = await res.json();
+            storeTokens(data.token, data.refreshToken);
+            return data.token as string;
+          }
+          // Another tab may have rotated the token first; pick up its result
+          if (localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken) {
+            return localStorage.getItem(ACCESS_TOKEN_KEY);
+          }
+          return null;
+        } finally {
+          refreshing.current = null;
+        }
+      })();
+    }
+    return refreshing.current;
+  }, [storeTokens]);
+
+  // Reads the token from storage rather than state so its identity stays
+  // stable across refreshes and effects depending on it don't re-run
+  const authFetch = useCallback(
+    async (input: string, init?: RequestInit): Promise<Response> => {
+      const send = (accessToken: string | null) => {
+        const headers = new Headers(init?.headers);
+        if (accessToken) {
+          headers.set('Authorization', `Bearer ${accessToken}`);
+        }
+        return fetch(input, { ...init, headers });
+      };
+
+      const res = await send(localStorage.getItem(ACCESS_TOKEN_KEY));
+      if (res.status !== 401) return res;
+
+      const accessToken = await refresh();
+      if (!accessToken) {
+        clearTokens();
+        return res;
+      }
+      const retried = await send(accessToken);
+      if (retried.status === 401) clearTokens();
+      return retried;
+    },
+    [refresh, clearTokens],
+  );
+
+  const login = useCallback(async (username: string, password: string) => {
     try {
       const res = await fetch('/api/auth/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ username, password }),
       });
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
         return { ok: false, error: data.error || 'Login failed' };
       }
-      const { token: jwt } = await res.json();
-      localStorage.setItem('jwt', jwt);
-      setToken(jwt);
+      const data = await res.json();
+      storeTokens(data.token, data.refreshToken);
       return { ok: true };
     } catch {
       return { ok: false, error: 'Network error' };
     }
-  }, []);
+  }, [storeTokens]);
 
-  const authFetch = useCallback(
-    async (input: string, init?: RequestInit): Promise<Response> => {
-      const headers = new Headers(init?.headers);
-      if (token) {
-        headers.set('Authorization', `Bearer ${token}`);
-      }
-      const res = await fetch(input, { ...init, headers });
-      if (res.status === 401) {
-        localStorage.removeItem('jwt');
-        setToken(null);
-      }
-      return res;
-    },
-    [token],
-  );
+  const logout = useCallback(async () => {
+    try {
+      await authFetch('/api/auth/logout', { method: 'POST' });
+    } catch { /* signed out locally regardless */ }
+    clearTokens();
+  }, [authFetch, clearTokens]);
+
+  const logoutAllDevices = useCallback(async () => {
+    try {
+      await authFetch('/api/auth/logout-all', { method: 'POST' });
+    } catch { /* signed out locally regardless */ }
+    clearTokens();
+  }, [authFetch, clearTokens]);
 
   const value = useMemo(
-    () => ({ token, login, logout, authFetch }),
-    [token, login, logout, authFetch],
+    () => ({ token, login, logout, logoutAllDevices, authFetch }),
+    [token, login, logout, logoutAllDevices, authFetch],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import type { WatchedCategory, WatchedItem } from '../shared/types';
+import type { AddWatchedItemBody } from '../shared/schemas';
+
+// The "save for later" list behind the bookmark on release cards. The Media
+// Log widget shows the same list in its Backlog tab.
+export function useBacklog() {
+  const { authFetch } = useAuth();
+  const [items, setItems] = useState<WatchedItem[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    authFetch('/api/watched/backlog')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: WatchedItem[]) => {
+        if (!cancelled) setItems(data);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch]);
+
+  const isSaved = useCallback(
+    (category: WatchedCategory, id: string | number) => items.some((item) => item.category === category && item.id === String(id)),
+    [items],
+  );
+
+  const save = useCallback((category: WatchedCategory, body: AddWatchedItemBody) => {
+    authFetch(`/api/watched/backlog/${category}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`Server error: ${res.status}`))))
+      .then((data: WatchedItem[]) => setItems(data))
+      .catch(() => {});
+  }, [authFetch]);
+
+  return { isSaved, save };
+}
@@ -0,0 +1,16 @@
+import { AlertTriangle } from 'lucide-react';
+import type { FeedIssue } from '../../shared/types';
+
+// A quiet note under a page header when some enrichment (reviews, credits,
+// popularity, ...) failed or was skipped; the details are in the tooltip.
+export default function DataUnavailable({ issues }: { issues: FeedIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <p
+      className="inline-flex items-center gap-1 text-xs text-amber-500/70"
+      title={issues.map((issue) => issue.message).join('\n')}
+    >
+      <AlertTriangle className="h-3 w-3" /> Some data unavailable
+    </p>
+  );
+}
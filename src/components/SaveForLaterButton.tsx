@@ -0,0 +1,20 @@
+import { Bookmark, BookmarkCheck } from 'lucide-react';
+
+// Bookmark in the corner of a release card's artwork. The card's own click
+// (flip, preview, link) is left alone.
+export default function SaveForLaterButton({ saved, onSave }: { saved: boolean; onSave: () => void }) {
+  return (
+    <button
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (!saved) onSave();
+      }}
+      title={saved ? 'Saved for later' : 'Save for later'}
+      aria-label={saved ? 'Saved for later' : 'Save for later'}
+      className="absolute left-1.5 top-1.5 z-10 flex h-7 w-7 items-center justify-center rounded-full bg-black/40 text-white transition-colors hover:bg-black/60"
+    >
+      {saved ? <BookmarkCheck className="h-4 w-4 fill-white/30" /> : <Bookmark className="h-4 w-4" />}
+    </button>
+  );
+}
@@ -1,6 +1,8 @@
 import { useRef, useState } from 'react';
 import ColorThief from 'colorthief';
 import { Gamepad2, ThumbsUp } from 'lucide-react';
+import SaveForLaterButton from '../SaveForLaterButton';
+import type { GameReleaseWithReviews } from '../../../shared/types';
 
 function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
   r /= 255; g /= 255; b /= 255;
@@ -35,22 +37,13 @@ function hslToRgb(h: number, s: number, l: number): [number, number, number] {
   ];
 }
 
-interface GameCardProps {
-  name: string;
-  coverUrl: string | null;
-  platforms: string[];
-  steamAppId: string | null;
-  websiteUrl: string | null;
-  steamReviews: {
-    totalPositive: number;
-    totalNegative: number;
-    totalReviews: number;
-    reviewScoreDesc: string;
-  } | null;
-  steamDescription: string | null;
+interface GameCardProps extends Pick<GameReleaseWithReviews, 'name' | 'coverUrl' | 'platforms' | 'steamAppId' | 'websiteUrl' | 'steamReviews' | 'steamDescription'> {
+  // Without a handler there's no bookmark
+  saved?: boolean;
+  onSaveForLater?: () => void;
 }
 
-export default function GameCard({ name, coverUrl, platforms, steamAppId, websiteUrl, steamReviews, steamDescription }: GameCardProps) {
+export default function GameCard({ name, coverUrl, platforms, steamAppId, websiteUrl, steamReviews, steamDescription, saved = false, onSaveForLater }: GameCardProps) {
   const imgRef = useRef<HTMLImageElement>(null);
   const [gradientStyle, setGradientStyle] = useState<React.CSSProperties | undefined>(undefined);
   const [flipped, setFlipped] = useState(false);
@@ -98,7 +91,8 @@ export default function GameCard({ name, coverUrl, platforms, steamAppId, websit
         rel="noopener noreferrer"
         className="group flex h-full flex-col overflow-hidden rounded-lg ring-2 ring-white/70 bg-white transition-all hover:border-indigo-200 hover:shadow-lg"
       >
-        <div className="overflow-hidden rounded-t-lg bg-gray-100 aspect-[3/4]">
+        <div className="relative overflow-hidden rounded-t-lg bg-gray-100 aspect-[3/4]">
+          {onSaveForLater && <SaveForLaterButton saved={saved} onSave={onSaveForLater} />}
           {coverUrl ? (
             <img
               ref={imgRef}
@@ -152,6 +146,7 @@ export default function GameCard({ name, coverUrl, platforms, steamAppId, websit
         className="relative overflow-hidden rounded-t-lg bg-gray-100 cursor-pointer aspect-[3/4]"
         onClick={handleCoverClick}
       >
+        {onSaveForLater && <SaveForLaterButton saved={saved} onSave={onSaveForLater} />}
         {!flipped ? (
           <>
             {coverUrl ? (
@@ -1,14 +1,8 @@
 import { useCallback, useEffect, useState } from 'react';
 import { ArrowUpRight, ChevronsUp, Lock, Loader2, Newspaper, Unlock } from 'lucide-react';
+import DataUnavailable from '../DataUnavailable';
 import { useAuth } from '../../AuthContext';
-
-interface NewsItem {
-  title: string;
-  link: string;
-  date: string;
-  source: string;
-  snippet: string;
-}
+import type { FeedIssue, NewsItem } from '../../../shared/types';
 
 const SOURCE_BADGE = 'bg-gray-500/65 text-white';
 
@@ -28,6 +22,8 @@ export default function NewsWidget() {
   const [items, setItems] = useState<NewsItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [issues, setIssues] = useState<FeedIssue[]>([]);
   const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
   const [unlocked, setUnlocked] = useState(false);
   const [animating, setAnimating] = useState(false);
@@ -60,7 +56,11 @@ export default function NewsWidget() {
         if (!res.ok) throw new Error(`Server error: ${res.status}`);
         return res.json();
       })
-      .then((data: NewsItem[]) => setItems(data))
+      .then((data: { items: NewsItem[]; issues: FeedIssue[]; lastUpdated: string }) => {
+        setItems(data.items);
+        setLastUpdated(data.lastUpdated);
+        setIssues(data.issues);
+      })
       .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to fetch news'))
       .finally(() => setLoading(false));
   }, []);
@@ -75,6 +75,8 @@ export default function NewsWidget() {
           <h2 className="text-base font-semibold text-white/70 font-nunito-black">News</h2>
         </div>
         <div className="h-px flex-1 bg-white/15 mr-2" />
+        <DataUnavailable issues={issues} />
+        {lastUpdated && <span className="shrink-0 text-xs text-white/40">Updated {timeAgo(lastUpdated)}</span>}
       </div>
 
       {loading && (
@@ -1,7 +1,11 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { Film, Tv, Music, BookOpen, Gamepad2, Search, X, Loader2, Star, Plus } from 'lucide-react';
+import { Film, Tv, Music, BookOpen, Gamepad2, Search, X, Loader2, Star, Plus, Bookmark, Check, Repeat, StarHalf, PenLine } from 'lucide-react';
+import Markdown from 'react-markdown';
 import ColorThief from 'colorthief';
 import { useAuth } from '../../AuthContext';
+import { toISODate, fromISODate } from '../../dates';
+import type { WatchedCategory, WatchedItem, WatchEvent } from '../../../shared/types';
+import type { AddWatchedItemBody, MarkDoneBody, RatingBody, ReviewBody, WatchEventBody } from '../../../shared/schemas';
 
 function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
   r /= 255; g /= 255; b /= 255;
@@ -36,17 +40,6 @@ function hslToRgb(h: number, s: number, l: number): [number, number, number] {
   ];
 }
 
-interface WatchedItem {
-  id: string;
-  category: string;
-  title: string;
-  subtitle: string;
-  imageUrl: string | null;
-  addedAt: string;
-  rating?: number | null;
-  director?: string | null;
-}
-
 interface SearchResult {
   id: string | number;
   title: string;
@@ -55,7 +48,7 @@ interface SearchResult {
   releaseDate?: string;
 }
 
-type TabKey = 'movie' | 'tv' | 'album' | 'book' | 'game';
+type TabKey = WatchedCategory;
 
 const TABS: {
   key: TabKey;
@@ -94,36 +87,179 @@ function normalizeSearchResult(raw: Record<string, unknown>, tab: TabKey): Searc
   };
 }
 
-function StarRating({ savedRating, onRate }: { savedRating: number | null | undefined; onRate: (r: number) => void }) {
+// Five stars filled to `value` in half steps. With onRate each half of a star
+// is a button, and picking the current rating clears it.
+function HalfStars({ value, onRate, size, empty }: { value: number | null; onRate?: (r: number | null) => void; size: string; empty: string }) {
   const [hovered, setHovered] = useState<number | null>(null);
-  const locked = savedRating != null;
-  const display = locked ? savedRating : (hovered ?? 0);
+  const display = hovered ?? value ?? 0;
+
+  return (
+    <div className="flex items-center gap-px" onMouseLeave={() => setHovered(null)}>
+      {[1, 2, 3, 4, 5].map((n) => (
+        <span key={n} className="relative">
+          <Star className={`${size} transition-colors ${display >= n ? 'text-yellow-400 fill-yellow-400' : empty}`} />
+          {display === n - 0.5 && <StarHalf className={`absolute inset-0 ${size} text-yellow-400 fill-yellow-400`} />}
+          {onRate && [n - 0.5, n].map((r) => (
+            <button
+              key={r}
+              aria-label={`${r} stars`}
+              onMouseEnter={() => setHovered(r)}
+              onClick={(e) => { e.stopPropagation(); onRate(r === value ? null : r); }}
+              className={`absolute inset-y-0 w-1/2 ${r === n ? 'right-0' : 'left-0'}`}
+            />
+          ))}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function StarRating({ savedRating, onRate }: { savedRating: number | null; onRate: (r: number | null) => void }) {
+  return (
+    <div className="absolute inset-x-0 bottom-0 z-[5] hidden group-hover:flex items-center justify-center py-1 bg-black/40 rounded-b-lg">
+      <HalfStars value={savedRating} onRate={onRate} size="h-3 w-3" empty="text-white/40" />
+    </div>
+  );
+}
 
-  if (locked) {
+// Markdown has no stylesheet of its own here, so style the elements it renders
+const REVIEW_CLASSES = '[&_p]:my-1.5 [&_ul]:list-disc [&_ul]:pl-4 [&_ol]:list-decimal [&_ol]:pl-4 [&_a]:underline [&_strong]:font-semibold [&_em]:italic [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold [&_blockquote]:border-l-2 [&_blockquote]:border-white/30 [&_blockquote]:pl-2 [&_code]:rounded [&_code]:bg-white/10 [&_code]:px-1';
+
+// The item's review rendered as markdown, swapped for a textarea while editing
+function ReviewEditor({ review, onSave }: { review: string | null; onSave: (review: string) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null) {
     return (
-      <div className="absolute inset-x-0 bottom-0 z-[5] hidden group-hover:flex items-center justify-center gap-px py-1 bg-black/40 rounded-b-lg">
-        {[1, 2, 3, 4, 5].map((n) => (
-          <Star key={n} className={`h-3 w-3 ${n <= display ? 'text-yellow-400 fill-yellow-400' : 'text-white/40'}`} />
-        ))}
+      <div onClick={(e) => e.stopPropagation()} className="w-72 rounded-xl bg-black/70 px-4 py-3 text-xs text-white">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Write a review (markdown)"
+          rows={6}
+          maxLength={20000}
+          autoFocus
+          className="w-full resize-y rounded bg-white/10 px-2 py-1 text-white placeholder:text-white/30"
+        />
+        <div className="mt-2 flex justify-end gap-2">
+          <button onClick={() => setDraft(null)} className="rounded px-3 py-1 text-white/60 hover:text-white/90">
+            Cancel
+          </button>
+          <button
+            onClick={() => { onSave(draft); setDraft(null); }}
+            className="rounded bg-rose-500/75 px-3 py-1 font-medium hover:bg-rose-500 transition-colors"
+          >
+            Save
+          </button>
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="absolute inset-x-0 bottom-0 z-[5] hidden group-hover:flex items-center justify-center gap-px py-1 bg-black/40 rounded-b-lg">
-      {[1, 2, 3, 4, 5].map((n) => (
-        <button
-          key={n}
-          onClick={(e) => { e.stopPropagation(); onRate(n); }}
-          onMouseEnter={() => setHovered(n)}
-          onMouseLeave={() => setHovered(null)}
-          className="p-0.5"
-        >
-          <Star
-            className={`h-3 w-3 transition-colors ${n <= display ? 'text-yellow-400 fill-yellow-400' : 'text-white/40'}`}
-          />
-        </button>
-      ))}
+    <div onClick={(e) => e.stopPropagation()} className="w-72 rounded-xl bg-black/70 px-4 py-3 text-xs text-white">
+      {review && (
+        <div className={`mb-2 max-h-40 overflow-y-auto text-white/85 ${REVIEW_CLASSES}`}>
+          <Markdown components={{ a: ({ href, children }) => <a href={href} target="_blank" rel="noreferrer">{children}</a> }}>
+            {review}
+          </Markdown>
+        </div>
+      )}
+      <button onClick={() => setDraft(review ?? '')} className="inline-flex items-center gap-1 text-white/60 hover:text-white/90">
+        <PenLine className="h-3 w-3" /> {review ? 'Edit review' : 'Write a review'}
+      </button>
+    </div>
+  );
+}
+
+// Every viewing of a logged item, with a form for logging another
+function ViewingLog({ item }: { item: WatchedItem }) {
+  const { authFetch } = useAuth();
+  const [events, setEvents] = useState<WatchEvent[] | null>(null);
+  const [date, setDate] = useState(() => toISODate(new Date()));
+  const [rewatch, setRewatch] = useState(true);
+  const [notes, setNotes] = useState('');
+
+  const eventsUrl = `/api/watched/${item.category}/${encodeURIComponent(item.id)}/events`;
+
+  useEffect(() => {
+    authFetch(eventsUrl)
+      .then((res) => res.json())
+      .then((data: WatchEvent[]) => setEvents(data))
+      .catch(() => setEvents([]));
+  }, [authFetch, eventsUrl]);
+
+  const logViewing = () => {
+    const body: WatchEventBody = { date, rewatch, notes };
+    authFetch(eventsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: WatchEvent[]) => {
+        setEvents(data);
+        setNotes('');
+      })
+      .catch(() => {});
+  };
+
+  const removeViewing = (id: number) => {
+    authFetch(`${eventsUrl}/${id}`, { method: 'DELETE' })
+      .then((res) => res.json())
+      .then((data: WatchEvent[]) => setEvents(data))
+      .catch(() => {});
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="w-72 rounded-xl bg-black/70 px-4 py-3 text-xs text-white">
+      {events && events.length > 0 && (
+        <ul className="mb-3 max-h-28 space-y-1 overflow-y-auto">
+          {events.map((event) => (
+            <li key={event.id} className="group/event flex items-start gap-2">
+              <span className="shrink-0 text-white/60">
+                {fromISODate(event.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+              </span>
+              {event.rewatch && <Repeat className="mt-0.5 h-3 w-3 shrink-0 text-sky-300" aria-label="Rewatch" />}
+              <span className="flex-1 truncate text-white/80">{event.notes}</span>
+              <button onClick={() => removeViewing(event.id)} aria-label="Remove viewing" className="text-white/30 hover:text-red-400">
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          type="date"
+          value={date}
+          max={toISODate(new Date())}
+          onChange={(e) => setDate(e.target.value)}
+          className="rounded bg-white/10 px-2 py-1 text-white [color-scheme:dark]"
+        />
+        <label className="flex items-center gap-1 text-white/70">
+          <input type="checkbox" checked={rewatch} onChange={(e) => setRewatch(e.target.checked)} />
+          Rewatch
+        </label>
+      </div>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes"
+        rows={2}
+        maxLength={2000}
+        className="mt-2 w-full resize-none rounded bg-white/10 px-2 py-1 text-white placeholder:text-white/30"
+      />
+      <button
+        onClick={logViewing}
+        disabled={!date}
+        className="mt-2 w-full rounded bg-rose-500/75 py-1.5 font-medium hover:bg-rose-500 disabled:opacity-50 transition-colors"
+      >
+        Log a viewing
+      </button>
     </div>
   );
 }
@@ -132,21 +268,20 @@ function ItemBottomSheet({
   item,
   tab,
   onRate,
+  onReview,
   onRemove,
   onClose,
   onUploadCover,
 }: {
   item: WatchedItem;
   tab: typeof TABS[number];
-  onRate: (r: number) => void;
+  onRate: (r: number | null) => void;
+  onReview: (review: string) => void;
   onRemove: () => void;
   onClose: () => void;
   onUploadCover: (file: File) => void;
 }) {
-  const locked = item.rating != null;
-  const [hovered, setHovered] = useState<number | null>(null);
   const [visible, setVisible] = useState(false);
-  const display = locked ? item.rating! : (hovered ?? 0);
 
   useEffect(() => {
     requestAnimationFrame(() => setVisible(true));
@@ -155,7 +290,7 @@ function ItemBottomSheet({
   return (
     <div
       onClick={onClose}
-      className={`fixed inset-x-0 bottom-0 top-20 z-50 bg-white/20 backdrop-blur-sm transition-opacity duration-200 flex flex-col items-center justify-center px-6 pb-8 pt-4 ${visible ? 'opacity-100' : 'opacity-0'}`}
+      className={`fixed inset-x-0 bottom-0 top-20 z-50 overflow-y-auto bg-white/20 backdrop-blur-sm transition-opacity duration-200 flex flex-col items-center justify-center-safe px-6 pb-8 pt-4 ${visible ? 'opacity-100' : 'opacity-0'}`}
     >
       {/* Artwork */}
       <div className="shrink-0 flex items-center justify-center">
@@ -192,28 +327,14 @@ function ItemBottomSheet({
         {/* Stars — stopPropagation so tapping stars doesn't dismiss the sheet */}
         <div
           onClick={(e) => e.stopPropagation()}
-          className="flex items-center justify-center gap-2 bg-rose-500/75 rounded-xl px-5 py-3"
+          className="flex items-center justify-center bg-rose-500/75 rounded-xl px-5 py-3"
         >
-          {locked ? (
-            Array.from({ length: item.rating! }, (_, i) => (
-              <Star key={i + 1} className="h-7 w-7 text-yellow-400 fill-yellow-400" />
-            ))
-          ) : (
-            [1, 2, 3, 4, 5].map((n) => (
-              <button
-                key={n}
-                onMouseEnter={() => setHovered(n)}
-                onMouseLeave={() => setHovered(null)}
-                onClick={() => onRate(n)}
-                className="p-1"
-              >
-                <Star
-                  className={`h-7 w-7 transition-colors ${n <= display ? 'text-yellow-400 fill-yellow-400' : 'text-white/25'}`}
-                />
-              </button>
-            ))
-          )}
+          <HalfStars value={item.rating} onRate={onRate} size="h-7 w-7 mx-0.5" empty="text-white/25" />
         </div>
+
+        <ReviewEditor review={item.review} onSave={onReview} />
+
+        <ViewingLog item={item} />
       </div>
 
       {/* Remove button */}
@@ -227,7 +348,7 @@ function ItemBottomSheet({
   );
 }
 
-function WatchedAlbumCard({ item, onRemove, onRate, onTap, onUploadCover }: { item: WatchedItem; onRemove: () => void; onRate: (r: number) => void; onTap: () => void; onUploadCover: (file: File) => void }) {
+function WatchedAlbumCard({ item, onRemove, onRate, onTap, onUploadCover }: { item: WatchedItem; onRemove: () => void; onRate: (r: number | null) => void; onTap: () => void; onUploadCover: (file: File) => void }) {
   const imgRef = useRef<HTMLImageElement>(null);
   const [gradientStyle, setGradientStyle] = useState<React.CSSProperties | undefined>(undefined);
 
@@ -278,9 +399,57 @@ function WatchedAlbumCard({ item, onRemove, onRate, onTap, onUploadCover }: { it
   );
 }
 
+// Things saved for later from the release pages, across every category
+function BacklogGrid({ items, onDone, onRemove }: { items: WatchedItem[]; onDone: (item: WatchedItem) => void; onRemove: (item: WatchedItem) => void }) {
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
+      {items.map((item) => {
+        const tab = TABS.find((t) => t.key === item.category) ?? TABS[0];
+        return (
+          <div key={`${item.category}-${item.id}`} className="group relative flex flex-col overflow-hidden rounded-lg bg-white/5">
+            <button
+              onClick={() => onRemove(item)}
+              title="Remove from backlog"
+              className="absolute right-1 top-1 z-10 hidden group-hover:flex h-5 w-5 items-center justify-center rounded bg-black/15 text-white/30 hover:bg-black/30 hover:text-white/60 transition-colors"
+            >
+              <X className="h-3 w-3" />
+            </button>
+            <div className={`relative w-full overflow-hidden bg-white/10 ${tab.aspect}`}>
+              {item.imageUrl ? (
+                <img src={item.imageUrl} alt={item.title} title={item.title} className="w-full h-full object-cover" />
+              ) : (
+                <div className="flex w-full h-full items-center justify-center">
+                  <tab.Icon className="h-6 w-6 text-white/30" />
+                </div>
+              )}
+              <span className="absolute left-1 top-1 flex h-5 w-5 items-center justify-center rounded bg-black/40" title={tab.label}>
+                <tab.Icon className="h-3 w-3 text-white/70" />
+              </span>
+            </div>
+            <div className="flex items-center gap-1 p-1.5">
+              <p className="min-w-0 flex-1 text-[11px] font-semibold text-white/80 line-clamp-1">{item.title}</p>
+              <button
+                onClick={() => onDone(item)}
+                title="Mark as done"
+                aria-label="Mark as done"
+                className="shrink-0 flex h-6 w-6 items-center justify-center rounded bg-white/10 text-white/60 hover:bg-emerald-500/60 hover:text-white transition-colors"
+              >
+                <Check className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function WatchedItemsWidget() {
   const { authFetch } = useAuth();
   const [activeTab, setActiveTab] = useState<TabKey>('movie');
+  // The backlog replaces the category view without forgetting the category
+  const [showBacklog, setShowBacklog] = useState(false);
+  const [backlog, setBacklog] = useState<WatchedItem[] | null>(null);
   const [sheetItemId, setSheetItemId] = useState<string | null>(null);
 
   // Per-tab state: items, search
@@ -319,6 +488,7 @@ export default function WatchedItemsWidget() {
   // Switch tab
   const handleTabSwitch = (tab: TabKey) => {
     setActiveTab(tab);
+    setShowBacklog(false);
     setSearchQuery('');
     setSearchResults([]);
     setShowDropdown(false);
@@ -365,15 +535,17 @@ export default function WatchedItemsWidget() {
   }, [authFetch, tab.searchEndpoint, activeTab]);
 
   const addItem = (result: SearchResult) => {
+    const body: AddWatchedItemBody = {
+      id: String(result.id),
+      title: result.title,
+      subtitle: result.subtitle,
+      imageUrl: result.imageUrl,
+      watchedOn: toISODate(new Date()),
+    };
     authFetch(`/api/watched/${activeTab}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        id: String(result.id),
-        title: result.title,
-        subtitle: result.subtitle,
-        imageUrl: result.imageUrl,
-      }),
+      body: JSON.stringify(body),
     })
       .then((res) => res.json())
       .then((data: WatchedItem[]) => setItems((prev) => ({ ...prev, [activeTab]: data })))
@@ -402,17 +574,64 @@ export default function WatchedItemsWidget() {
       .catch(() => {});
   };
 
-  const rateItem = (id: string, rating: number) => {
+  const rateItem = (id: string, rating: number | null) => {
+    const body: RatingBody = { rating };
     authFetch(`/api/watched/${activeTab}/${encodeURIComponent(id)}/rating`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ rating }),
+      body: JSON.stringify(body),
+    })
+      .then((res) => res.json())
+      .then((data: WatchedItem[]) => setItems((prev) => ({ ...prev, [activeTab]: data })))
+      .catch(() => {});
+  };
+
+  const reviewItem = (id: string, review: string) => {
+    const body: ReviewBody = { review };
+    authFetch(`/api/watched/${activeTab}/${encodeURIComponent(id)}/review`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
     })
       .then((res) => res.json())
       .then((data: WatchedItem[]) => setItems((prev) => ({ ...prev, [activeTab]: data })))
       .catch(() => {});
   };
 
+  const openBacklog = () => {
+    setShowBacklog(true);
+    setSearchQuery('');
+    setSearchResults([]);
+    setShowDropdown(false);
+    authFetch('/api/watched/backlog')
+      .then((res) => res.json())
+      .then((data: WatchedItem[]) => setBacklog(data))
+      .catch(() => setBacklog((prev) => prev ?? []));
+  };
+
+  // Moves the item into its category's log, which is reloaded next time it's opened
+  const markDone = (item: WatchedItem) => {
+    const body: MarkDoneBody = { watchedOn: toISODate(new Date()) };
+    authFetch(`/api/watched/backlog/${item.category}/${encodeURIComponent(item.id)}/done`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+      .then((res) => res.json())
+      .then((data: WatchedItem[]) => {
+        setBacklog(data);
+        setFetched((prev) => ({ ...prev, [item.category]: false }));
+      })
+      .catch(() => {});
+  };
+
+  const removeFromBacklog = (item: WatchedItem) => {
+    authFetch(`/api/watched/backlog/${item.category}/${encodeURIComponent(item.id)}`, { method: 'DELETE' })
+      .then((res) => res.json())
+      .then((data: WatchedItem[]) => setBacklog(data))
+      .catch(() => {});
+  };
+
   const containerStyle = { clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' };
 
   return (
@@ -421,7 +640,7 @@ export default function WatchedItemsWidget() {
       {/* Header */}
       <div className="mb-3 flex items-center gap-3">
         <div className="flex items-center gap-1.5 shrink-0">
-          <tab.Icon className="h-4 w-4 text-white/50" />
+          {showBacklog ? <Bookmark className="h-4 w-4 text-white/50" /> : <tab.Icon className="h-4 w-4 text-white/50" />}
           <h2 className="text-base font-semibold text-white/70 font-nunito-black">
             Media Log 2026
           </h2>
@@ -437,7 +656,7 @@ export default function WatchedItemsWidget() {
             onClick={() => handleTabSwitch(key)}
             title={label}
             className={`cursor-pointer rounded flex-1 py-2.5 transition-colors flex items-center justify-center gap-1.5 ${
-              activeTab === key
+              !showBacklog && activeTab === key
                 ? 'bg-[#BB7044]/30 text-white/80'
                 : 'bg-black/10 text-white/30 hover:bg-black/20 hover:text-white/50'
             }`}
@@ -446,98 +665,127 @@ export default function WatchedItemsWidget() {
             <span className="hidden sm:inline text-sm font-medium">{label}</span>
           </button>
         ))}
+        <button
+          onClick={openBacklog}
+          title="Backlog"
+          className={`cursor-pointer rounded px-3 py-2.5 transition-colors flex items-center justify-center gap-1.5 ${
+            showBacklog
+              ? 'bg-[#BB7044]/30 text-white/80'
+              : 'bg-black/10 text-white/30 hover:bg-black/20 hover:text-white/50'
+          }`}
+        >
+          <Bookmark className="h-5 w-5" />
+        </button>
       </div>
 
-      {/* Search bar */}
-      <div className="relative mb-4" ref={dropdownRef}>
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/30" />
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => handleSearch(e.target.value)}
-            placeholder={`Search for ${{ movie: 'a movie', tv: 'a TV show', album: 'an album', book: 'a book', game: 'a game' }[tab.key]}...`}
-            className="w-full rounded-lg bg-white/10 py-2 pl-9 pr-3 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-white/25"
-          />
-          {searching && (
-            <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-white/40" />
-          )}
-        </div>
+      {showBacklog && (
+        backlog === null ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+          </div>
+        ) : backlog.length === 0 ? (
+          <div className="py-6 text-center text-sm text-white/30">
+            Nothing saved for later. Use the bookmark on a movie, game or album.
+          </div>
+        ) : (
+          <BacklogGrid items={backlog} onDone={markDone} onRemove={removeFromBacklog} />
+        )
+      )}
 
-        {/* Search results dropdown */}
-        {showDropdown && searchResults.length > 0 && (
-          <div className="absolute z-10 mt-1 w-full rounded-lg bg-[#2a1f1a] border border-white/10 shadow-xl max-h-72 overflow-y-auto">
-            {searchResults.map((result) => (
-              <button
-                key={String(result.id)}
-                onClick={() => addItem(result)}
-                className="flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-white/10 transition-colors"
-              >
-                {result.imageUrl ? (
-                  <img
-                    src={result.imageUrl}
-                    alt=""
-                    className={`h-12 rounded object-cover shrink-0 ${tab.aspect === 'aspect-square' ? 'w-12' : 'w-8'}`}
-                  />
-                ) : (
-                  <div className={`h-12 rounded bg-white/10 shrink-0 ${tab.aspect === 'aspect-square' ? 'w-12' : 'w-8'}`} />
-                )}
-                <div className="min-w-0">
-                  <div className="text-sm text-white truncate">{result.title}</div>
-                  <div className="text-xs text-white/40">{result.subtitle}</div>
-                </div>
-              </button>
-            ))}
+      {!showBacklog && (
+        <>
+          {/* Search bar */}
+          <div className="relative mb-4" ref={dropdownRef}>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/30" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => handleSearch(e.target.value)}
+                placeholder={`Search for ${{ movie: 'a movie', tv: 'a TV show', album: 'an album', book: 'a book', game: 'a game' }[tab.key]}...`}
+                className="w-full rounded-lg bg-white/10 py-2 pl-9 pr-3 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-white/25"
+              />
+              {searching && (
+                <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-white/40" />
+              )}
+            </div>
+
+            {/* Search results dropdown */}
+            {showDropdown && searchResults.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full rounded-lg bg-[#2a1f1a] border border-white/10 shadow-xl max-h-72 overflow-y-auto">
+                {searchResults.map((result) => (
+                  <button
+                    key={String(result.id)}
+                    onClick={() => addItem(result)}
+                    className="flex w-full items-center gap-3 px-3 py-2 text-left hover:bg-white/10 transition-colors"
+                  >
+                    {result.imageUrl ? (
+                      <img
+                        src={result.imageUrl}
+                        alt=""
+                        className={`h-12 rounded object-cover shrink-0 ${tab.aspect === 'aspect-square' ? 'w-12' : 'w-8'}`}
+                      />
+                    ) : (
+                      <div className={`h-12 rounded bg-white/10 shrink-0 ${tab.aspect === 'aspect-square' ? 'w-12' : 'w-8'}`} />
+                    )}
+                    <div className="min-w-0">
+                      <div className="text-sm text-white truncate">{result.title}</div>
+                      <div className="text-xs text-white/40">{result.subtitle}</div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
-        )}
-      </div>
 
-      {/* Loading */}
-      {!fetched[activeTab] && (
-        <div className="flex items-center justify-center py-6">
-          <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
-        </div>
-      )}
+          {/* Loading */}
+          {!fetched[activeTab] && (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            </div>
+          )}
 
-      {/* Empty state */}
-      {fetched[activeTab] && (!currentItems || currentItems.length === 0) && (
-        <div className="py-6 text-center text-sm text-white/30">
-          Nothing logged yet. Search above to add some.
-        </div>
-      )}
+          {/* Empty state */}
+          {fetched[activeTab] && (!currentItems || currentItems.length === 0) && (
+            <div className="py-6 text-center text-sm text-white/30">
+              Nothing logged yet. Search above to add some.
+            </div>
+          )}
 
-      {/* Art grid */}
-      {fetched[activeTab] && currentItems && currentItems.length > 0 && (
-        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
-          {currentItems.map((item) =>
-            activeTab === 'album' ? (
-              <WatchedAlbumCard key={item.id} item={item} onRemove={() => removeItem(item.id)} onRate={(r) => rateItem(item.id, r)} onTap={() => setSheetItemId(item.id)} onUploadCover={(f) => uploadCover(item.id, f)} />
-            ) : (
-              <div key={item.id} className="group relative overflow-hidden rounded-lg" onClick={(e) => { if ((e.nativeEvent as PointerEvent).pointerType === 'touch') setSheetItemId(item.id); }}>
-                <button
-                  onClick={(e) => { e.stopPropagation(); removeItem(item.id); }}
-                  className="absolute right-1 top-1 z-10 hidden group-hover:flex h-5 w-5 items-center justify-center rounded bg-black/15 text-white/30 hover:bg-black/30 hover:text-white/60 transition-colors"
-                >
-                  <X className="h-3 w-3" />
-                </button>
-                {item.imageUrl ? (
-                  <img
-                    src={item.imageUrl}
-                    alt={item.title}
-                    title={item.title}
-                    className={`w-full object-cover ${tab.aspect}`}
-                  />
+          {/* Art grid */}
+          {fetched[activeTab] && currentItems && currentItems.length > 0 && (
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
+              {currentItems.map((item) =>
+                activeTab === 'album' ? (
+                  <WatchedAlbumCard key={item.id} item={item} onRemove={() => removeItem(item.id)} onRate={(r) => rateItem(item.id, r)} onTap={() => setSheetItemId(item.id)} onUploadCover={(f) => uploadCover(item.id, f)} />
                 ) : (
-                  <label onClick={(e) => e.stopPropagation()} className={`cursor-pointer w-full bg-white/10 flex flex-col items-center justify-center gap-1 ${tab.aspect}`}>
-                    <input type="file" accept="image/*" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) uploadCover(item.id, f); }} />
-                    <Plus className="h-6 w-6 text-white/30" />
-                  </label>
-                )}
-                <StarRating savedRating={item.rating} onRate={(r) => rateItem(item.id, r)} />
-              </div>
-            )
+                  <div key={item.id} className="group relative overflow-hidden rounded-lg" onClick={(e) => { if ((e.nativeEvent as PointerEvent).pointerType === 'touch') setSheetItemId(item.id); }}>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); removeItem(item.id); }}
+                      className="absolute right-1 top-1 z-10 hidden group-hover:flex h-5 w-5 items-center justify-center rounded bg-black/15 text-white/30 hover:bg-black/30 hover:text-white/60 transition-colors"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                    {item.imageUrl ? (
+                      <img
+                        src={item.imageUrl}
+                        alt={item.title}
+                        title={item.title}
+                        className={`w-full object-cover ${tab.aspect}`}
+                      />
+                    ) : (
+                      <label onClick={(e) => e.stopPropagation()} className={`cursor-pointer w-full bg-white/10 flex flex-col items-center justify-center gap-1 ${tab.aspect}`}>
+                        <input type="file" accept="image/*" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) uploadCover(item.id, f); }} />
+                        <Plus className="h-6 w-6 text-white/30" />
+                      </label>
+                    )}
+                    <StarRating savedRating={item.rating} onRate={(r) => rateItem(item.id, r)} />
+                  </div>
+                )
+              )}
+            </div>
           )}
-        </div>
+        </>
       )}
 
     </div>
@@ -548,6 +796,7 @@ export default function WatchedItemsWidget() {
           item={sheetItem}
           tab={tab}
           onRate={(r) => rateItem(sheetItem.id, r)}
+          onReview={(review) => reviewItem(sheetItem.id, review)}
           onRemove={() => removeItem(sheetItem.id)}
           onClose={() => setSheetItemId(null)}
           onUploadCover={(f) => uploadCover(sheetItem.id, f)}
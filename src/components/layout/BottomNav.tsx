@@ -1,4 +1,7 @@
-import { NavLink } from 'react-router-dom'
+import { useState } from 'react'
+import { NavLink, useLocation } from 'react-router-dom'
+import { Ellipsis, MonitorSmartphone } from 'lucide-react'
+import { useAuth } from '../../AuthContext'
 import type { NavItem } from './Layout'
 
 interface BottomNavProps {
@@ -10,32 +13,88 @@ const NAV_COLORS: Record<string, string> = {
   '/movies': 'bg-rose-500/75',
   '/gaming': 'bg-sky-500/75',
   '/music':  'bg-emerald-500/75',
+  '/calendar': 'bg-violet-500/75',
+  '/archive': 'bg-teal-500/75',
+  '/diary':  'bg-orange-500/75',
+  '/stats':  'bg-fuchsia-500/75',
+  '/import': 'bg-cyan-500/75',
+  '/status': 'bg-lime-500/75',
+  '/admin':  'bg-indigo-500/75',
 }
 
+const MORE_COLOR = 'bg-slate-500/75'
+
+function TabContent({ item, active }: { item: Pick<NavItem, 'label' | 'icon' | 'path'>; active: boolean }) {
+  const colorClass = NAV_COLORS[item.path] || MORE_COLOR
+  return (
+    <span className={`flex flex-col items-center justify-center gap-1 w-16 h-13 rounded-lg transition-colors ${active ? `${colorClass} text-white` : 'text-gray-400'}`}>
+      <item.icon className="w-5 h-5" />
+      {item.label}
+    </span>
+  )
+}
+
+// The tabs fit a phone's width; every other page is in the More sheet
 export default function BottomNav({ navItems }: BottomNavProps) {
+  const { logoutAllDevices } = useAuth()
+  const { pathname } = useLocation()
+  const [moreOpen, setMoreOpen] = useState(false)
+
+  const tabs = navItems.filter((item) => item.tab)
+  const more = navItems.filter((item) => !item.tab)
+  const onMorePage = more.some((item) => item.path === pathname)
+
   return (
-    <nav className="flex md:hidden fixed bottom-0 inset-x-0 h-16 z-50 border-t border-gray-200" style={{ backgroundColor: '#F5EEE4' }}>
-      {navItems.map((item) => (
-        <NavLink
-          key={item.path}
-          to={item.path}
-          end={item.path === '/'}
+    <>
+      {moreOpen && (
+        <div onClick={() => setMoreOpen(false)} className="md:hidden fixed inset-x-0 top-0 bottom-16 z-40 flex flex-col justify-end bg-black/30">
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="grid grid-cols-4 gap-y-2 rounded-t-xl border-t border-gray-200 px-2 pt-3 pb-2"
+            style={{ backgroundColor: '#F5EEE4' }}
+          >
+            {more.map((item) => (
+              <NavLink
+                key={item.path}
+                to={item.path}
+                onClick={() => setMoreOpen(false)}
+                className="flex justify-center text-xs font-medium"
+              >
+                {({ isActive }) => <TabContent item={item} active={isActive} />}
+              </NavLink>
+            ))}
+            <button
+              onClick={() => {
+                if (window.confirm('Log out on every device signed in to this account?')) logoutAllDevices()
+              }}
+              className="col-span-4 mt-1 flex items-center justify-center gap-2 rounded-lg py-2 text-sm font-medium text-gray-500 transition-colors hover:bg-gray-200/60"
+            >
+              <MonitorSmartphone className="w-5 h-5" />
+              Log out all devices
+            </button>
+          </div>
+        </div>
+      )}
+      <nav className="flex md:hidden fixed bottom-0 inset-x-0 h-16 z-50 border-t border-gray-200" style={{ backgroundColor: '#F5EEE4' }}>
+        {tabs.map((item) => (
+          <NavLink
+            key={item.path}
+            to={item.path}
+            end={item.path === '/'}
+            onClick={() => setMoreOpen(false)}
+            className="flex-1 flex flex-col items-center justify-center gap-1 text-xs font-medium transition-colors"
+          >
+            {({ isActive }) => <TabContent item={item} active={isActive && !moreOpen} />}
+          </NavLink>
+        ))}
+        <button
+          onClick={() => setMoreOpen((open) => !open)}
+          aria-expanded={moreOpen}
           className="flex-1 flex flex-col items-center justify-center gap-1 text-xs font-medium transition-colors"
         >
-          {({ isActive }) => {
-            const active = isActive
-            const colorClass = NAV_COLORS[item.path] || 'bg-amber-500/75'
-            return (
-              <>
-                <span className={`flex flex-col items-center justify-center gap-1 w-16 h-13 rounded-lg transition-colors ${active ? `${colorClass} text-white` : 'text-gray-400'}`}>
-                  <item.icon className="w-5 h-5" />
-                  {item.label}
-                </span>
-              </>
-            )
-          }}
-        </NavLink>
-      ))}
-    </nav>
+          <TabContent item={{ label: 'More', icon: Ellipsis, path: '' }} active={moreOpen || onMorePage} />
+        </button>
+      </nav>
+    </>
   )
 }
@@ -1,5 +1,9 @@
-import { Outlet } from 'react-router-dom'
-import { Home, Film, Gamepad2, Music } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Navigate, Outlet, useLocation } from 'react-router-dom'
+import { Home, Film, Gamepad2, Music, CalendarDays, Archive, NotebookPen, ChartColumn, FileUp, Activity, LogOut, ShieldCheck } from 'lucide-react'
+import { useAuth } from '../../AuthContext'
+import { isEnabled } from '../../features'
+import type { Feature, Features } from '../../features'
 import Sidebar from './Sidebar'
 import BottomNav from './BottomNav'
 
@@ -7,16 +11,53 @@ export interface NavItem {
   label: string
   path: string
   icon: React.ElementType
+  // Hidden when the server has this feature switched off
+  feature?: Feature
+  // In the mobile bottom bar; the rest are under its More sheet
+  tab?: boolean
 }
 
 const navItems: NavItem[] = [
-  { label: 'Home', path: '/', icon: Home },
-  { label: 'Movies', path: '/movies', icon: Film },
-  { label: 'Games', path: '/gaming', icon: Gamepad2 },
-  { label: 'Music', path: '/music', icon: Music },
+  { label: 'Home', path: '/', icon: Home, tab: true },
+  { label: 'Movies', path: '/movies', icon: Film, feature: 'movies', tab: true },
+  { label: 'Games', path: '/gaming', icon: Gamepad2, feature: 'gaming', tab: true },
+  { label: 'Music', path: '/music', icon: Music, feature: 'music', tab: true },
+  { label: 'Calendar', path: '/calendar', icon: CalendarDays },
+  { label: 'Archive', path: '/archive', icon: Archive },
+  { label: 'Diary', path: '/diary', icon: NotebookPen },
+  { label: 'Stats', path: '/stats', icon: ChartColumn },
+  { label: 'Import', path: '/import', icon: FileUp },
+  { label: 'Status', path: '/status', icon: Activity },
 ]
 
+const adminNavItem: NavItem = { label: 'Admin', path: '/admin', icon: ShieldCheck }
+
 export default function Layout() {
+  const { logout, authFetch } = useAuth()
+  const [isAdmin, setIsAdmin] = useState(false)
+  const [features, setFeatures] = useState<Features | null>(null)
+  const { pathname } = useLocation()
+
+  useEffect(() => {
+    authFetch('/api/auth/me')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((me: { isAdmin: boolean } | null) => setIsAdmin(me?.isAdmin ?? false))
+      .catch(() => setIsAdmin(false))
+  }, [authFetch])
+
+  useEffect(() => {
+    authFetch('/api/features')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Features | null) => setFeatures(data))
+      .catch(() => setFeatures(null))
+  }, [authFetch])
+
+  const enabledNavItems = navItems.filter((item) => !item.feature || isEnabled(features, item.feature))
+  const visibleNavItems = isAdmin ? [...enabledNavItems, adminNavItem] : enabledNavItems
+  // A bookmarked page whose feature is off goes back to Home
+  const pageFeature = navItems.find((item) => item.path === pathname)?.feature
+  const pageDisabled = pageFeature !== undefined && !isEnabled(features, pageFeature)
+
   return (
     <div className="h-dvh flex flex-col md:flex-row overflow-hidden">
       <div className="md:hidden relative">
@@ -45,13 +86,20 @@ export default function Layout() {
         >
           <img src="/bread_cat.png" alt="BakeBoard logo" className="h-14 w-14 rounded-full object-cover ring-2 ring-amber-600/20" />
           BakeBoard
+          <button
+            onClick={logout}
+            aria-label="Log out"
+            className="ml-auto mr-12 p-2 rounded-lg text-gray-500 transition-colors hover:bg-gray-200/60"
+          >
+            <LogOut className="w-5 h-5" />
+          </button>
         </header>
       </div>
-      <Sidebar navItems={navItems} />
+      <Sidebar navItems={visibleNavItems} />
       <main className="flex-1 overflow-y-auto pb-16 md:pb-0" style={{ backgroundColor: '#E8CEBF' }}>
-        <Outlet />
+        {pageDisabled ? <Navigate to="/" replace /> : <Outlet context={features} />}
       </main>
-      <BottomNav navItems={navItems} />
+      <BottomNav navItems={visibleNavItems} />
     </div>
   )
 }
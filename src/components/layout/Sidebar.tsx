@@ -1,4 +1,6 @@
 import { NavLink } from 'react-router-dom'
+import { LogOut, MonitorSmartphone } from 'lucide-react'
+import { useAuth } from '../../AuthContext'
 import type { NavItem } from './Layout'
 
 interface SidebarProps {
@@ -18,9 +20,18 @@ const NAV_COLORS: Record<string, { hover: string; active: string }> = {
   '/movies': { hover: 'hover:bg-rose-100 hover:text-rose-700',     active: 'bg-rose-500/75 text-white' },
   '/gaming': { hover: 'hover:bg-sky-100 hover:text-sky-700',       active: 'bg-sky-500/75 text-white' },
   '/music':  { hover: 'hover:bg-emerald-100 hover:text-emerald-700', active: 'bg-emerald-500/75 text-white' },
+  '/calendar': { hover: 'hover:bg-violet-100 hover:text-violet-700', active: 'bg-violet-500/75 text-white' },
+  '/archive': { hover: 'hover:bg-teal-100 hover:text-teal-700',     active: 'bg-teal-500/75 text-white' },
+  '/diary':  { hover: 'hover:bg-orange-100 hover:text-orange-700',   active: 'bg-orange-500/75 text-white' },
+  '/stats':  { hover: 'hover:bg-fuchsia-100 hover:text-fuchsia-700', active: 'bg-fuchsia-500/75 text-white' },
+  '/import': { hover: 'hover:bg-cyan-100 hover:text-cyan-700',       active: 'bg-cyan-500/75 text-white' },
+  '/status': { hover: 'hover:bg-lime-100 hover:text-lime-700',       active: 'bg-lime-500/75 text-white' },
+  '/admin':  { hover: 'hover:bg-indigo-100 hover:text-indigo-700',  active: 'bg-indigo-500/75 text-white' },
 }
 
 export default function Sidebar({ navItems }: SidebarProps) {
+  const { logout, logoutAllDevices } = useAuth()
+
   return (
     <div className="hidden md:flex relative w-64 flex-shrink-0">
       {/* Rainbow stripes in the clipped corner area */}
@@ -71,6 +82,24 @@ export default function Sidebar({ navItems }: SidebarProps) {
             </NavLink>
           ))}
         </nav>
+        <div className="mt-auto flex flex-col gap-1 px-3 pb-4">
+          <button
+            onClick={logout}
+            className="flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200/60"
+          >
+            <LogOut className="w-5 h-5" />
+            Log out
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm('Log out on every device signed in to this account?')) logoutAllDevices()
+            }}
+            className="flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium text-gray-600 transition-colors hover:bg-gray-200/60"
+          >
+            <MonitorSmartphone className="w-5 h-5" />
+            Log out all devices
+          </button>
+        </div>
       </aside>
     </div>
   )
@@ -2,6 +2,8 @@ import { useRef, useState } from 'react';
 import ColorThief from 'colorthief';
 import { Film, Skull } from 'lucide-react';
 import { useAuth } from '../../AuthContext';
+import SaveForLaterButton from '../SaveForLaterButton';
+import type { DirectorFilm, MovieRelease } from '../../../shared/types';
 
 function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
   r /= 255; g /= 255; b /= 255;
@@ -36,23 +38,13 @@ function hslToRgb(h: number, s: number, l: number): [number, number, number] {
   ];
 }
 
-interface DirectorFilm {
-  title: string;
-  year: string;
-  posterUrl: string | null;
+interface MovieCardProps extends Pick<MovieRelease, 'title' | 'posterUrl' | 'director' | 'directorId' | 'cast' | 'tmdbUrl' | 'isHorror'> {
+  // Without a handler there's no bookmark
+  saved?: boolean;
+  onSaveForLater?: () => void;
 }
 
-interface MovieCardProps {
-  title: string;
-  posterUrl: string | null;
-  director: string | null;
-  directorId: number | null;
-  cast: string[];
-  tmdbUrl: string;
-  isHorror?: boolean;
-}
-
-export default function MovieCard({ title, posterUrl, director, directorId, cast, tmdbUrl, isHorror }: MovieCardProps) {
+export default function MovieCard({ title, posterUrl, director, directorId, cast, tmdbUrl, isHorror, saved = false, onSaveForLater }: MovieCardProps) {
   const { authFetch } = useAuth();
   const imgRef = useRef<HTMLImageElement>(null);
   const [gradientStyle, setGradientStyle] = useState<React.CSSProperties | undefined>(undefined);
@@ -106,6 +98,7 @@ export default function MovieCard({ title, posterUrl, director, directorId, cast
         className="relative overflow-hidden rounded-t-lg bg-gray-100 aspect-[2/3] cursor-pointer"
         onClick={handlePosterClick}
       >
+        {onSaveForLater && <SaveForLaterButton saved={saved} onSave={onSaveForLater} />}
         {!flipped ? (
           <>
             {posterUrl ? (
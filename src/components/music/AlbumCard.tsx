@@ -1,6 +1,7 @@
 import { useRef, useState } from 'react';
 import ColorThief from 'colorthief';
 import { Music2, Play, Pause, Loader2, VolumeX } from 'lucide-react';
+import SaveForLaterButton from '../SaveForLaterButton';
 
 function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
   r /= 255; g /= 255; b /= 255;
@@ -42,11 +43,15 @@ interface AlbumCardProps {
   artist: string;
   coverUrl: string | null;
   type: string;
-  playbackState: PlaybackState;
-  onTogglePlay: (artist: string) => void;
+  playbackState?: PlaybackState;
+  // Without a handler the card is display-only (no preview playback)
+  onTogglePlay?: (artist: string) => void;
+  // Without a handler there's no bookmark
+  saved?: boolean;
+  onSaveForLater?: () => void;
 }
 
-export default function AlbumCard({ title, artist, coverUrl, type, playbackState, onTogglePlay }: AlbumCardProps) {
+export default function AlbumCard({ title, artist, coverUrl, type, playbackState = 'idle', onTogglePlay, saved = false, onSaveForLater }: AlbumCardProps) {
   const imgRef = useRef<HTMLImageElement>(null);
   const [gradientStyle, setGradientStyle] = useState<React.CSSProperties | undefined>(undefined);
   const [imgFailed, setImgFailed] = useState(false);
@@ -73,10 +78,11 @@ export default function AlbumCard({ title, artist, coverUrl, type, playbackState
 
   return (
     <div
-      className="group flex h-full flex-col overflow-hidden rounded-lg ring-2 ring-white/70 bg-white transition-all hover:shadow-lg cursor-pointer"
-      onClick={() => onTogglePlay(artist)}
+      className={`group flex h-full flex-col overflow-hidden rounded-lg ring-2 ring-white/70 bg-white transition-all hover:shadow-lg ${onTogglePlay ? 'cursor-pointer' : ''}`}
+      onClick={() => onTogglePlay?.(artist)}
     >
       <div className="relative overflow-hidden rounded-t-lg bg-gray-100 aspect-[1/1]">
+        {onSaveForLater && <SaveForLaterButton saved={saved} onSave={onSaveForLater} />}
         {coverUrl && !imgFailed ? (
           <img
             ref={imgRef}
@@ -99,7 +105,7 @@ export default function AlbumCard({ title, artist, coverUrl, type, playbackState
             {playbackState === 'no-preview' && <VolumeX className="h-10 w-10 text-white/80" />}
           </div>
         )}
-        {!showOverlay && (
+        {!showOverlay && onTogglePlay && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/0 opacity-0 transition-all group-hover:bg-black/30 group-hover:opacity-100">
             <Play className="h-10 w-10 text-white" />
           </div>
@@ -0,0 +1,42 @@
+// Calendar dates in the browser's local time zone, exchanged with the server
+// as YYYY-MM-DD strings so "today" means the user's today, not UTC's.
+
+export function toISODate(d: Date): string {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+// Parses YYYY-MM-DD as local midnight (new Date('YYYY-MM-DD') would be UTC)
+export function fromISODate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function addDays(d: Date, days: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+export function startOfWeek(d: Date): Date {
+  return addDays(d, -d.getDay());
+}
+
+// The Friday whose release week contains `d`: weekdays look ahead to this
+// Friday, the weekend looks back to the one just gone (matches the server)
+export function releaseFriday(d: Date): Date {
+  const day = d.getDay();
+  if (day === 6) return addDays(d, -1);
+  if (day === 0) return addDays(d, -2);
+  return addDays(d, 5 - day);
+}
+
+// "Updated 5m ago" for a server snapshot's lastUpdated timestamp
+export function updatedLabel(lastUpdated: string, now = new Date()): string {
+  const minutes = Math.floor((now.getTime() - Date.parse(lastUpdated)) / 60_000);
+  if (minutes < 1) return 'Updated just now';
+  if (minutes < 60) return `Updated ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Updated ${hours}h ago`;
+  return `Updated ${new Date(lastUpdated).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
@@ -0,0 +1,16 @@
+import { useOutletContext } from 'react-router-dom';
+import type { Feature, Features } from '../shared/types';
+
+// Features the server can switch off when their provider isn't configured
+// (see GET /api/features). Layout loads them and hands them to every page.
+
+export type { Feature, FeatureState, Features } from '../shared/types';
+
+// Until the list has loaded everything counts as on, so nothing flickers away
+export function isEnabled(features: Features | null, feature: Feature): boolean {
+  return features?.[feature]?.enabled ?? true;
+}
+
+export function useFeatures(): Features | null {
+  return useOutletContext<Features | null>();
+}
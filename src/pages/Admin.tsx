@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import type { AuthEvent, AuthEventType } from '../../shared/types';
+
+const EVENT_LABELS: Record<AuthEventType, { label: string; className: string }> = {
+  login_success: { label: 'Success', className: 'bg-emerald-100 text-emerald-700' },
+  login_failure: { label: 'Failed', className: 'bg-rose-100 text-rose-700' },
+  login_throttled: { label: 'Throttled', className: 'bg-amber-100 text-amber-700' },
+};
+
+export default function Admin() {
+  const { authFetch } = useAuth();
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [filter, setFilter] = useState<AuthEventType | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    authFetch('/api/admin/auth-events?limit=500')
+      .then((res) => {
+        if (res.status === 403) throw new Error('Only admins can view the audit log');
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: AuthEvent[]) => {
+        setEvents(data);
+        setError(null);
+        setLoading(false);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to fetch auth events');
+        setLoading(false);
+      });
+  }, [authFetch, reloadKey]);
+
+  const handleRefresh = () => {
+    setLoading(true);
+    setReloadKey((k) => k + 1);
+  };
+
+  const visible = filter === 'all' ? events : events.filter((e) => e.type === filter);
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-6 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Sign-in Activity <ShieldCheck className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">Recent login attempts across all accounts</p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      <div className="mb-4 flex items-center gap-2">
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as AuthEventType | 'all')}
+          className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700"
+        >
+          <option value="all">All events</option>
+          <option value="login_failure">Failed</option>
+          <option value="login_throttled">Throttled</option>
+          <option value="login_success">Success</option>
+        </select>
+        <button
+          onClick={handleRefresh}
+          className="flex items-center gap-1.5 rounded-lg bg-white/60 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-white transition-colors"
+        >
+          <RefreshCw className="h-4 w-4" /> Refresh
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && visible.length === 0 && (
+        <div className="py-20 text-center text-gray-500">
+          No sign-in activity
+        </div>
+      )}
+
+      {!loading && !error && visible.length > 0 && (
+        <div className="overflow-x-auto rounded-xl bg-white/70">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-2 font-medium">Time</th>
+                <th className="px-4 py-2 font-medium">Result</th>
+                <th className="px-4 py-2 font-medium">Username</th>
+                <th className="px-4 py-2 font-medium">IP</th>
+                <th className="px-4 py-2 font-medium">User agent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((event) => (
+                <tr key={event.id} className="border-b border-gray-100 last:border-0">
+                  <td className="whitespace-nowrap px-4 py-2 text-gray-600">
+                    {new Date(event.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${EVENT_LABELS[event.type].className}`}>
+                      {EVENT_LABELS[event.type].label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-800">
+                    {event.username}
+                    {event.userId === null && event.type === 'login_failure' && (
+                      <span className="ml-1 text-xs text-gray-400">(unknown)</span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2 font-mono text-xs text-gray-600">{event.ip}</td>
+                  <td className="max-w-xs truncate px-4 py-2 text-xs text-gray-500" title={event.userAgent}>
+                    {event.userAgent}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
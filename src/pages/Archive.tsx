@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { Archive as ArchiveIcon, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import GameCard from '../components/gaming/GameCard';
+import MovieCard from '../components/movies/MovieCard';
+import AlbumCard from '../components/music/AlbumCard';
+import { useAuth } from '../AuthContext';
+import { toISODate, fromISODate } from '../dates';
+import type { AlbumRelease, ArchiveDate, CalendarCategory, GameReleaseWithReviews, MovieRelease } from '../../shared/types';
+
+type ArchivedReleases =
+  | { category: 'game'; date: string; archivedAt: string; items: GameReleaseWithReviews[] }
+  | { category: 'movie'; date: string; archivedAt: string; items: MovieRelease[] }
+  | { category: 'album'; date: string; archivedAt: string; items: AlbumRelease[] };
+
+const CATEGORIES: { key: CalendarCategory; label: string; chip: string }[] = [
+  { key: 'game', label: 'Games', chip: 'bg-sky-500/40' },
+  { key: 'movie', label: 'Movies', chip: 'bg-rose-500/40' },
+  { key: 'album', label: 'Albums', chip: 'bg-emerald-500/40' },
+];
+
+function monthRange(month: Date): { from: string; to: string } {
+  return {
+    from: toISODate(new Date(month.getFullYear(), month.getMonth(), 1)),
+    to: toISODate(new Date(month.getFullYear(), month.getMonth() + 1, 0)),
+  };
+}
+
+export default function Archive() {
+  const { authFetch } = useAuth();
+  const [category, setCategory] = useState<CalendarCategory>('game');
+  const [month, setMonth] = useState(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1));
+  const [picked, setPicked] = useState<string | null>(null);
+  const [datesResult, setDatesResult] = useState<{ url: string; dates?: ArchiveDate[]; error?: string } | null>(null);
+  const [entryResult, setEntryResult] = useState<{ url: string; entry?: ArchivedReleases; error?: string } | null>(null);
+
+  const { from, to } = monthRange(month);
+  const datesUrl = `/api/archive/dates?from=${from}&to=${to}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    authFetch(datesUrl)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: ArchiveDate[]) => {
+        if (!cancelled) setDatesResult({ url: datesUrl, dates: data });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setDatesResult({ url: datesUrl, error: err instanceof Error ? err.message : 'Failed to fetch archive' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, datesUrl]);
+
+  const datesLoading = datesResult?.url !== datesUrl;
+  const dates = datesLoading
+    ? []
+    : (datesResult?.dates ?? []).filter((d) => d.category === category).map((d) => d.date);
+  // Until a date is picked, show the most recent one archived this month
+  const selected = picked && dates.includes(picked) ? picked : dates[dates.length - 1] ?? null;
+  const entryUrl = selected ? `/api/archive/${category}/${selected}` : null;
+
+  useEffect(() => {
+    if (!entryUrl) return;
+    let cancelled = false;
+    authFetch(entryUrl)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: ArchivedReleases) => {
+        if (!cancelled) setEntryResult({ url: entryUrl, entry: data });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setEntryResult({ url: entryUrl, error: err instanceof Error ? err.message : 'Failed to fetch releases' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, entryUrl]);
+
+  const entryLoading = entryUrl !== null && entryResult?.url !== entryUrl;
+  const entry = entryUrl && !entryLoading ? entryResult?.entry ?? null : null;
+  const loading = datesLoading || entryLoading;
+  const error = datesLoading ? null : datesResult?.error ?? (entryLoading || !entryUrl ? null : entryResult?.error ?? null);
+
+  const stepMonth = (direction: -1 | 1) => {
+    setMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + direction, 1));
+    setPicked(null);
+  };
+
+  const navButton = 'rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors';
+  const gridClasses = 'grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10';
+
+  const renderItems = (archived: ArchivedReleases) => {
+    switch (archived.category) {
+      case 'game':
+        return archived.items.map((game) => (
+          <div key={game.id} className="h-full">
+            <GameCard
+              name={game.name}
+              coverUrl={game.coverUrl}
+              platforms={game.platforms}
+              steamAppId={game.steamAppId}
+              websiteUrl={game.websiteUrl}
+              steamReviews={game.steamReviews}
+              steamDescription={game.steamDescription}
+            />
+          </div>
+        ));
+      case 'movie':
+        return archived.items.map((movie) => (
+          <div key={movie.id} className="h-full">
+            <MovieCard
+              title={movie.title}
+              posterUrl={movie.posterUrl}
+              director={movie.director}
+              directorId={movie.directorId}
+              cast={movie.cast}
+              tmdbUrl={movie.tmdbUrl}
+              isHorror={movie.isHorror}
+            />
+          </div>
+        ));
+      case 'album':
+        return archived.items.map((album) => (
+          <div key={album.id} className="h-full">
+            <AlbumCard title={album.title} artist={album.artist} coverUrl={album.coverUrl} type={album.type} />
+          </div>
+        ));
+    }
+  };
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-4 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Release Archive <ArchiveIcon className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">
+            {selected
+              ? fromISODate(selected).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+              : month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => stepMonth(-1)} aria-label="Previous month" className={navButton}>
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="min-w-36 text-center text-sm font-medium text-white/70">
+            {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </span>
+          <button onClick={() => stepMonth(1)} aria-label="Next month" className={navButton}>
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-1 sm:ml-auto">
+          {CATEGORIES.map((c) => (
+            <button
+              key={c.key}
+              onClick={() => setCategory(c.key)}
+              className={`rounded px-3 py-1.5 text-sm font-medium transition-colors ${
+                category === c.key
+                  ? `${c.chip} text-white/90`
+                  : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
+              }`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {dates.length > 0 && (
+        <div className="mb-6 flex flex-wrap gap-1">
+          {dates.map((date) => (
+            <button
+              key={date}
+              onClick={() => setPicked(date)}
+              className={`rounded px-2.5 py-1 text-xs font-medium transition-colors ${
+                date === selected
+                  ? 'bg-amber-500/40 text-white/90'
+                  : 'bg-gray-500/20 text-white/50 hover:bg-gray-500/30 hover:text-white/70'
+              }`}
+            >
+              {fromISODate(date).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && !selected && (
+        <div className="py-20 text-center text-gray-500">Nothing archived this month</div>
+      )}
+
+      {!loading && !error && entry && entry.items.length === 0 && (
+        <div className="py-20 text-center text-gray-500">No releases were listed that day</div>
+      )}
+
+      {!loading && !error && entry && entry.items.length > 0 && (
+        <div className={gridClasses}>{renderItems(entry)}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import { toISODate, addDays, startOfWeek } from '../dates';
+import type { CalendarCategory, CalendarEntry, CalendarResponse } from '../../shared/types';
+
+type View = 'month' | 'week';
+
+const CATEGORIES: { key: CalendarCategory; label: string; dot: string; chip: string; border: string }[] = [
+  { key: 'game', label: 'Games', dot: 'bg-sky-500', chip: 'bg-sky-500/40', border: 'border-sky-500' },
+  { key: 'movie', label: 'Movies', dot: 'bg-rose-500', chip: 'bg-rose-500/40', border: 'border-rose-500' },
+  { key: 'album', label: 'Albums', dot: 'bg-emerald-500', chip: 'bg-emerald-500/40', border: 'border-emerald-500' },
+];
+
+const CATEGORY_STYLES = Object.fromEntries(CATEGORIES.map((c) => [c.key, c])) as Record<CalendarCategory, (typeof CATEGORIES)[number]>;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_CELL_LIMIT = 3;
+
+function visibleRange(view: View, anchor: Date): { start: Date; end: Date } {
+  if (view === 'week') {
+    const start = startOfWeek(anchor);
+    return { start, end: addDays(start, 6) };
+  }
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  return { start: startOfWeek(first), end: addDays(startOfWeek(last), 6) };
+}
+
+function rangeLabel(view: View, anchor: Date, start: Date, end: Date): string {
+  if (view === 'month') {
+    return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const endLabel = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${startLabel} – ${endLabel}`;
+}
+
+export default function Calendar() {
+  const { authFetch } = useAuth();
+  const [view, setView] = useState<View>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [enabled, setEnabled] = useState<CalendarCategory[]>(['game', 'movie', 'album']);
+  const [result, setResult] = useState<{ url: string; data?: CalendarResponse; error?: string } | null>(null);
+
+  const { start, end } = useMemo(() => visibleRange(view, anchor), [view, anchor]);
+  const days = useMemo(() => {
+    const list: Date[] = [];
+    for (let d = start; d <= end; d = addDays(d, 1)) list.push(d);
+    return list;
+  }, [start, end]);
+
+  const url = `/api/calendar?from=${toISODate(start)}&to=${toISODate(end)}&categories=${enabled.join(',')}`;
+
+  useEffect(() => {
+    if (enabled.length === 0) return;
+    let cancelled = false;
+    authFetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: CalendarResponse) => {
+        if (!cancelled) setResult({ url, data });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setResult({ url, error: err instanceof Error ? err.message : 'Failed to fetch releases' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, url, enabled.length]);
+
+  const loading = enabled.length > 0 && result?.url !== url;
+  const error = !loading ? result?.error ?? null : null;
+  const data = !loading && enabled.length > 0 ? result?.data ?? null : null;
+
+  const entriesByDate = useMemo(() => {
+    const map = new Map<string, CalendarEntry[]>();
+    for (const entry of data?.entries ?? []) {
+      const list = map.get(entry.date) ?? [];
+      list.push(entry);
+      map.set(entry.date, list);
+    }
+    return map;
+  }, [data]);
+
+  const step = (direction: -1 | 1) => {
+    setAnchor((prev) => view === 'week'
+      ? addDays(prev, direction * 7)
+      : new Date(prev.getFullYear(), prev.getMonth() + direction, 1));
+  };
+
+  const toggleCategory = (category: CalendarCategory) => {
+    setEnabled((prev) => prev.includes(category)
+      ? prev.filter((c) => c !== category)
+      : CATEGORIES.map((c) => c.key).filter((c) => c === category || prev.includes(c)));
+  };
+
+  const openWeek = (day: Date) => {
+    setAnchor(day);
+    setView('week');
+  };
+
+  const today = toISODate(new Date());
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-4 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Release Calendar <CalendarDays className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">{rangeLabel(view, anchor, start, end)}</p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => step(-1)}
+            aria-label={view === 'week' ? 'Previous week' : 'Previous month'}
+            className="rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="rounded bg-gray-500/20 px-3 py-1.5 text-sm font-medium text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => step(1)}
+            aria-label={view === 'week' ? 'Next week' : 'Next month'}
+            className="rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-1">
+          {(['month', 'week'] as View[]).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`rounded px-3 py-1.5 text-sm font-medium capitalize transition-colors ${
+                view === v
+                  ? 'bg-amber-500/40 text-white/90'
+                  : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
+              }`}
+            >
+              {v}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex gap-1 sm:ml-auto">
+          {CATEGORIES.map((c) => (
+            <button
+              key={c.key}
+              onClick={() => toggleCategory(c.key)}
+              aria-pressed={enabled.includes(c.key)}
+              className={`flex items-center gap-1.5 rounded px-3 py-1.5 text-sm font-medium transition-colors ${
+                enabled.includes(c.key)
+                  ? `${c.chip} text-white/90`
+                  : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
+              }`}
+            >
+              <span className={`h-2 w-2 rounded-full ${c.dot}`} />
+              {c.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data && data.unavailable.length > 0 && (
+        <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-700">
+          Couldn't load {data.unavailable.map((c) => CATEGORY_STYLES[c].label.toLowerCase()).join(' or ')} for this range.
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {enabled.length === 0 && (
+        <div className="py-20 text-center text-gray-500">
+          Pick at least one category to show
+        </div>
+      )}
+
+      {data && view === 'month' && (
+        <div className="overflow-hidden rounded-xl bg-white/60">
+          <div className="grid grid-cols-7 border-b border-gray-200">
+            {WEEKDAYS.map((w) => (
+              <div key={w} className="px-2 py-1.5 text-center text-xs font-medium uppercase text-gray-500">{w}</div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map((day) => {
+              const iso = toISODate(day);
+              const entries = entriesByDate.get(iso) ?? [];
+              const inMonth = day.getMonth() === anchor.getMonth();
+              return (
+                <div
+                  key={iso}
+                  className={`min-h-24 border-b border-r border-gray-100 p-1.5 ${inMonth ? '' : 'bg-gray-100/60'}`}
+                >
+                  <div className={`mb-1 text-xs font-medium ${
+                    iso === today
+                      ? 'inline-flex h-5 w-5 items-center justify-center rounded-full bg-indigo-600 text-white'
+                      : inMonth ? 'text-gray-700' : 'text-gray-400'
+                  }`}>
+                    {day.getDate()}
+                  </div>
+                  <div className="flex flex-col gap-0.5">
+                    {entries.slice(0, MONTH_CELL_LIMIT).map((entry) => (
+                      <a
+                        key={`${entry.category}-${entry.id}`}
+                        href={entry.url ?? undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={entry.subtitle ? `${entry.title} — ${entry.subtitle}` : entry.title}
+                        className="flex items-center gap-1 truncate rounded px-1 text-xs text-gray-700 hover:bg-white"
+                      >
+                        <span className={`h-1.5 w-1.5 flex-shrink-0 rounded-full ${CATEGORY_STYLES[entry.category].dot}`} />
+                        <span className="truncate">{entry.title}</span>
+                      </a>
+                    ))}
+                    {entries.length > MONTH_CELL_LIMIT && (
+                      <button
+                        onClick={() => openWeek(day)}
+                        className="px-1 text-left text-xs font-medium text-indigo-600 hover:underline"
+                      >
+                        +{entries.length - MONTH_CELL_LIMIT} more
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {data && view === 'week' && (
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-7">
+          {days.map((day) => {
+            const iso = toISODate(day);
+            const entries = entriesByDate.get(iso) ?? [];
+            return (
+              <div key={iso} className="rounded-xl bg-white/60 p-2">
+                <div className={`mb-2 text-sm font-semibold ${iso === today ? 'text-indigo-600' : 'text-gray-700'}`}>
+                  {day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                </div>
+                {entries.length === 0 && <p className="text-xs text-gray-400">No releases</p>}
+                <div className="flex flex-col gap-2">
+                  {entries.map((entry) => (
+                    <a
+                      key={`${entry.category}-${entry.id}`}
+                      href={entry.url ?? undefined}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className={`flex gap-2 rounded border-l-2 bg-white/70 p-1.5 hover:bg-white ${CATEGORY_STYLES[entry.category].border}`}
+                    >
+                      {entry.imageUrl && (
+                        <img
+                          src={entry.imageUrl}
+                          alt=""
+                          loading="lazy"
+                          className="h-12 w-9 flex-shrink-0 rounded object-cover"
+                          onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <p className="line-clamp-2 text-xs font-medium text-gray-800">{entry.title}</p>
+                        {entry.subtitle && <p className="truncate text-[11px] text-gray-500">{entry.subtitle}</p>}
+                      </div>
+                    </a>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { BookOpen, ChevronLeft, ChevronRight, Film, Gamepad2, Loader2, Music, NotebookPen, Repeat, Star, Tv } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import { fromISODate } from '../dates';
+import type { DiaryEntry, WatchedCategory } from '../../shared/types';
+
+const CATEGORY_ICONS: Record<WatchedCategory, LucideIcon> = {
+  movie: Film,
+  tv: Tv,
+  album: Music,
+  book: BookOpen,
+  game: Gamepad2,
+};
+
+// Entries arrive most recent first, so months come out newest first too
+function groupByMonth(entries: DiaryEntry[]): { month: string; entries: DiaryEntry[] }[] {
+  const groups: { month: string; entries: DiaryEntry[] }[] = [];
+  for (const entry of entries) {
+    const month = entry.date.slice(0, 7);
+    const last = groups[groups.length - 1];
+    if (last?.month === month) last.entries.push(entry);
+    else groups.push({ month, entries: [entry] });
+  }
+  return groups;
+}
+
+export default function Diary() {
+  const { authFetch } = useAuth();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [result, setResult] = useState<{ url: string; entries?: DiaryEntry[]; error?: string } | null>(null);
+
+  const url = `/api/diary?from=${year}-01-01&to=${year}-12-31`;
+
+  useEffect(() => {
+    let cancelled = false;
+    authFetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: DiaryEntry[]) => {
+        if (!cancelled) setResult({ url, entries: data });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setResult({ url, error: err instanceof Error ? err.message : 'Failed to fetch diary' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, url]);
+
+  const loading = result?.url !== url;
+  const entries = loading ? [] : result?.entries ?? [];
+  const error = loading ? null : result?.error ?? null;
+  const months = groupByMonth(entries);
+
+  const navButton = 'rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors disabled:opacity-30';
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-4 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Diary <NotebookPen className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">
+            {loading ? year : `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} in ${year}`}
+          </p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      <div className="mb-6 flex items-center gap-1">
+        <button onClick={() => setYear((y) => y - 1)} aria-label="Previous year" className={navButton}>
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="min-w-20 text-center text-sm font-medium text-white/70">{year}</span>
+        <button onClick={() => setYear((y) => y + 1)} disabled={year >= new Date().getFullYear()} aria-label="Next year" className={navButton}>
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && entries.length === 0 && (
+        <div className="py-20 text-center text-gray-500">Nothing logged in {year}</div>
+      )}
+
+      <div className="max-w-2xl space-y-8">
+        {months.map(({ month, entries }) => (
+          <section key={month}>
+            <h2 className="mb-2 text-sm font-semibold uppercase tracking-wide text-white/50">
+              {fromISODate(`${month}-01`).toLocaleDateString('en-US', { month: 'long' })}
+            </h2>
+            <ul className="divide-y divide-white/5 rounded-lg bg-gray-500/10">
+              {entries.map((entry) => {
+                const Icon = CATEGORY_ICONS[entry.category as WatchedCategory] ?? Film;
+                return (
+                  <li key={entry.id} className="flex items-start gap-3 px-3 py-2">
+                    <span className="w-8 shrink-0 pt-1 text-right text-lg font-semibold text-white/60">
+                      {fromISODate(entry.date).getDate()}
+                    </span>
+                    {entry.imageUrl ? (
+                      <img src={entry.imageUrl} alt="" className="h-14 w-10 shrink-0 rounded object-cover" />
+                    ) : (
+                      <div className="flex h-14 w-10 shrink-0 items-center justify-center rounded bg-white/10">
+                        <Icon className="h-4 w-4 text-white/30" />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="flex items-center gap-1.5 truncate text-sm font-medium text-white">
+                        <Icon className="h-3.5 w-3.5 shrink-0 text-white/40" />
+                        {entry.title}
+                        {entry.rewatch && <Repeat className="h-3.5 w-3.5 shrink-0 text-sky-300" aria-label="Rewatch" />}
+                      </p>
+                      {entry.subtitle && <p className="truncate text-xs text-white/50">{entry.subtitle}</p>}
+                      {entry.notes && <p className="mt-1 whitespace-pre-line text-xs text-white/70">{entry.notes}</p>}
+                    </div>
+                    {entry.rating != null && (
+                      <span className="flex shrink-0 items-center gap-0.5 pt-1 text-xs text-yellow-400">
+                        <Star className="h-3 w-3 fill-yellow-400" /> {entry.rating}
+                      </span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,60 +1,107 @@
 import { useEffect, useState } from 'react';
-import { Calendar, Loader2, X } from 'lucide-react';
+import { Calendar, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Loader2, X } from 'lucide-react';
 import GameCard from '../components/gaming/GameCard';
+import DataUnavailable from '../components/DataUnavailable';
 import { useAuth } from '../AuthContext';
+import { useBacklog } from '../backlog';
+import { toISODate, fromISODate, addDays, updatedLabel } from '../dates';
+import type { FeedIssue, FeedResponse, GameReleaseWithReviews as GameRelease } from '../../shared/types';
 
-interface GameRelease {
-  id: number;
-  name: string;
-  coverUrl: string | null;
-  platforms: string[];
-  steamAppId: string | null;
-  websiteUrl: string | null;
-  steamReviews: {
-    totalPositive: number;
-    totalNegative: number;
-    totalReviews: number;
-    reviewScoreDesc: string;
-  } | null;
-  steamDescription: string | null;
+type Span = 'day' | 'week';
+
+function dayLabel(d: Date): string {
+  return d.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
 }
 
 export default function Gaming() {
   const { authFetch } = useAuth();
-  const [games, setGames] = useState<GameRelease[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const backlog = useBacklog();
+  const [date, setDate] = useState(() => new Date());
+  const [span, setSpan] = useState<Span>('day');
+  const [result, setResult] = useState<{ url: string; games?: GameRelease[]; issues?: FeedIssue[]; lastUpdated?: string; error?: string } | null>(null);
+
+  const from = toISODate(date);
+  const to = toISODate(addDays(date, span === 'week' ? 6 : 0));
+  const url = span === 'week'
+    ? `/api/gaming/releases?from=${from}&to=${to}`
+    : `/api/gaming/releases?date=${from}`;
 
   useEffect(() => {
-    authFetch('/api/gaming/releases')
+    let cancelled = false;
+    authFetch(url)
       .then((res) => {
         if (!res.ok) throw new Error(`Server error: ${res.status}`);
         return res.json();
       })
-      .then((data: GameRelease[]) => {
-        setGames(data);
-        setLoading(false);
+      .then((data: FeedResponse<GameRelease>) => {
+        if (!cancelled) setResult({ url, games: data.items, issues: data.issues, lastUpdated: data.lastUpdated });
       })
       .catch((err: unknown) => {
-        setError(err instanceof Error ? err.message : 'Failed to fetch releases');
-        setLoading(false);
+        if (!cancelled) setResult({ url, error: err instanceof Error ? err.message : 'Failed to fetch releases' });
       });
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, url]);
+
+  const loading = result?.url !== url;
+  const error = loading ? null : result?.error ?? null;
+  const games = loading ? [] : result?.games ?? [];
+  const lastUpdated = loading ? null : result?.lastUpdated ?? null;
+  const issues = loading ? [] : result?.issues ?? [];
 
   const handleDismiss = async (id: number) => {
     if (!window.confirm('Remove this card?')) return;
     try {
       await authFetch(`/api/dismissed/game/${id}`, { method: 'POST' });
-      setGames((prev) => prev.filter((g) => g.id !== id));
+      setResult((prev) => prev && { ...prev, games: prev.games?.filter((g) => g.id !== id) });
     } catch {}
   };
 
-  const today = new Date().toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const isToday = from === toISODate(new Date());
+  const subtitle = span === 'week'
+    ? `${dayLabel(date)} – ${dayLabel(addDays(date, 6))}`
+    : dayLabel(date);
+  const emptyMessage = span === 'week'
+    ? 'No releases this week'
+    : isToday ? 'No releases today' : 'No releases on this day';
+
+  // Week view groups cards under a heading per release day
+  const groups = span === 'week'
+    ? [...new Set(games.map((g) => g.releaseDate))].sort().map((day) => ({
+        day,
+        games: games.filter((g) => g.releaseDate === day),
+      }))
+    : [{ day: from, games }];
+
+  const renderCard = (game: GameRelease) => (
+    <div key={game.id} className="group relative h-full">
+      <button
+        onClick={() => handleDismiss(game.id)}
+        className="absolute right-1 top-1 z-10 hidden group-hover:flex h-5 w-5 items-center justify-center rounded bg-black/15 text-white/30 hover:bg-black/30 hover:text-white/60 transition-colors"
+      >
+        <X className="h-3 w-3" />
+      </button>
+      <GameCard
+        name={game.name}
+        coverUrl={game.coverUrl}
+        platforms={game.platforms}
+        steamAppId={game.steamAppId}
+        websiteUrl={game.websiteUrl}
+        steamReviews={game.steamReviews}
+        steamDescription={game.steamDescription}
+        saved={backlog.isSaved('game', game.id)}
+        onSaveForLater={() => backlog.save('game', { id: game.id, title: game.name, subtitle: game.platforms.join(', '), imageUrl: game.coverUrl })}
+      />
+    </div>
+  );
+
+  const navButton = 'rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors';
 
   return (
     <div className="p-6 md:p-10">
@@ -66,11 +113,51 @@ export default function Gaming() {
           <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
             New Game Releases <Calendar className="h-5 w-5 text-indigo-600" />
           </h1>
-          <p className="text-sm text-gray-500">{today}</p>
+          <p className="text-sm text-gray-500">{subtitle}</p>
+          {lastUpdated && <p className="text-xs text-gray-500/70">{updatedLabel(lastUpdated)}</p>}
+          <DataUnavailable issues={issues} />
         </div>
         <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
       </div>
 
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => setDate((d) => addDays(d, -7))} aria-label="Previous week" className={navButton}>
+            <ChevronsLeft className="h-4 w-4" />
+          </button>
+          <button onClick={() => setDate((d) => addDays(d, -1))} aria-label="Previous day" className={navButton}>
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setDate(new Date())}
+            className="rounded bg-gray-500/20 px-3 py-1.5 text-sm font-medium text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            Today
+          </button>
+          <button onClick={() => setDate((d) => addDays(d, 1))} aria-label="Next day" className={navButton}>
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <button onClick={() => setDate((d) => addDays(d, 7))} aria-label="Next week" className={navButton}>
+            <ChevronsRight className="h-4 w-4" />
+          </button>
+        </div>
+        <div className="flex gap-1">
+          {(['day', 'week'] as Span[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setSpan(value)}
+              className={`rounded px-3 py-1.5 text-sm font-medium capitalize transition-colors ${
+                span === value
+                  ? 'bg-amber-500/40 text-white/90'
+                  : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {loading && (
         <div className="flex items-center justify-center py-20">
           <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
@@ -85,33 +172,20 @@ export default function Gaming() {
 
       {!loading && !error && games.length === 0 && (
         <div className="py-20 text-center text-gray-500">
-          No releases today
+          {emptyMessage}
         </div>
       )}
 
-      {!loading && !error && games.length > 0 && (
-        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10">
-          {games.map((game) => (
-            <div key={game.id} className="group relative h-full">
-              <button
-                onClick={() => handleDismiss(game.id)}
-                className="absolute right-1 top-1 z-10 hidden group-hover:flex h-5 w-5 items-center justify-center rounded bg-black/15 text-white/30 hover:bg-black/30 hover:text-white/60 transition-colors"
-              >
-                <X className="h-3 w-3" />
-              </button>
-              <GameCard
-                name={game.name}
-                coverUrl={game.coverUrl}
-                platforms={game.platforms}
-                steamAppId={game.steamAppId}
-                websiteUrl={game.websiteUrl}
-                steamReviews={game.steamReviews}
-                steamDescription={game.steamDescription}
-              />
-            </div>
-          ))}
+      {!loading && !error && games.length > 0 && groups.map((group) => (
+        <div key={group.day} className="mb-6">
+          {span === 'week' && (
+            <h2 className="mb-2 text-sm font-semibold text-white/80">{dayLabel(fromISODate(group.day))}</h2>
+          )}
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-6 lg:grid-cols-8 xl:grid-cols-10">
+            {group.games.map(renderCard)}
+          </div>
         </div>
-      )}
+      ))}
     </div>
   );
 }
@@ -3,6 +3,7 @@ import { Loader2, MapPin } from 'lucide-react';
 import { useAuth } from '../AuthContext';
 import WatchedItemsWidget from '../components/home/WatchedItemsWidget';
 import NewsWidget from '../components/home/NewsWidget';
+import { isEnabled, useFeatures } from '../features';
 
 interface ForecastEntry {
   dt: number;
@@ -24,12 +25,15 @@ const FALLBACK_LON = -64.13;
 
 export default function Home() {
   const { authFetch } = useAuth();
+  const features = useFeatures();
+  const showWeather = isEnabled(features, 'weather');
   const [days, setDays] = useState<DaySummary[]>([]);
   const [cityName, setCityName] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (!showWeather) return;
     const fetchWeather = (lat: number, lon: number) => {
       authFetch(`/api/weather/forecast?lat=${lat}&lon=${lon}`)
         .then((res) => {
@@ -106,77 +110,79 @@ export default function Home() {
     } else {
       fetchWeather(FALLBACK_LAT, FALLBACK_LON);
     }
-  }, []);
+  }, [showWeather]);
 
   const containerStyle = { clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' };
 
   return (
     <div className="p-6 md:p-10 space-y-6">
       {/* Weather Widget */}
-      <div className="max-w-xl rounded-xl bg-[#BB7044]/15 p-4" style={containerStyle}>
-        <div className="mb-3 flex items-center gap-3">
-          <div className="flex items-center gap-1.5 shrink-0">
-            <MapPin className="h-4 w-4 text-white/50" />
-            <h2 className="text-base font-semibold text-white/70 font-nunito-black">
-              {cityName || '5-Day Forecast'}
-            </h2>
+      {showWeather && (
+        <div className="max-w-xl rounded-xl bg-[#BB7044]/15 p-4" style={containerStyle}>
+          <div className="mb-3 flex items-center gap-3">
+            <div className="flex items-center gap-1.5 shrink-0">
+              <MapPin className="h-4 w-4 text-white/50" />
+              <h2 className="text-base font-semibold text-white/70 font-nunito-black">
+                {cityName || '5-Day Forecast'}
+              </h2>
+            </div>
+            <div className="h-px flex-1 bg-white/15 mr-2" />
           </div>
-          <div className="h-px flex-1 bg-white/15 mr-2" />
-        </div>
-
-        {loading && (
-          <div className="flex items-center justify-center py-10">
-            <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
-          </div>
-        )}
-
-        {error && (
-          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
-            {error}
-          </div>
-        )}
 
-        {!loading && !error && days.length === 0 && (
-          <div className="py-10 text-center text-gray-500">
-            No forecast data available
-          </div>
-        )}
-
-        {!loading && !error && days.length > 0 && (
-          <div className="grid grid-cols-5 gap-1.5 sm:gap-3">
-            {days.map((day, i) => {
-              const positionColors = [
-                'bg-amber-500/15',
-                'bg-rose-500/15',
-                'bg-sky-500/15',
-                'bg-emerald-500/15',
-                'bg-indigo-500/15',
-              ];
-              return (
-              <div
-                key={day.label}
-                className={`flex flex-col items-center rounded-lg p-2 sm:p-3 ${positionColors[i]}`}
-              >
-                <span className="text-xs font-semibold text-white/70 sm:text-sm">{day.label}</span>
-                <img
-                  src={`https://openweathermap.org/img/wn/${day.icon}@2x.png`}
-                  alt={day.description}
-                  className="h-10 w-10 sm:h-12 sm:w-12"
-                />
-                <span className="text-sm font-bold text-white">{day.high}°</span>
-                <span className="text-xs text-white/40">{day.low}°</span>
-                <span className="mt-1 text-center text-[10px] leading-tight text-white/50 sm:text-xs">
-                  {day.description}
-                </span>
-              </div>
-              );
-            })}
-          </div>
-        )}
-      </div>
+          {loading && (
+            <div className="flex items-center justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+            </div>
+          )}
+
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && days.length === 0 && (
+            <div className="py-10 text-center text-gray-500">
+              No forecast data available
+            </div>
+          )}
+
+          {!loading && !error && days.length > 0 && (
+            <div className="grid grid-cols-5 gap-1.5 sm:gap-3">
+              {days.map((day, i) => {
+                const positionColors = [
+                  'bg-amber-500/15',
+                  'bg-rose-500/15',
+                  'bg-sky-500/15',
+                  'bg-emerald-500/15',
+                  'bg-indigo-500/15',
+                ];
+                return (
+                <div
+                  key={day.label}
+                  className={`flex flex-col items-center rounded-lg p-2 sm:p-3 ${positionColors[i]}`}
+                >
+                  <span className="text-xs font-semibold text-white/70 sm:text-sm">{day.label}</span>
+                  <img
+                    src={`https://openweathermap.org/img/wn/${day.icon}@2x.png`}
+                    alt={day.description}
+                    className="h-10 w-10 sm:h-12 sm:w-12"
+                  />
+                  <span className="text-sm font-bold text-white">{day.high}°</span>
+                  <span className="text-xs text-white/40">{day.low}°</span>
+                  <span className="mt-1 text-center text-[10px] leading-tight text-white/50 sm:text-xs">
+                    {day.description}
+                  </span>
+                </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
 
       {/* News Widget */}
-      <NewsWidget />
+      {isEnabled(features, 'news') && <NewsWidget />}
 
       {/* Watched Items Widget */}
       <WatchedItemsWidget />
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Check, FileUp, Loader2, RotateCw, Upload } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import type { ApiError, ImportMatch, ImportPreview, ImportResult, ImportSource } from '../../shared/types';
+import type { ImportCommitBody, ImportMatchBody } from '../../shared/schemas';
+
+const SOURCES: { key: ImportSource; label: string; file: string; accept: string }[] = [
+  { key: 'letterboxd', label: 'Letterboxd', file: 'diary.csv, watched.csv or reviews.csv from Settings → Data → Export', accept: '.csv' },
+  { key: 'goodreads', label: 'Goodreads', file: 'the library export CSV from My Books → Import and export', accept: '.csv' },
+  { key: 'trakt', label: 'Trakt', file: 'watched-history.json or ratings JSON from your data export', accept: '.json' },
+  { key: 'lastfm', label: 'Last.fm', file: 'a scrobbles CSV (artist, album, track, date) or recent tracks JSON', accept: '.csv,.json' },
+];
+
+// The server takes this many items per commit or retry (MAX_IMPORT_BATCH)
+const BATCH = 50;
+
+// Titles to check come first; a confident match is taken as is
+const MATCH_ORDER: Record<ImportMatch['match'], number> = { ambiguous: 0, error: 1, unmatched: 2, matched: 3 };
+
+type Stage =
+  | { step: 'pick' }
+  | { step: 'matching' }
+  | { step: 'review'; preview: ImportPreview; choices: (number | null)[]; retrying?: boolean }
+  | { step: 'saving'; done: number; total: number }
+  | { step: 'done'; result: ImportResult };
+
+function entryDetails(match: ImportMatch): string {
+  const { entry } = match;
+  const details = [entry.year, entry.creator].filter(Boolean);
+  if (entry.status === 'want_to') details.push('to the backlog');
+  else if (entry.viewings.length > 0) details.push(entry.viewings.length === 1 ? entry.viewings[0]!.date : `${entry.viewings.length} viewings`);
+  if (entry.rating !== null) details.push(`${entry.rating}★`);
+  return details.join(' · ');
+}
+
+function MatchRow({ match, choice, onChoose }: { match: ImportMatch; choice: number | null; onChoose: (choice: number | null) => void }) {
+  return (
+    <li className="flex flex-col gap-2 px-3 py-3 sm:flex-row sm:items-center">
+      <div className="min-w-0 sm:w-64 sm:shrink-0">
+        <p className="flex items-center gap-1.5 truncate text-sm font-medium text-white">
+          {match.match === 'ambiguous' && <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-400" aria-label="Check this match" />}
+          {match.entry.title}
+        </p>
+        <p className="truncate text-xs text-white/50">{entryDetails(match)}</p>
+      </div>
+      <div className="flex flex-1 gap-2 overflow-x-auto">
+        {match.candidates.map((candidate, i) => (
+          <button
+            key={candidate.id}
+            onClick={() => onChoose(i)}
+            title={[candidate.title, candidate.subtitle].filter(Boolean).join(' — ')}
+            className={`w-16 shrink-0 rounded p-0.5 text-left transition-colors ${choice === i ? 'bg-emerald-500/60' : 'hover:bg-white/10'}`}
+          >
+            {candidate.imageUrl ? (
+              <img src={candidate.imageUrl} alt="" className="aspect-[2/3] w-full rounded object-cover" />
+            ) : (
+              <div className="flex aspect-[2/3] w-full items-center justify-center rounded bg-white/10 p-1 text-center text-[10px] text-white/50">
+                {candidate.title}
+              </div>
+            )}
+            <p className="mt-0.5 truncate text-[10px] text-white/60">{candidate.year ?? candidate.subtitle}</p>
+          </button>
+        ))}
+        {match.match === 'error' && <p className="self-center text-xs text-red-400/80">Search failed</p>}
+        {match.match === 'unmatched' && <p className="self-center text-xs text-white/40">No match found</p>}
+      </div>
+      <button
+        onClick={() => onChoose(null)}
+        className={`shrink-0 self-start rounded px-2.5 py-1 text-xs font-medium transition-colors sm:self-center ${choice === null ? 'bg-gray-500/40 text-white/90' : 'bg-gray-500/20 text-white/50 hover:text-white/80'}`}
+      >
+        Skip
+      </button>
+    </li>
+  );
+}
+
+export default function Import() {
+  const { authFetch } = useAuth();
+  const [source, setSource] = useState<ImportSource>('letterboxd');
+  const [stage, setStage] = useState<Stage>({ step: 'pick' });
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = (file: File) => {
+    const form = new FormData();
+    form.append('file', file);
+    setError(null);
+    setStage({ step: 'matching' });
+    authFetch(`/api/import/${source}/preview`, { method: 'POST', body: form })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(((await res.json().catch(() => null)) as ApiError | null)?.error ?? `Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((preview: ImportPreview) => {
+        const matches = [...preview.matches].sort((a, b) => MATCH_ORDER[a.match] - MATCH_ORDER[b.match]);
+        setStage({ step: 'review', preview: { ...preview, matches }, choices: matches.map((m) => m.suggested) });
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to read the export');
+        setStage({ step: 'pick' });
+      });
+  };
+
+  // Searches again for the entries whose search failed, keeping other choices
+  const retry = async (preview: ImportPreview, choices: (number | null)[]) => {
+    const failed = preview.matches.flatMap((match, i) => (match.match === 'error' ? [i] : []));
+    const retried = new Map<number, ImportMatch>();
+    setError(null);
+    setStage({ step: 'review', preview, choices, retrying: true });
+    try {
+      for (let start = 0; start < failed.length; start += BATCH) {
+        const indexes = failed.slice(start, start + BATCH);
+        const res = await authFetch('/api/import/match', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ entries: indexes.map((i) => preview.matches[i]!.entry) } satisfies ImportMatchBody),
+        });
+        if (!res.ok) throw new Error(((await res.json().catch(() => null)) as ApiError | null)?.error ?? `Server error: ${res.status}`);
+        const matches = await res.json() as ImportMatch[];
+        indexes.forEach((index, j) => retried.set(index, matches[j]!));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search again');
+    }
+    // Choices made meanwhile stay; a cancelled or replaced review is left alone
+    setStage((current) => current.step !== 'review' || current.preview !== preview ? current : {
+      step: 'review',
+      preview: { ...current.preview, matches: current.preview.matches.map((match, i) => retried.get(i) ?? match) },
+      choices: current.choices.map((choice, i) => (retried.has(i) ? retried.get(i)!.suggested : choice)),
+    });
+  };
+
+  const commit = async (preview: ImportPreview, choices: (number | null)[]) => {
+    const items: ImportCommitBody['items'] = [];
+    preview.matches.forEach((match, i) => {
+      const candidate = choices[i] === null ? undefined : match.candidates[choices[i]!];
+      if (!candidate) return;
+      items.push({
+        category: match.entry.category,
+        id: candidate.id,
+        title: candidate.title,
+        subtitle: candidate.subtitle,
+        imageUrl: candidate.imageUrl,
+        status: match.entry.status,
+        rating: match.entry.rating,
+        review: match.entry.review,
+        viewings: match.entry.viewings,
+      });
+    });
+
+    setError(null);
+    const result: ImportResult = { imported: 0, skipped: 0 };
+    try {
+      for (let start = 0; start < items.length; start += BATCH) {
+        setStage({ step: 'saving', done: start, total: items.length });
+        const res = await authFetch('/api/import/commit', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items: items.slice(start, start + BATCH) } satisfies ImportCommitBody),
+        });
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        const batch = await res.json() as ImportResult;
+        result.imported += batch.imported;
+        result.skipped += batch.skipped;
+      }
+      setStage({ step: 'done', result });
+    } catch (err) {
+      setError(`${err instanceof Error ? err.message : 'Import failed'} after ${result.imported} items were saved`);
+      setStage({ step: 'done', result });
+    }
+  };
+
+  const picked = SOURCES.find((s) => s.key === source)!;
+  const actionButton = 'inline-flex items-center gap-1.5 rounded bg-indigo-600/80 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-600 transition-colors disabled:opacity-50';
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-4 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Import history <FileUp className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">From Letterboxd, Goodreads, Trakt or Last.fm</p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      {error && (
+        <div className="mb-4 max-w-3xl rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {(stage.step === 'pick' || stage.step === 'matching') && (
+        <div className="max-w-3xl space-y-4">
+          <div className="flex flex-wrap gap-1">
+            {SOURCES.map((s) => (
+              <button
+                key={s.key}
+                onClick={() => setSource(s.key)}
+                disabled={stage.step === 'matching'}
+                className={`rounded px-3 py-1.5 text-sm font-medium transition-colors ${
+                  source === s.key ? 'bg-indigo-500/40 text-white/90' : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
+                }`}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-white/60">Upload {picked.file}. Nothing is saved until you've checked the matches.</p>
+          <label className={`${actionButton} cursor-pointer ${stage.step === 'matching' ? 'pointer-events-none opacity-50' : ''}`}>
+            {stage.step === 'matching' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {stage.step === 'matching' ? 'Matching titles…' : 'Choose file'}
+            <input
+              key={source}
+              type="file"
+              accept={picked.accept}
+              className="hidden"
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) upload(f); }}
+            />
+          </label>
+        </div>
+      )}
+
+      {stage.step === 'review' && (() => {
+        const { preview, choices, retrying } = stage;
+        const chosen = choices.filter((c) => c !== null).length;
+        const toCheck = preview.matches.filter((m) => m.match === 'ambiguous').length;
+        const failed = preview.matches.filter((m) => m.match === 'error').length;
+        return (
+          <div className="max-w-5xl">
+            <div className="mb-4 flex flex-wrap items-center gap-3">
+              <p className="text-sm text-white/60">
+                {preview.matches.length} titles · {toCheck} to check · {chosen} will be imported
+                {failed > 0 && ` · ${failed} ${failed === 1 ? 'search' : 'searches'} failed`}
+                {preview.leftOut > 0 && ` · ${preview.leftOut} more left out, import the file again afterwards for those`}
+              </p>
+              <div className="flex gap-2 sm:ml-auto">
+                <button onClick={() => setStage({ step: 'pick' })} className="rounded px-3 py-2 text-sm text-white/60 hover:text-white/90">
+                  Cancel
+                </button>
+                {failed > 0 && (
+                  <button onClick={() => void retry(preview, choices)} disabled={retrying} className="inline-flex items-center gap-1.5 rounded px-3 py-2 text-sm text-white/60 hover:text-white/90 disabled:opacity-50">
+                    <RotateCw className={`h-4 w-4 ${retrying ? 'animate-spin' : ''}`} /> Search again
+                  </button>
+                )}
+                <button onClick={() => void commit(preview, choices)} disabled={chosen === 0 || retrying} className={actionButton}>
+                  <Check className="h-4 w-4" /> Import {chosen}
+                </button>
+              </div>
+            </div>
+            <ul className="divide-y divide-white/5 rounded-lg bg-gray-500/10">
+              {preview.matches.map((match, i) => (
+                <MatchRow
+                  key={i}
+                  match={match}
+                  choice={choices[i] ?? null}
+                  onChoose={(choice) => setStage({ ...stage, choices: choices.map((c, j) => (j === i ? choice : c)) })}
+                />
+              ))}
+            </ul>
+          </div>
+        );
+      })()}
+
+      {stage.step === 'saving' && (
+        <div className="flex items-center gap-3 text-sm text-white/70">
+          <Loader2 className="h-5 w-5 animate-spin text-indigo-600" /> Saved {stage.done} of {stage.total}…
+        </div>
+      )}
+
+      {stage.step === 'done' && (
+        <div className="max-w-3xl space-y-3 text-sm text-white/70">
+          <p>
+            Imported {stage.result.imported} {stage.result.imported === 1 ? 'item' : 'items'}
+            {stage.result.skipped > 0 && `, skipped ${stage.result.skipped} already tracked`}.
+          </p>
+          <div className="flex gap-3">
+            <Link to="/diary" className="text-indigo-400 hover:text-indigo-300">Open the diary</Link>
+            <button onClick={() => setStage({ step: 'pick' })} className="text-indigo-400 hover:text-indigo-300">Import another file</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
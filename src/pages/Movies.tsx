@@ -1,75 +1,70 @@
 import { useEffect, useRef, useState } from 'react';
-import { Clapperboard, Loader2, X } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Clapperboard, Loader2, X } from 'lucide-react';
 import MovieCard from '../components/movies/MovieCard';
+import DataUnavailable from '../components/DataUnavailable';
 import { useAuth } from '../AuthContext';
-
-interface MovieRelease {
-  id: number;
-  title: string;
-  posterUrl: string | null;
-  releaseDate: string;
-  director: string | null;
-  directorId: number | null;
-  cast: string[];
-  overview: string;
-  tmdbUrl: string;
-  fridayDate: string;
-  revenue: number | null;
-  isHorror?: boolean;
-}
+import { useBacklog } from '../backlog';
+import { toISODate, addDays, releaseFriday, updatedLabel } from '../dates';
+import type { FeedIssue, FeedResponse, MovieRelease } from '../../shared/types';
 
 type Tab = 'releases' | 'in-theatres';
 
 export default function Movies() {
   const { authFetch } = useAuth();
+  const backlog = useBacklog();
   const [activeTab, setActiveTab] = useState<Tab>('releases');
 
-  // Releases state
-  const [movies, setMovies] = useState<MovieRelease[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [fridayLabel, setFridayLabel] = useState('');
+  // Releases state, keyed by the Friday they were fetched for
+  const [friday, setFriday] = useState(() => releaseFriday(new Date()));
+  const [releases, setReleases] = useState<{ friday: string; movies?: MovieRelease[]; issues?: FeedIssue[]; lastUpdated?: string; error?: string } | null>(null);
 
   // Now-playing state
   const [nowPlaying, setNowPlaying] = useState<MovieRelease[]>([]);
   const [nowPlayingLoading, setNowPlayingLoading] = useState(false);
   const [nowPlayingError, setNowPlayingError] = useState<string | null>(null);
+  const [nowPlayingUpdated, setNowPlayingUpdated] = useState<string | null>(null);
+  const [nowPlayingIssues, setNowPlayingIssues] = useState<FeedIssue[]>([]);
   const nowPlayingFetched = useRef(false);
 
   const handleDismiss = async (id: number) => {
     if (!window.confirm('Remove this card?')) return;
     try {
       await authFetch(`/api/dismissed/movie/${id}`, { method: 'POST' });
-      setMovies((prev) => prev.filter((m) => m.id !== id));
+      setReleases((prev) => prev && { ...prev, movies: prev.movies?.filter((m) => m.id !== id) });
       setNowPlaying((prev) => prev.filter((m) => m.id !== id));
     } catch {}
   };
 
+  const fridayDate = toISODate(friday);
+
   useEffect(() => {
-    authFetch('/api/movies/upcoming')
+    let cancelled = false;
+    authFetch(`/api/movies/upcoming?friday=${fridayDate}`)
       .then((res) => {
         if (!res.ok) throw new Error(`Server error: ${res.status}`);
         return res.json();
       })
-      .then((data: MovieRelease[]) => {
-        setMovies(data);
-        if (data.length > 0 && data[0].fridayDate) {
-          const [y, m, d] = data[0].fridayDate.split('-').map(Number);
-          const date = new Date(y, m - 1, d);
-          setFridayLabel(date.toLocaleDateString('en-US', {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          }));
-        }
-        setLoading(false);
+      .then((data: FeedResponse<MovieRelease>) => {
+        if (!cancelled) setReleases({ friday: fridayDate, movies: data.items, issues: data.issues, lastUpdated: data.lastUpdated });
       })
       .catch((err: unknown) => {
-        setError(err instanceof Error ? err.message : 'Failed to fetch movies');
-        setLoading(false);
+        if (!cancelled) setReleases({ friday: fridayDate, error: err instanceof Error ? err.message : 'Failed to fetch movies' });
       });
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, fridayDate]);
+
+  const loading = releases?.friday !== fridayDate;
+  const error = loading ? null : releases?.error ?? null;
+  const movies = loading ? [] : releases?.movies ?? [];
+  const isCurrentWeek = fridayDate === toISODate(releaseFriday(new Date()));
+  const fridayLabel = friday.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
 
   // Lazy-fetch now-playing on first switch
   useEffect(() => {
@@ -81,8 +76,10 @@ export default function Movies() {
         if (!res.ok) throw new Error(`Server error: ${res.status}`);
         return res.json();
       })
-      .then((data: MovieRelease[]) => {
-        setNowPlaying(data);
+      .then((data: FeedResponse<MovieRelease>) => {
+        setNowPlaying(data.items);
+        setNowPlayingUpdated(data.lastUpdated);
+        setNowPlayingIssues(data.issues);
         setNowPlayingLoading(false);
       })
       .catch((err: unknown) => {
@@ -95,8 +92,14 @@ export default function Movies() {
   const currentLoading = activeTab === 'releases' ? loading : nowPlayingLoading;
   const currentError = activeTab === 'releases' ? error : nowPlayingError;
   const subtitle = activeTab === 'releases' ? fridayLabel : 'Now showing in US theatres';
+  const lastUpdated = activeTab === 'releases'
+    ? (loading ? null : releases?.lastUpdated ?? null)
+    : nowPlayingUpdated;
+  const issues = activeTab === 'releases'
+    ? (loading ? [] : releases?.issues ?? [])
+    : nowPlayingIssues;
   const emptyMessage = activeTab === 'releases'
-    ? 'No movie releases this Friday'
+    ? (isCurrentWeek ? 'No movie releases this Friday' : 'No movie releases that Friday')
     : 'No movies currently in theatres';
 
   return (
@@ -110,6 +113,8 @@ export default function Movies() {
             New Movie Releases <Clapperboard className="h-5 w-5 text-indigo-600" />
           </h1>
           {subtitle && <p className="text-sm text-gray-500">{subtitle}</p>}
+          {lastUpdated && <p className="text-xs text-gray-500/70">{updatedLabel(lastUpdated)}</p>}
+          <DataUnavailable issues={issues} />
         </div>
         <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
       </div>
@@ -138,6 +143,32 @@ export default function Movies() {
         </button>
       </div>
 
+      {activeTab === 'releases' && (
+        <div className="mb-6 flex items-center gap-1">
+          <button
+            onClick={() => setFriday((f) => addDays(f, -7))}
+            aria-label="Previous week"
+            className="rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setFriday(releaseFriday(new Date()))}
+            disabled={isCurrentWeek}
+            className="rounded bg-gray-500/20 px-3 py-1.5 text-sm font-medium text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors disabled:opacity-50 disabled:hover:bg-gray-500/20"
+          >
+            This Week
+          </button>
+          <button
+            onClick={() => setFriday((f) => addDays(f, 7))}
+            aria-label="Next week"
+            className="rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {currentLoading && (
         <div className="flex items-center justify-center py-20">
           <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
@@ -174,6 +205,8 @@ export default function Movies() {
                 cast={movie.cast}
                 tmdbUrl={movie.tmdbUrl}
                 isHorror={movie.isHorror}
+                saved={backlog.isSaved('movie', movie.id)}
+                onSaveForLater={() => backlog.save('movie', { id: movie.id, title: movie.title, subtitle: movie.releaseDate, imageUrl: movie.posterUrl })}
               />
             </div>
           ))}
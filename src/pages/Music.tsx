@@ -2,69 +2,28 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { Music2, Loader2, ChevronLeft, ChevronRight, X, Unplug } from 'lucide-react';
 import AlbumCard from '../components/music/AlbumCard';
 import type { PlaybackState } from '../components/music/AlbumCard';
+import DataUnavailable from '../components/DataUnavailable';
 import { useAuth } from '../AuthContext';
-
-interface AlbumRelease {
-  id: string;
-  title: string;
-  artist: string;
-  coverUrl: string | null;
-  releaseDate: string;
-  type: string;
-  fridayDate: string;
-  artistListeners?: number | null;
-  inSpotifyLibrary?: boolean;
-  genre?: string;
-}
-
-interface ChartTrack {
-  name: string;
-  artist: string;
-  playcount: number;
-  listeners: number;
-  url: string;
-  imageUrl: string | null;
-}
-
-interface ChartAlbum {
-  name: string;
-  artist: string;
-  url: string;
-  imageUrl: string | null;
-  genre: string;
-  releaseDate: string | null;
-}
-
-interface ChartArtist {
-  name: string;
-  playcount: number;
-  listeners: number;
-  url: string;
-  imageUrl: string | null;
-}
-
-interface TopChartsResponse {
-  topTracks: ChartTrack[];
-  topAlbums: ChartAlbum[];
-  topArtists: ChartArtist[];
-  topAlbumsByGenre: Record<string, ChartAlbum[]>;
-}
+import { useBacklog } from '../backlog';
+import { isEnabled, useFeatures } from '../features';
+import { toISODate, fromISODate, addDays, releaseFriday, updatedLabel } from '../dates';
+import type { AlbumRelease, ChartsResponse, FeedIssue, FeedResponse } from '../../shared/types';
 
 type Tab = 'releases' | 'top-charts';
 
 export default function Music() {
   const { authFetch } = useAuth();
+  const backlog = useBacklog();
+  const features = useFeatures();
   const [activeTab, setActiveTab] = useState<Tab>('releases');
 
   // Releases state
-  const [albums, setAlbums] = useState<AlbumRelease[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [fridayLabel, setFridayLabel] = useState('');
+  const [friday, setFriday] = useState(() => releaseFriday(new Date()));
+  const [releases, setReleases] = useState<{ friday: string; albums?: AlbumRelease[]; issues?: FeedIssue[]; lastUpdated?: string; error?: string } | null>(null);
   const [spotifyConnected, setSpotifyConnected] = useState(false);
 
   // Charts state
-  const [charts, setCharts] = useState<TopChartsResponse | null>(null);
+  const [charts, setCharts] = useState<ChartsResponse | null>(null);
   const [chartsLoading, setChartsLoading] = useState(false);
   const [chartsError, setChartsError] = useState<string | null>(null);
   const chartsFetched = useRef(false);
@@ -154,39 +113,57 @@ export default function Music() {
       .catch(() => {});
   }, [authFetch]);
 
+  // The server binds the OAuth state to this session, then we hand off to Spotify
+  const handleSpotifyConnect = () => {
+    authFetch('/api/spotify/login', { method: 'POST' })
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: { url: string }) => {
+        window.location.href = data.url;
+      })
+      .catch(() => {});
+  };
+
   const handleDismiss = async (id: string) => {
     if (!window.confirm('Remove this card?')) return;
     try {
       await authFetch(`/api/dismissed/album/${id}`, { method: 'POST' });
-      setAlbums((prev) => prev.filter((a) => a.id !== id));
+      setReleases((prev) => prev && { ...prev, albums: prev.albums?.filter((a) => a.id !== id) });
     } catch {}
   };
 
+  const fridayDate = toISODate(friday);
+
   useEffect(() => {
-    authFetch('/api/music/upcoming')
+    let cancelled = false;
+    authFetch(`/api/music/upcoming?friday=${fridayDate}`)
       .then((res) => {
         if (!res.ok) throw new Error(`Server error: ${res.status}`);
         return res.json();
       })
-      .then((data: AlbumRelease[]) => {
-        setAlbums(data);
-        if (data.length > 0 && data[0].fridayDate) {
-          const [y, m, d] = data[0].fridayDate.split('-').map(Number);
-          const date = new Date(y, m - 1, d);
-          setFridayLabel(date.toLocaleDateString('en-US', {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          }));
-        }
-        setLoading(false);
+      .then((data: FeedResponse<AlbumRelease>) => {
+        if (!cancelled) setReleases({ friday: fridayDate, albums: data.items, issues: data.issues, lastUpdated: data.lastUpdated });
       })
       .catch((err: unknown) => {
-        setError(err instanceof Error ? err.message : 'Failed to fetch albums');
-        setLoading(false);
+        if (!cancelled) setReleases({ friday: fridayDate, error: err instanceof Error ? err.message : 'Failed to fetch albums' });
       });
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, fridayDate]);
+
+  const loading = releases?.friday !== fridayDate;
+  const error = loading ? null : releases?.error ?? null;
+  const albums = loading ? [] : releases?.albums ?? [];
+  const isCurrentWeek = fridayDate === toISODate(releaseFriday(new Date()));
+  const fridayLabel = friday.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
 
   // Lazy-fetch charts on first switch
   useEffect(() => {
@@ -198,7 +175,7 @@ export default function Music() {
         if (!res.ok) throw new Error(`Server error: ${res.status}`);
         return res.json();
       })
-      .then((data: TopChartsResponse) => {
+      .then((data: ChartsResponse) => {
         setCharts(data);
         setChartsLoading(false);
       })
@@ -243,6 +220,8 @@ export default function Music() {
         type={album.type}
         playbackState={getPlaybackState(album.artist)}
         onTogglePlay={handleTogglePlay}
+        saved={backlog.isSaved('album', album.id)}
+        onSaveForLater={() => backlog.save('album', { id: album.id, title: album.title, subtitle: album.artist, imageUrl: album.coverUrl })}
       />
     </div>
   );
@@ -256,6 +235,12 @@ export default function Music() {
   const currentLoading = activeTab === 'releases' ? loading : chartsLoading;
   const currentError = activeTab === 'releases' ? error : chartsError;
   const subtitle = activeTab === 'releases' ? fridayLabel : 'Most popular on Last.fm';
+  const lastUpdated = activeTab === 'releases'
+    ? (loading ? null : releases?.lastUpdated ?? null)
+    : charts?.lastUpdated ?? null;
+  const issues = activeTab === 'releases'
+    ? (loading ? [] : releases?.issues ?? [])
+    : (chartsLoading ? [] : charts?.issues ?? []);
 
   return (
     <div className="p-6 md:p-10">
@@ -268,6 +253,8 @@ export default function Music() {
             {activeTab === 'releases' ? 'New Album Releases' : 'Top Charts'} <Music2 className="h-5 w-5 text-indigo-600" />
           </h1>
           {subtitle && <p className="text-sm text-gray-500">{subtitle}</p>}
+          {lastUpdated && <p className="text-xs text-gray-500/70">{updatedLabel(lastUpdated)}</p>}
+          <DataUnavailable issues={issues} />
         </div>
         <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
       </div>
@@ -284,28 +271,30 @@ export default function Music() {
         >
           New Releases
         </button>
-        <button
-          onClick={() => setActiveTab('top-charts')}
-          className={`min-w-[7rem] text-center rounded px-3 py-2 text-sm font-medium transition-colors sm:px-4 ${
-            activeTab === 'top-charts'
-              ? 'bg-amber-500/40 text-white/90'
-              : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
-          }`}
-        >
-          Top Charts
-        </button>
-        {activeTab === 'releases' && (
+        {isEnabled(features, 'charts') && (
+          <button
+            onClick={() => setActiveTab('top-charts')}
+            className={`min-w-[7rem] text-center rounded px-3 py-2 text-sm font-medium transition-colors sm:px-4 ${
+              activeTab === 'top-charts'
+                ? 'bg-amber-500/40 text-white/90'
+                : 'bg-gray-500/20 text-white/40 hover:bg-gray-500/30 hover:text-white/60'
+            }`}
+          >
+            Top Charts
+          </button>
+        )}
+        {activeTab === 'releases' && isEnabled(features, 'spotify') && (
           <>
             {!spotifyConnected ? (
-              <a
-                href="/api/spotify/login"
+              <button
+                onClick={handleSpotifyConnect}
                 title="Connect Spotify"
                 className="ml-2 rounded-full bg-[#1DB954] p-1.5 text-white transition-colors hover:bg-[#1ed760]"
               >
                 <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
                   <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.419 1.56-.299.421-1.02.599-1.559.3z" />
                 </svg>
-              </a>
+              </button>
             ) : (
               <button
                 onClick={() => {
@@ -326,6 +315,42 @@ export default function Music() {
         )}
       </div>
 
+      {activeTab === 'releases' && (
+        <div className="mb-6 flex items-center gap-1">
+          <button
+            onClick={() => setFriday((f) => addDays(f, -7))}
+            aria-label="Previous week"
+            className="rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setFriday(releaseFriday(new Date()))}
+            disabled={isCurrentWeek}
+            className="rounded bg-gray-500/20 px-3 py-1.5 text-sm font-medium text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors disabled:opacity-50 disabled:hover:bg-gray-500/20"
+          >
+            This Week
+          </button>
+          <button
+            onClick={() => setFriday((f) => addDays(f, 7))}
+            aria-label="Next week"
+            className="rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          {/* Any date picks the release Friday of its week */}
+          <input
+            type="date"
+            value={fridayDate}
+            onChange={(e) => {
+              if (e.target.value) setFriday(releaseFriday(fromISODate(e.target.value)));
+            }}
+            aria-label="Jump to week"
+            className="ml-1 rounded bg-gray-500/20 px-2 py-1 text-sm text-white/70 [color-scheme:dark]"
+          />
+        </div>
+      )}
+
       {currentLoading && (
         <div className="flex items-center justify-center py-20">
           <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
@@ -341,7 +366,7 @@ export default function Music() {
       {/* === Releases Tab === */}
       {activeTab === 'releases' && !loading && !error && albums.length === 0 && (
         <div className="py-20 text-center text-gray-500">
-          No album releases this Friday
+          {isCurrentWeek ? 'No album releases this Friday' : 'No album releases that Friday'}
         </div>
       )}
 
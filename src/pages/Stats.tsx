@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { ChartColumn, ChevronLeft, ChevronRight, Download, Image as ImageIcon, Loader2, Share2, Star } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import { fromISODate } from '../dates';
+import type { CreatorCount, StatsPeriod, WatchedStats } from '../../shared/types';
+
+const CATEGORIES: { key: string; label: string; bar: string }[] = [
+  { key: 'movie', label: 'Movies', bar: 'bg-rose-500' },
+  { key: 'tv', label: 'TV', bar: 'bg-purple-500' },
+  { key: 'album', label: 'Albums', bar: 'bg-emerald-500' },
+  { key: 'book', label: 'Books', bar: 'bg-amber-500' },
+  { key: 'game', label: 'Games', bar: 'bg-sky-500' },
+];
+
+const panel = 'rounded-xl bg-gray-500/10 p-4';
+const panelTitle = 'mb-3 text-sm font-semibold uppercase tracking-wide text-white/50';
+
+// One column per month, stacked by category
+function MonthChart({ months }: { months: StatsPeriod[] }) {
+  const most = Math.max(1, ...months.map((m) => m.total));
+  return (
+    <div className="flex h-40 items-end gap-1.5">
+      {months.map((m) => (
+        <div key={m.period} className="flex h-full flex-1 flex-col items-center gap-1">
+          <div className="flex w-full flex-1 flex-col-reverse overflow-hidden rounded-t" title={`${m.total}`}>
+            {CATEGORIES.map((c) => (m.counts[c.key] ?? 0) > 0 && (
+              <div key={c.key} className={c.bar} style={{ height: `${((m.counts[c.key] ?? 0) / most) * 100}%` }} />
+            ))}
+          </div>
+          <span className="text-[10px] text-white/40">
+            {fromISODate(`${m.period}-01`).toLocaleDateString('en-US', { month: 'narrow' })}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TopList({ title, entries, empty }: { title: string; entries: CreatorCount[]; empty: string }) {
+  return (
+    <div className={panel}>
+      <h2 className={panelTitle}>{title}</h2>
+      {entries.length === 0 ? (
+        <p className="text-sm text-white/40">{empty}</p>
+      ) : (
+        <ol className="space-y-1 text-sm">
+          {entries.map((entry, i) => (
+            <li key={`${entry.category}:${entry.name}`} className="flex gap-2">
+              <span className="w-5 text-right text-white/40">{i + 1}</span>
+              <span className="flex-1 truncate text-white/85">{entry.name}</span>
+              <span className="text-white/50">{entry.count}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export default function Stats() {
+  const { authFetch } = useAuth();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [result, setResult] = useState<{ url: string; stats?: WatchedStats; error?: string } | null>(null);
+  const [card, setCard] = useState<{ year: number; blob: Blob; url: string } | null>(null);
+  const [cardLoading, setCardLoading] = useState(false);
+
+  const url = `/api/stats?year=${year}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    authFetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: WatchedStats) => {
+        if (!cancelled) setResult({ url, stats: data });
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setResult({ url, error: err instanceof Error ? err.message : 'Failed to fetch stats' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authFetch, url]);
+
+  // Object URLs hold the image in memory until revoked
+  useEffect(() => () => {
+    if (card) URL.revokeObjectURL(card.url);
+  }, [card]);
+
+  const loading = result?.url !== url;
+  const stats = loading ? null : result?.stats ?? null;
+  const error = loading ? null : result?.error ?? null;
+  const shownCard = card?.year === year ? card : null;
+
+  const makeCard = () => {
+    setCardLoading(true);
+    authFetch(`/api/stats/card.png?year=${year}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.blob();
+      })
+      .then((blob) => setCard({ year, blob, url: URL.createObjectURL(blob) }))
+      .catch(() => {})
+      .finally(() => setCardLoading(false));
+  };
+
+  const cardFile = shownCard ? new File([shownCard.blob], `year-in-review-${year}.png`, { type: 'image/png' }) : null;
+  const canShare = cardFile !== null && typeof navigator.canShare === 'function' && navigator.canShare({ files: [cardFile] });
+
+  const navButton = 'rounded bg-gray-500/20 p-2 text-white/60 hover:bg-gray-500/30 hover:text-white/80 transition-colors disabled:opacity-30';
+  const actionButton = 'inline-flex items-center gap-1.5 rounded bg-gray-500/20 px-3 py-1.5 text-sm font-medium text-white/70 hover:bg-gray-500/30 hover:text-white/90 transition-colors';
+  const mostRatings = Math.max(1, ...(stats?.ratings.distribution.map((d) => d.count) ?? []));
+  const mostInAYear = Math.max(1, ...(stats?.byYear.map((y) => y.total) ?? []));
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-4 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Stats <ChartColumn className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">
+            {stats ? `${stats.viewings} logged in ${year}${stats.rewatches > 0 ? `, ${stats.rewatches} of them again` : ''}` : year}
+          </p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      <div className="mb-6 flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => setYear((y) => y - 1)} aria-label="Previous year" className={navButton}>
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="min-w-20 text-center text-sm font-medium text-white/70">{year}</span>
+          <button onClick={() => setYear((y) => y + 1)} disabled={year >= new Date().getFullYear()} aria-label="Next year" className={navButton}>
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+        <button onClick={makeCard} disabled={cardLoading || !stats} className={`sm:ml-auto ${actionButton}`}>
+          {cardLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageIcon className="h-4 w-4" />} Year in review
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {shownCard && cardFile && (
+        <div className={`mb-6 flex flex-col items-start gap-3 sm:flex-row ${panel}`}>
+          <img src={shownCard.url} alt={`${year} in review`} className="w-56 rounded-lg shadow-lg" />
+          <div className="flex gap-2">
+            <a href={shownCard.url} download={cardFile.name} className={actionButton}>
+              <Download className="h-4 w-4" /> Download
+            </a>
+            {canShare && (
+              <button onClick={() => navigator.share({ files: [cardFile] }).catch(() => {})} className={actionButton}>
+                <Share2 className="h-4 w-4" /> Share
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {stats && (
+        <div className="grid max-w-5xl gap-4 md:grid-cols-2">
+          <div className={`md:col-span-2 ${panel}`}>
+            <div className="mb-4 grid grid-cols-2 gap-3 sm:grid-cols-5">
+              {CATEGORIES.map((c) => {
+                const category = stats.categories.find((s) => s.category === c.key);
+                return (
+                  <div key={c.key} className="rounded-lg bg-black/20 px-3 py-2">
+                    <p className="flex items-center gap-1.5 text-xs text-white/50">
+                      <span className={`h-2 w-2 rounded-full ${c.bar}`} /> {c.label}
+                    </p>
+                    <p className="text-2xl font-bold text-white">{category?.viewings ?? 0}</p>
+                    <p className="flex items-center gap-1 text-xs text-white/40">
+                      {category?.averageRating != null && <><Star className="h-3 w-3 fill-yellow-400 text-yellow-400" /> {category.averageRating.toFixed(1)} · </>}
+                      {category?.items ?? 0} {category?.items === 1 ? 'title' : 'titles'}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+            <MonthChart months={stats.byMonth} />
+          </div>
+
+          <div className={panel}>
+            <h2 className={panelTitle}>
+              Ratings{stats.ratings.average !== null && ` · ${stats.ratings.average.toFixed(2)} average of ${stats.ratings.rated}`}
+            </h2>
+            <div className="space-y-1">
+              {stats.ratings.distribution.map((d) => (
+                <div key={d.rating} className="flex items-center gap-2 text-xs">
+                  <span className="w-6 text-right text-white/50">{d.rating}</span>
+                  <div className="h-3 flex-1 rounded bg-black/20">
+                    <div className="h-full rounded bg-yellow-400/80" style={{ width: `${(d.count / mostRatings) * 100}%` }} />
+                  </div>
+                  <span className="w-6 text-white/40">{d.count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className={panel}>
+            <h2 className={panelTitle}>By year</h2>
+            {stats.byYear.length === 0 ? (
+              <p className="text-sm text-white/40">Nothing logged yet</p>
+            ) : (
+              <div className="space-y-1">
+                {stats.byYear.map((y) => (
+                  <button key={y.period} onClick={() => setYear(Number(y.period))} className="flex w-full items-center gap-2 text-xs">
+                    <span className={`w-10 text-right ${Number(y.period) === year ? 'font-semibold text-white' : 'text-white/50'}`}>{y.period}</span>
+                    <div className="h-3 flex-1 rounded bg-black/20">
+                      <div className="h-full rounded bg-indigo-500/80" style={{ width: `${(y.total / mostInAYear) * 100}%` }} />
+                    </div>
+                    <span className="w-8 text-left text-white/40">{y.total}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <TopList title="Directors" entries={stats.topDirectors} empty="No movies with a director this year" />
+          <TopList title="Authors and artists" entries={stats.topCreators} empty="No books or albums this year" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Activity, Loader2, RefreshCw } from 'lucide-react';
+import { useAuth } from '../AuthContext';
+import type { ProviderState, StatusResponse } from '../../shared/types';
+
+type ProviderStatus = StatusResponse['providers'][number];
+
+const STATE_LABELS: Record<ProviderState | 'unconfigured', { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'bg-emerald-100 text-emerald-700' },
+  degraded: { label: 'Degraded', className: 'bg-amber-100 text-amber-700' },
+  down: { label: 'Down', className: 'bg-rose-100 text-rose-700' },
+  unknown: { label: 'No requests yet', className: 'bg-gray-100 text-gray-500' },
+  unconfigured: { label: 'Not configured', className: 'bg-gray-200 text-gray-600' },
+};
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+function formatQuota(quota: ProviderStatus['quota']): string {
+  if (!quota) return '—';
+  const remaining = quota.remaining ?? '?';
+  return quota.limit !== null ? `${remaining} / ${quota.limit}` : String(remaining);
+}
+
+export default function Status() {
+  const { authFetch } = useAuth();
+  const [status, setStatus] = useState<StatusResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    authFetch('/api/status')
+      .then((res) => {
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return res.json();
+      })
+      .then((data: StatusResponse) => {
+        setStatus(data);
+        setError(null);
+        setLoading(false);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Failed to fetch status');
+        setLoading(false);
+      });
+  }, [authFetch, reloadKey]);
+
+  const handleRefresh = () => {
+    setLoading(true);
+    setReloadKey((k) => k + 1);
+  };
+
+  const providers = status?.providers ?? [];
+
+  return (
+    <div className="p-6 md:p-10">
+      <div className="mb-6 flex items-end gap-0">
+        <div
+          className="inline-block rounded-xl bg-[#BB7044]/15 p-4 pr-10"
+          style={{ clipPath: 'polygon(0 0, calc(100% - 2.25rem) 0, 100% 2.25rem, 100% 100%, 0 100%)' }}
+        >
+          <h1 className="inline-flex items-center gap-2 text-2xl font-bold text-white">
+            Provider Status <Activity className="h-5 w-5 text-indigo-600" />
+          </h1>
+          <p className="text-sm text-gray-500">
+            {status ? `Since the server started · checked ${formatTime(status.checkedAt)}` : 'Upstream APIs used by the dashboard'}
+          </p>
+        </div>
+        <div className="h-px flex-1 self-end" style={{ background: 'linear-gradient(to right, rgba(255,255,255,0), rgba(255,255,255,0.28) 3%, rgba(255,255,255,0.28) 97%, rgba(255,255,255,0))' }} />
+      </div>
+
+      <div className="mb-4 flex items-center gap-2">
+        <button
+          onClick={handleRefresh}
+          className="flex items-center gap-1.5 rounded-lg bg-white/60 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-white transition-colors"
+        >
+          <RefreshCw className="h-4 w-4" /> Refresh
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && providers.length > 0 && (
+        <div className="overflow-x-auto rounded-xl bg-white/70">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-gray-200 text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-4 py-2 font-medium">Provider</th>
+                <th className="px-4 py-2 font-medium">State</th>
+                <th className="px-4 py-2 font-medium">Requests</th>
+                <th className="px-4 py-2 font-medium">Failed</th>
+                <th className="px-4 py-2 font-medium">Rate limited</th>
+                <th className="px-4 py-2 font-medium">Latency</th>
+                <th className="px-4 py-2 font-medium">Quota left</th>
+                <th className="px-4 py-2 font-medium">Last success</th>
+                <th className="px-4 py-2 font-medium">Last error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {providers.map((p) => {
+                const state = STATE_LABELS[p.configured ? p.state : 'unconfigured'];
+                return (
+                  <tr key={p.provider} className="border-b border-gray-100 last:border-0">
+                    <td className="whitespace-nowrap px-4 py-2 font-medium text-gray-800">{p.provider}</td>
+                    <td className="px-4 py-2">
+                      <span className={`whitespace-nowrap rounded px-2 py-0.5 text-xs font-medium ${state.className}`}>
+                        {state.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{p.requests}</td>
+                    <td className="px-4 py-2 text-gray-600">{p.failures}</td>
+                    <td className="px-4 py-2 text-gray-600">{p.rateLimited}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-gray-600" title={p.lastLatencyMs !== null ? `Last: ${p.lastLatencyMs} ms` : undefined}>
+                      {p.averageLatencyMs !== null ? `${p.averageLatencyMs} ms` : '—'}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-gray-600" title={p.quota?.resetAt ? `Resets ${formatTime(p.quota.resetAt)}` : undefined}>
+                      {formatQuota(p.quota)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-2 text-gray-600">{formatTime(p.lastSuccessAt)}</td>
+                    <td className="max-w-xs px-4 py-2 text-xs text-gray-500">
+                      {p.lastError ? (
+                        <span title={formatTime(p.lastFailureAt)}>{p.lastError}</span>
+                      ) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,13 @@ import Home from './pages/Home'
 import Movies from './pages/Movies'
 import Gaming from './pages/Gaming'
 import Music from './pages/Music'
+import Calendar from './pages/Calendar'
+import Archive from './pages/Archive'
+import Diary from './pages/Diary'
+import Stats from './pages/Stats'
+import Import from './pages/Import'
+import Status from './pages/Status'
+import Admin from './pages/Admin'
 
 export const router = createBrowserRouter([
   {
@@ -14,6 +21,13 @@ export const router = createBrowserRouter([
       { path: 'movies', element: <Movies /> },
       { path: 'gaming', element: <Gaming /> },
       { path: 'music', element: <Music /> },
+      { path: 'calendar', element: <Calendar /> },
+      { path: 'archive', element: <Archive /> },
+      { path: 'diary', element: <Diary /> },
+      { path: 'stats', element: <Stats /> },
+      { path: 'import', element: <Import /> },
+      { path: 'status', element: <Status /> },
+      { path: 'admin', element: <Admin /> },
     ],
   },
 ])